@@ -1,5 +1,5 @@
 import { Tabs } from 'expo-router';
-import { QrCode, List } from 'lucide-react-native';
+import { QrCode, List, Settings } from 'lucide-react-native';
 import { Platform } from 'react-native';
 
 export default function TabLayout() {
@@ -39,6 +39,15 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="settings"
+        options={{
+          title: 'Settings',
+          tabBarIcon: ({ size, color }) => (
+            <Settings size={size} color={color} />
+          ),
+        }}
+      />
     </Tabs>
   );
 }
\ No newline at end of file
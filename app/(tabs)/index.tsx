@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useRef } from 'react';
 import {
   View,
   Text,
@@ -15,81 +15,546 @@ import {
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { CameraView, CameraType, useCameraPermissions } from 'expo-camera';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useFocusEffect } from '@react-navigation/native';
+import { useRouter } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import {
+  QRRecord,
+  DuplicateRecordError,
+  addRecord,
+  getRecord,
+} from '@/lib/records';
+import { registerWithCheckIn, toggleAttendance } from '@/lib/attendance';
+import { getBadge } from '@/lib/badges';
+import {
+  CaptureMethod,
+  ImageScan,
+  ManualCodeError,
+  SYMBOLOGIES,
+  SYMBOLOGY_LABELS,
+  Symbology,
+  checkManualCode,
+  normalizeSymbology,
+  recordCode,
+  scanImage,
+} from '@/lib/barcodes';
+import { QREvent, getActiveEvent } from '@/lib/events';
+import { pickImages } from '@/lib/files';
+import { FieldInputs, FieldValues, parseFieldInputs } from '@/lib/forms';
+import { countGuests, getGuest } from '@/lib/guests';
+import {
+  PAYLOAD_FORMAT_LABELS,
+  ParsedPayload,
+  parsePayload,
+  prefillFieldInputs,
+} from '@/lib/payloads';
+import {
+  TicketRejectedError,
+  logRejectedScan,
+  verifyTicket,
+} from '@/lib/tickets';
+import { getDeviceTimeZone } from '@/lib/time';
+import { queueDuplicateWebhook } from '@/lib/webhooks';
+import { useEvents } from '@/hooks/useEvents';
+import { useImageDrop } from '@/hooks/useImageDrop';
+import { useKeyboardWedge } from '@/hooks/useKeyboardWedge';
+import { useSettings } from '@/hooks/useSettings';
+import FormFieldInputs from '@/components/FormFieldInputs';
 
-const RECORDS_KEY = '@qr_records';
+// A code stays in frame for a while after a check-in, so ignore repeat scans
+// of it for this long before toggling again
+const ATTENDANCE_COOLDOWN_MS = 5000;
+// Likewise for a rejected ticket, so it is logged once rather than per frame
+const REJECTION_COOLDOWN_MS = 5000;
+// And for a duplicate, so its webhook is sent once rather than per frame
+const DUPLICATE_COOLDOWN_MS = 5000;
+// Continuous mode lists this many of the latest registrations
+const MAX_RECENT_REGISTRATIONS = 5;
 
-interface QRRecord {
-  qrcode: string;
-  name: string;
-  timestamp: string;
+type GuestStatus = 'listed' | 'walkIn' | 'unlisted' | null;
+
+// How the code in the form was captured. Only the camera knows the
+// symbology; typed codes have none.
+interface Capture {
+  symbology: Symbology | null;
+  method: CaptureMethod;
 }
 
+const EMPTY_CAPTURE: Capture = { symbology: null, method: 'camera' };
+
+// The first of `codes` that `find` turns up
+const findFirst = async <T,>(
+  codes: string[],
+  find: (code: string) => Promise<T | null>
+): Promise<T | null> => {
+  for (const code of codes) {
+    const found = await find(code);
+    if (found) return found;
+  }
+  return null;
+};
+
+const CAPTURE_NOTES: Record<CaptureMethod, string> = {
+  camera: '',
+  manual: '⌨️ Typed in',
+  wedge: '⌨️ Read by a handheld scanner',
+  image: '🖼️ Read from an image',
+};
+
 export default function ScannerScreen() {
+  const router = useRouter();
+  const { activeEvent } = useEvents();
+  const { settings } = useSettings();
   const [facing, setFacing] = useState<CameraType>('back');
   const [permission, requestPermission] = useCameraPermissions();
   const [qrValue, setQrValue] = useState('');
+  // What the scanned code held, kept with the record when it was more than
+  // the id in qrValue
+  const [payload, setPayload] = useState<ParsedPayload | null>(null);
+  const [capture, setCapture] = useState<Capture>(EMPTY_CAPTURE);
+  // Typing a code in by hand, when the camera can't read it
+  const [manualEntry, setManualEntry] = useState(false);
+  const [manualCode, setManualCode] = useState('');
+  const [manualError, setManualError] = useState<string | null>(null);
+  // Codes read from an image after the one in the form, taken in turn
+  const [imageScans, setImageScans] = useState<ImageScan[]>([]);
+  const [readingImage, setReadingImage] = useState(false);
   const [personName, setPersonName] = useState('');
+  const [fieldInputs, setFieldInputs] = useState<FieldInputs>({});
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [showWarning, setShowWarning] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
+  const [attendanceNotice, setAttendanceNotice] = useState<{
+    name: string;
+    onSite: boolean;
+  } | null>(null);
+  // Whether the scanned code is on the event's guest list, if it has one, or
+  // is a badge issued to a walk-in
+  const [guestStatus, setGuestStatus] = useState<GuestStatus>(null);
+  // Why the last scanned ticket was turned away, while it is shown
+  const [rejection, setRejection] = useState<string | null>(null);
+  const lastAttendanceScan = useRef<{ code: string; at: number } | null>(null);
+  const lastRejectedScan = useRef<{ data: string; at: number } | null>(null);
+  const lastDuplicateScan = useRef<{ code: string; at: number } | null>(null);
+  // The code in the form. The camera reports a code on every frame it's in
+  // view, and only a new one fills in the name and form answers, so the
+  // operator's changes aren't overwritten.
+  const formCode = useRef<string | null>(null);
+  // Continuous mode: when each code was last scanned, and what this session
+  // has registered so far
+  const recentScans = useRef(new Map<string, number>());
+  const [sessionCount, setSessionCount] = useState(0);
+  const [recentRegistrations, setRecentRegistrations] = useState<QRRecord[]>(
+    []
+  );
+
+  const clearForm = () => {
+    formCode.current = null;
+    setQrValue('');
+    setPayload(null);
+    setCapture(EMPTY_CAPTURE);
+    setPersonName('');
+    setFieldInputs({});
+    setFieldErrors({});
+    setGuestStatus(null);
+  };
 
   // Reset form when screen comes into focus
   useFocusEffect(
     React.useCallback(() => {
-      setQrValue('');
-      setPersonName('');
+      clearForm();
+      closeManualEntry();
+      setImageScans([]);
       setShowWarning(false);
       setIsSuccess(false);
     }, [])
   );
 
-  const handleQRCodeScanned = async ({ data }: { data: string }) => {
+  const wedge = useKeyboardWedge(settings.keyboardWedge, code => {
+    processCode(code, { symbology: null, method: 'wedge' });
+  });
+  const imageDrop = useImageDrop(uris => readImages(uris));
+
+  /**
+   * Continuous mode: whether the code was scanned within the cooldown. The
+   * camera reports a code on every frame it's in view.
+   */
+  const isCoolingDown = (data: string) => {
+    const now = Date.now();
+    const cooldown = settings.scanCooldownSeconds * 1000;
+    recentScans.current.forEach((at, scanned) => {
+      if (now - at >= cooldown) recentScans.current.delete(scanned);
+    });
+    if (recentScans.current.has(data)) return true;
+    recentScans.current.set(data, now);
+    return false;
+  };
+
+  const handleQRCodeScanned = ({
+    data,
+    type,
+  }: {
+    data: string;
+    type: string;
+  }) => {
     if (isProcessing || !data || data.trim() === '') return;
-    
+
+    const lastRejection = lastRejectedScan.current;
+    if (
+      lastRejection?.data === data &&
+      Date.now() - lastRejection.at < REJECTION_COOLDOWN_MS
+    ) {
+      return;
+    }
+    if (settings.continuousScan && isCoolingDown(data)) return;
+
+    processCode(data, {
+      symbology: normalizeSymbology(type) ?? 'qr',
+      method: 'camera',
+    });
+  };
+
+  /**
+   * Checks a code from the camera, a handheld scanner or typed in, then
+   * registers it in continuous mode or fills in the form. Resolves to false
+   * if it was turned away before reaching the form.
+   */
+  const processCode = async (data: string, scan: Capture) => {
+    if (isProcessing) return false;
     setIsProcessing(true);
-    setQrValue(data.trim());
     
     // Check for duplicates
     try {
-      const existingRecords = await getRecords();
-      const isDuplicate = existingRecords.some(record => record.qrcode === data.trim());
-      
-      if (isDuplicate) {
-        setShowWarning(true);
-        Vibration.vibrate([100, 50, 100]);
-        setTimeout(() => setShowWarning(false), 4000);
-      } else {
-        Vibration.vibrate(100);
+      // Codes only count as duplicates within the active event
+      const event = await getActiveEvent();
+      const parsed = await readPayload(event.id, data);
+      if (!parsed) return false;
+      // New typed codes are registered like a QR code
+      const parsedCode = recordCode(
+        parsed.id,
+        scan.symbology ?? 'qr',
+        settings.symbologyDuplicates
+      );
+      // The barcode type of a typed code isn't known, so it matches the value
+      // already registered from any barcode. Records and guest lists from
+      // before codes were parsed are keyed by the code exactly as scanned.
+      const typedCodes = scan.symbology
+        ? []
+        : SYMBOLOGIES.map(option =>
+            recordCode(parsed.id, option.id, settings.symbologyDuplicates)
+          );
+      const candidates = [parsedCode, ...typedCodes, parsed.raw].filter(
+        (candidate, index, all) => all.indexOf(candidate) === index
+      );
+      const existing = await findFirst(candidates, candidate =>
+        getRecord(event.id, candidate)
+      );
+      const code = existing?.qrcode ?? parsedCode;
+
+      const lastScan = lastAttendanceScan.current;
+      if (
+        settings.attendanceMode &&
+        lastScan?.code === code &&
+        Date.now() - lastScan.at < ATTENDANCE_COOLDOWN_MS
+      ) {
+        return false;
+      }
+
+      const isNewCode = code !== formCode.current;
+      formCode.current = code;
+      if (isNewCode) setGuestStatus(null);
+      setRejection(null);
+      setQrValue(code);
+      setPayload(parsed);
+      setCapture(scan);
+
+      if (existing && settings.attendanceMode) {
+        await handleAttendanceScan(event.id, code);
+      } else if (existing) {
+        showDuplicateWarning();
+        const lastDuplicate = lastDuplicateScan.current;
+        if (
+          lastDuplicate?.code !== code ||
+          Date.now() - lastDuplicate.at >= DUPLICATE_COOLDOWN_MS
+        ) {
+          lastDuplicateScan.current = { code, at: Date.now() };
+          // Not awaited: webhooks must never hold up scanning
+          queueDuplicateWebhook(existing);
+        }
+      } else if (isNewCode) {
+        const prefilled = prefillFieldInputs(event.fields ?? [], parsed);
+        setFieldInputs(current => ({ ...current, ...prefilled }));
+        // Guest lists and badges hold the value, whatever it was printed as
+        const guest = await lookUpGuest(
+          event.id,
+          [parsed.id, parsed.raw],
+          parsed.name
+        );
+        // Codes missing from the guest list wait for someone to decide
+        if (settings.continuousScan && guest.status !== 'unlisted') {
+          await registerScanned(event, code, scan, parsed, {
+            name: guest.name,
+            inputs: { ...fieldInputs, ...prefilled },
+          });
+        }
       }
+      return true;
     } catch (error) {
       console.error('Error checking duplicates:', error);
+      return false;
+    } finally {
+      setIsProcessing(false);
     }
-    
-    setIsProcessing(false);
   };
 
-  const getRecords = async (): Promise<QRRecord[]> => {
+  const processImageScan = ({ data, symbology }: ImageScan) =>
+    processCode(data, { symbology, method: 'image' });
+
+  /**
+   * Reads every code in the images. Continuous mode registers them all;
+   * otherwise they fill in the form one at a time.
+   */
+  const readImages = async (uris: string[]) => {
+    if (uris.length === 0) {
+      Alert.alert('Not an Image', 'Choose a PNG or JPEG of the ticket.');
+      return;
+    }
+    setReadingImage(true);
+    let scans: ImageScan[] = [];
     try {
-      const records = await AsyncStorage.getItem(RECORDS_KEY);
-      return records ? JSON.parse(records) : [];
+      for (const uri of uris) {
+        scans.push(...(await scanImage(uri, settings.barcodeTypes)));
+      }
     } catch (error) {
-      console.error('Error getting records:', error);
-      return [];
+      console.error('Error reading image:', error);
+      Alert.alert('Error', 'Unable to read codes from this image.');
+      return;
+    } finally {
+      setReadingImage(false);
+    }
+
+    // The same ticket forwarded twice only needs reading once
+    scans = scans.filter(
+      (scan, index) =>
+        scans.findIndex(({ data }) => data === scan.data) === index
+    );
+    if (scans.length === 0) {
+      Alert.alert(
+        'No Codes Found',
+        'No QR code or barcode could be read. Try a sharper or larger image.'
+      );
+      return;
+    }
+    if (settings.continuousScan) {
+      for (const scan of scans) await processImageScan(scan);
+      return;
+    }
+    const [first, ...rest] = scans;
+    setImageScans(rest);
+    clearForm();
+    await processImageScan(first);
+  };
+
+  const importImage = async () => {
+    try {
+      const uris = await pickImages();
+      if (uris) await readImages(uris);
+    } catch (error) {
+      console.error('Error picking image:', error);
+      Alert.alert('Error', 'Unable to open the image. Please try again.');
+    }
+  };
+
+  // Moves on to the image's next code, leaving the current one unregistered
+  const nextImageScan = async () => {
+    const [next, ...rest] = imageScans;
+    if (!next) return;
+    setImageScans(rest);
+    clearForm();
+    await processImageScan(next);
+  };
+
+  const closeManualEntry = () => {
+    setManualEntry(false);
+    setManualCode('');
+    setManualError(null);
+  };
+
+  const submitManualCode = async () => {
+    let code: string;
+    try {
+      code = checkManualCode(manualCode);
+    } catch (error) {
+      if (!(error instanceof ManualCodeError)) throw error;
+      setManualError(error.message);
+      Vibration.vibrate([100, 50, 100]);
+      return;
+    }
+    // A rejected ticket stays in the field to correct
+    if (await processCode(code, { symbology: null, method: 'manual' })) {
+      closeManualEntry();
     }
   };
 
+  /**
+   * Reads a scanned code, checking its signature when tickets are verified.
+   * Resolves to null, after logging it, when the ticket is rejected.
+   */
+  const readPayload = async (eventId: string, data: string) => {
+    if (!settings.ticketVerification) {
+      return parsePayload(data, settings.payloadPatterns);
+    }
+    try {
+      return verifyTicket(data, settings.ticketKeys, eventId);
+    } catch (error) {
+      if (!(error instanceof TicketRejectedError)) throw error;
+      lastRejectedScan.current = { data, at: Date.now() };
+      formCode.current = null;
+      setQrValue('');
+      setPayload(null);
+      setPersonName('');
+      setRejection(error.message);
+      Vibration.vibrate([0, 400, 100, 400]);
+      setTimeout(() => setRejection(null), REJECTION_COOLDOWN_MS);
+      await logRejectedScan(eventId, data, error);
+      return null;
+    }
+  };
+
+  // The guest list's name wins over one read from the code. Tries each of
+  // `codes` in turn. Resolves to the name filled in, if any, and the code's
+  // guest list status.
+  const lookUpGuest = async (
+    eventId: string,
+    codes: string[],
+    scannedName: string | null
+  ): Promise<{ name: string | null; status: GuestStatus }> => {
+    const guest = await findFirst(codes, code => getGuest(eventId, code));
+    const badge = guest
+      ? null
+      : await findFirst(codes, code => getBadge(eventId, code));
+    let status: GuestStatus = null;
+    const name = guest?.name ?? badge?.name ?? scannedName;
+    if (guest) {
+      status = 'listed';
+      Vibration.vibrate(100);
+    } else if (badge) {
+      status = 'walkIn';
+      Vibration.vibrate(100);
+    } else if ((await countGuests(eventId)) > 0) {
+      status = 'unlisted';
+      Vibration.vibrate([100, 50, 100, 50, 100]);
+    } else {
+      Vibration.vibrate(100);
+    }
+    if (name || status === 'unlisted') setPersonName(name ?? '');
+    setGuestStatus(status);
+    return { name, status };
+  };
+
+  // Store the true UTC instant; the display zone is applied when shown
+  const buildRecord = (
+    eventId: string,
+    code: string,
+    { symbology, method }: Capture,
+    name: string,
+    values: FieldValues,
+    scanned: ParsedPayload | null
+  ): QRRecord => ({
+    eventId,
+    qrcode: code,
+    name,
+    timestamp: new Date().toISOString(),
+    timezone: getDeviceTimeZone(),
+    capturedBy: method,
+    ...(symbology ? { barcodeType: symbology } : {}),
+    ...(Object.keys(values).length > 0 ? { fields: values } : {}),
+    ...(scanned && scanned.raw.trim() !== scanned.id
+      ? { payload: scanned.raw }
+      : {}),
+  });
+
+  // The repository rejects duplicates atomically, so a code registered
+  // since the scan can't slip through
   const saveRecord = async (record: QRRecord) => {
+    if (settings.attendanceMode) {
+      // Registering counts as the person's first check-in
+      await registerWithCheckIn(record);
+      lastAttendanceScan.current = { code: record.qrcode, at: Date.now() };
+    } else {
+      await addRecord(record);
+    }
+  };
+
+  /**
+   * Continuous mode: registers a new code as soon as it is scanned. Codes
+   * whose form answers are missing or invalid stay in the form to finish by
+   * hand.
+   */
+  const registerScanned = async (
+    event: QREvent,
+    code: string,
+    scan: Capture,
+    scanned: ParsedPayload,
+    { name, inputs }: { name: string | null; inputs: FieldInputs }
+  ) => {
+    const { values, errors } = parseFieldInputs(event.fields ?? [], inputs);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      Vibration.vibrate([100, 50, 100]);
+      return;
+    }
+
+    const record = buildRecord(
+      event.id,
+      code,
+      scan,
+      name?.trim() || 'Unnamed',
+      values,
+      scanned
+    );
     try {
-      const existingRecords = await getRecords();
-      const updatedRecords = [...existingRecords, record];
-      await AsyncStorage.setItem(RECORDS_KEY, JSON.stringify(updatedRecords));
+      await saveRecord(record);
     } catch (error) {
-      console.error('Error saving record:', error);
-      throw error;
+      if (error instanceof DuplicateRecordError) {
+        showDuplicateWarning();
+      } else {
+        console.error('Registration error:', error);
+      }
+      return;
     }
+
+    clearForm();
+    setSessionCount(count => count + 1);
+    setRecentRegistrations(current =>
+      [record, ...current].slice(0, MAX_RECENT_REGISTRATIONS)
+    );
+    Vibration.vibrate(200);
+  };
+
+  const resetSession = () => {
+    setSessionCount(0);
+    setRecentRegistrations([]);
+  };
+
+  const handleAttendanceScan = async (eventId: string, code: string) => {
+    lastAttendanceScan.current = { code, at: Date.now() };
+    const updated = await toggleAttendance(eventId, code);
+
+    formCode.current = null;
+    setQrValue('');
+    setPayload(null);
+    setPersonName('');
+    setAttendanceNotice({ name: updated.name, onSite: !!updated.onSite });
+    Vibration.vibrate(updated.onSite ? 200 : [100, 100]);
+    setTimeout(() => setAttendanceNotice(null), 3000);
+  };
+
+  const showDuplicateWarning = () => {
+    setShowWarning(true);
+    Vibration.vibrate([100, 50, 100]);
+    setTimeout(() => setShowWarning(false), 4000);
   };
 
   const handleRegister = async () => {
@@ -102,31 +567,21 @@ export default function ScannerScreen() {
 
     try {
       setIsProcessing(true);
-      
-      // Check for duplicates again
-      const existingRecords = await getRecords();
-      const isDuplicate = existingRecords.some(record => record.qrcode === qrValue);
-      
-      if (isDuplicate) {
-        setShowWarning(true);
+      const event = await getActiveEvent();
+
+      const { values, errors } = parseFieldInputs(
+        event.fields ?? [],
+        fieldInputs
+      );
+      setFieldErrors(errors);
+      if (Object.keys(errors).length > 0) {
         Vibration.vibrate([100, 50, 100]);
-        setTimeout(() => setShowWarning(false), 4000);
-        setIsProcessing(false);
         return;
       }
 
-      // Create EAT timestamp
-      const now = new Date();
-      const utcTime = now.getTime() + (now.getTimezoneOffset() * 60000);
-      const eatTime = new Date(utcTime + 10800000); // Add 3 hours for EAT
-
-      const newRecord: QRRecord = {
-        qrcode: qrValue,
-        name: finalName,
-        timestamp: eatTime.toISOString(),
-      };
-
-      await saveRecord(newRecord);
+      await saveRecord(
+        buildRecord(event.id, qrValue, capture, finalName, values, payload)
+      );
 
       // Success feedback
       setIsSuccess(true);
@@ -134,12 +589,16 @@ export default function ScannerScreen() {
       
       // Clear form after success
       setTimeout(() => {
-        setQrValue('');
-        setPersonName('');
+        clearForm();
         setIsSuccess(false);
+        nextImageScan();
       }, 2000);
 
     } catch (error) {
+      if (error instanceof DuplicateRecordError) {
+        showDuplicateWarning();
+        return;
+      }
       console.error('Registration error:', error);
       Alert.alert('Error', 'Failed to register QR code. Please try again.');
     } finally {
@@ -180,6 +639,9 @@ export default function ScannerScreen() {
     );
   }
 
+  // The scanner frame turns red while a rejected ticket is shown
+  const cornerStyle = [styles.corner, rejection !== null && styles.cornerRejected];
+
   return (
     <SafeAreaView style={styles.container}>
       <StatusBar barStyle="light-content" />
@@ -196,6 +658,16 @@ export default function ScannerScreen() {
             <View style={styles.header}>
               <Text style={styles.headerTitle}>📱 QR Registration</Text>
               <Text style={styles.headerSubtitle}>Scan • Register • Manage</Text>
+              <TouchableOpacity
+                style={styles.eventChip}
+                onPress={() => router.push('/events')}
+              >
+                <Text style={styles.eventChipLabel}>EVENT</Text>
+                <Text style={styles.eventChipName} numberOfLines={1}>
+                  {activeEvent?.name ?? 'Loading…'}
+                </Text>
+                <Text style={styles.eventChipLabel}>▾</Text>
+              </TouchableOpacity>
             </View>
 
             {/* Scanner Section */}
@@ -204,7 +676,15 @@ export default function ScannerScreen() {
                 <Text style={styles.sectionTitle}>📸 QR Scanner</Text>
                 <View style={styles.statusIndicator}>
                   <View style={styles.statusDot} />
-                  <Text style={styles.statusText}>Ready to scan</Text>
+                  <Text style={styles.statusText}>
+                    {settings.attendanceMode
+                      ? 'Attendance mode · scan to check in/out'
+                      : settings.continuousScan
+                        ? '⚡ Continuous · scans register at once'
+                        : 'Ready to scan'}
+                    {settings.ticketVerification && ' · 🔏 verifying tickets'}
+                    {settings.keyboardWedge && ' · ⌨️ handheld scanner'}
+                  </Text>
                 </View>
               </View>
 
@@ -214,15 +694,15 @@ export default function ScannerScreen() {
                   facing={facing}
                   onBarcodeScanned={handleQRCodeScanned}
                   barcodeScannerSettings={{
-                    barcodeTypes: ['qr'],
+                    barcodeTypes: settings.barcodeTypes,
                   }}
                 >
                   <View style={styles.scannerOverlay}>
                     <View style={styles.scannerBox}>
-                      <View style={[styles.corner, styles.topLeft]} />
-                      <View style={[styles.corner, styles.topRight]} />
-                      <View style={[styles.corner, styles.bottomLeft]} />
-                      <View style={[styles.corner, styles.bottomRight]} />
+                      <View style={[cornerStyle, styles.topLeft]} />
+                      <View style={[cornerStyle, styles.topRight]} />
+                      <View style={[cornerStyle, styles.bottomLeft]} />
+                      <View style={[cornerStyle, styles.bottomRight]} />
                     </View>
                     
                     <TouchableOpacity
@@ -233,19 +713,146 @@ export default function ScannerScreen() {
                     </TouchableOpacity>
                   </View>
                 </CameraView>
+                {imageDrop.dragging && (
+                  <View style={styles.dropOverlay}>
+                    <Text style={styles.dropText}>
+                      🖼️ Drop to scan the image
+                    </Text>
+                  </View>
+                )}
               </View>
+
+              <TouchableOpacity
+                style={styles.imageButton}
+                onPress={importImage}
+                disabled={readingImage}
+              >
+                {readingImage ? (
+                  <ActivityIndicator color="#667eea" size="small" />
+                ) : (
+                  <Text style={styles.imageButtonText}>
+                    {Platform.OS === 'web'
+                      ? '🖼️ Upload or drop a ticket image'
+                      : '🖼️ Scan from an image'}
+                  </Text>
+                )}
+              </TouchableOpacity>
+
+              {/* Elsewhere than the web, a handheld scanner's keys only
+                  reach a focused text field */}
+              {settings.keyboardWedge && Platform.OS !== 'web' && (
+                <TextInput
+                  style={[styles.input, styles.wedgeInput]}
+                  {...wedge.inputProps}
+                  placeholder="⌨️ Tap here, then scan with a handheld scanner"
+                  placeholderTextColor="#999"
+                  showSoftInputOnFocus={false}
+                  submitBehavior="submit"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  autoFocus
+                />
+              )}
+
+              {settings.continuousScan && (
+                <View style={styles.sessionPanel}>
+                  <View style={styles.sessionHeader}>
+                    <Text style={styles.sessionCount}>
+                      ⚡ {sessionCount} registered this session
+                    </Text>
+                    {sessionCount > 0 && (
+                      <TouchableOpacity onPress={resetSession}>
+                        <Text style={styles.sessionReset}>Reset</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                  {recentRegistrations.map(record => (
+                    <Text
+                      key={record.qrcode}
+                      style={styles.sessionEntry}
+                      numberOfLines={1}
+                    >
+                      ✅ {record.name} · {record.qrcode}
+                    </Text>
+                  ))}
+                </View>
+              )}
             </View>
 
             {/* Registration Form */}
             <View style={styles.sectionCard}>
               <View style={styles.inputGroup}>
-                <Text style={styles.inputLabel}>🔗 QR Code Value</Text>
-                <TextInput
-                  style={[styles.input, styles.readOnlyInput]}
-                  value={qrValue}
-                  placeholder="Scan a QR code above"
-                  editable={false}
-                />
+                <View style={styles.inputLabelRow}>
+                  <Text style={styles.inputLabel}>🔗 QR Code Value</Text>
+                  <TouchableOpacity
+                    onPress={() =>
+                      manualEntry ? closeManualEntry() : setManualEntry(true)
+                    }
+                  >
+                    <Text style={styles.inputLabelAction}>
+                      {manualEntry ? 'Cancel' : '⌨️ Type a code'}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+                {manualEntry ? (
+                  <TextInput
+                    style={[styles.input, !!manualError && styles.inputInvalid]}
+                    value={manualCode}
+                    onChangeText={text => {
+                      setManualCode(text);
+                      setManualError(null);
+                    }}
+                    onSubmitEditing={submitManualCode}
+                    placeholder="Code printed under the barcode"
+                    placeholderTextColor="#999"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    autoFocus
+                    returnKeyType="search"
+                  />
+                ) : (
+                  <TextInput
+                    style={[styles.input, styles.readOnlyInput]}
+                    value={qrValue}
+                    placeholder="Scan a QR code above"
+                    editable={false}
+                  />
+                )}
+                {manualEntry && (
+                  <Text
+                    style={manualError ? styles.errorText : styles.payloadFormat}
+                  >
+                    {manualError ??
+                      'Press Enter to check the code, as if it had been scanned'}
+                  </Text>
+                )}
+                {!manualEntry && capture.method !== 'camera' && qrValue !== '' && (
+                  <Text style={styles.payloadFormat}>
+                    {CAPTURE_NOTES[capture.method]}
+                  </Text>
+                )}
+                {imageScans.length > 0 && (
+                  <View style={styles.inputLabelRow}>
+                    <Text style={styles.payloadFormat}>
+                      🖼️ {imageScans.length} more{' '}
+                      {imageScans.length === 1 ? 'code' : 'codes'} in the image
+                    </Text>
+                    <TouchableOpacity onPress={nextImageScan}>
+                      <Text style={styles.imageSkipText}>Skip ›</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+                {capture.symbology && capture.symbology !== 'qr' && (
+                  <Text style={styles.payloadFormat}>
+                    ▦ Read from a {SYMBOLOGY_LABELS[capture.symbology]} barcode
+                  </Text>
+                )}
+                {payload && payload.format !== 'plain' && (
+                  <Text style={styles.payloadFormat}>
+                    🧩 Read from {PAYLOAD_FORMAT_LABELS[payload.format]}
+                    {payload.patternName && ` "${payload.patternName}"`}
+                  </Text>
+                )}
               </View>
 
               <View style={styles.inputGroup}>
@@ -259,6 +866,58 @@ export default function ScannerScreen() {
                 />
               </View>
 
+              <FormFieldInputs
+                fields={activeEvent?.fields ?? []}
+                inputs={fieldInputs}
+                errors={fieldErrors}
+                onChange={(fieldId, value) =>
+                  setFieldInputs(current => ({ ...current, [fieldId]: value }))
+                }
+              />
+
+              {rejection && (
+                <View style={styles.rejection}>
+                  <Text style={styles.rejectionTitle}>⛔ Ticket Rejected</Text>
+                  <Text style={styles.warningText}>{rejection}</Text>
+                </View>
+              )}
+
+              {guestStatus === 'listed' && (
+                <View style={[styles.attendanceNotice, styles.guestListed]}>
+                  <Text style={styles.warningText}>📋 On the guest list</Text>
+                </View>
+              )}
+
+              {guestStatus === 'walkIn' && (
+                <View style={[styles.attendanceNotice, styles.guestListed]}>
+                  <Text style={styles.warningText}>🎫 Walk-in badge</Text>
+                </View>
+              )}
+
+              {guestStatus === 'unlisted' && (
+                <View style={[styles.attendanceNotice, styles.guestUnlisted]}>
+                  <Text style={styles.warningText}>
+                    🚫 Not on the guest list for this event
+                  </Text>
+                </View>
+              )}
+
+              {attendanceNotice && (
+                <View
+                  style={[
+                    styles.attendanceNotice,
+                    attendanceNotice.onSite
+                      ? styles.attendanceCheckIn
+                      : styles.attendanceCheckOut,
+                  ]}
+                >
+                  <Text style={styles.warningText}>
+                    {attendanceNotice.onSite ? '🟢 Checked in: ' : '👋 Checked out: '}
+                    {attendanceNotice.name}
+                  </Text>
+                </View>
+              )}
+
               {showWarning && (
                 <View style={styles.warning}>
                   <Text style={styles.warningText}>⚠️ This QR code is already registered!</Text>
@@ -319,6 +978,29 @@ const styles = StyleSheet.create({
     color: 'rgba(255, 255, 255, 0.8)',
     fontWeight: '500',
   },
+  eventChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+    maxWidth: '90%',
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  eventChipLabel: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: 'rgba(255, 255, 255, 0.8)',
+    letterSpacing: 0.5,
+  },
+  eventChipName: {
+    flexShrink: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
   sectionCard: {
     backgroundColor: 'white',
     marginHorizontal: 16,
@@ -383,6 +1065,9 @@ const styles = StyleSheet.create({
     borderColor: '#4CAF50',
     borderWidth: 3,
   },
+  cornerRejected: {
+    borderColor: '#dc3545',
+  },
   topLeft: {
     top: 0,
     left: 0,
@@ -420,6 +1105,68 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '600',
   },
+  dropOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(102, 126, 234, 0.85)',
+  },
+  dropText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+  },
+  imageButton: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#667eea',
+    alignItems: 'center',
+  },
+  imageButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#667eea',
+  },
+  imageSkipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#667eea',
+    marginTop: 6,
+  },
+  wedgeInput: {
+    marginTop: 12,
+    padding: 12,
+    fontSize: 14,
+  },
+  sessionPanel: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#f8f9fa',
+  },
+  sessionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  sessionCount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  sessionReset: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#667eea',
+  },
+  sessionEntry: {
+    fontSize: 12,
+    color: '#555',
+    lineHeight: 18,
+  },
   inputGroup: {
     marginBottom: 16,
   },
@@ -429,6 +1176,30 @@ const styles = StyleSheet.create({
     color: '#333',
     marginBottom: 8,
   },
+  payloadFormat: {
+    fontSize: 12,
+    color: '#667eea',
+    marginTop: 6,
+  },
+  inputLabelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  inputLabelAction: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#667eea',
+    marginBottom: 8,
+  },
+  inputInvalid: {
+    borderColor: '#dc3545',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#dc3545',
+    marginTop: 6,
+  },
   input: {
     borderWidth: 1,
     borderColor: '#e1e5e9',
@@ -447,6 +1218,36 @@ const styles = StyleSheet.create({
     borderRadius: 10,
     marginBottom: 16,
   },
+  rejection: {
+    backgroundColor: '#dc3545',
+    padding: 16,
+    borderRadius: 10,
+    marginBottom: 16,
+  },
+  rejectionTitle: {
+    color: 'white',
+    textAlign: 'center',
+    fontSize: 18,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  attendanceNotice: {
+    padding: 12,
+    borderRadius: 10,
+    marginBottom: 16,
+  },
+  guestListed: {
+    backgroundColor: '#4CAF50',
+  },
+  guestUnlisted: {
+    backgroundColor: '#dc3545',
+  },
+  attendanceCheckIn: {
+    backgroundColor: '#4CAF50',
+  },
+  attendanceCheckOut: {
+    backgroundColor: '#2196F3',
+  },
   warningText: {
     color: 'white',
     textAlign: 'center',
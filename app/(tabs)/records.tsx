@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -10,108 +10,400 @@ import {
   Modal,
   StatusBar,
   Vibration,
-  Share,
   ActivityIndicator,
+  ScrollView,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { useFocusEffect } from '@react-navigation/native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import * as FileSystem from 'expo-file-system';
-import * as Sharing from 'expo-sharing';
+import {
+  DEFAULT_RECORD_QUERY,
+  QRRecord,
+  RecordQuery,
+  RecordSort,
+  collectTags,
+  deleteRecord as removeRecord,
+  deleteRecords,
+  isFilteredQuery,
+  matchesSearch,
+  normalizeTag,
+  queryRecords,
+  restoreRecords,
+  saveRecords,
+  startOfToday,
+  updateRecord,
+  updateRecords,
+  withTag,
+  withoutTag,
+} from '@/lib/records';
+import { useRouter } from 'expo-router';
+import { useDevices } from '@/hooks/useDevices';
+import { useEvents } from '@/hooks/useEvents';
+import { useGuests } from '@/hooks/useGuests';
+import { useRecords } from '@/hooks/useRecords';
+import { useSettings } from '@/hooks/useSettings';
+import FormFieldInputs from '@/components/FormFieldInputs';
+import { useRecordSyncStatus } from '@/hooks/useSync';
+import {
+  AttendanceEntry,
+  buildVisits,
+  listAttendance,
+  listEventAttendance,
+} from '@/lib/attendance';
+import { listAuditEntries } from '@/lib/audit';
+import { CAPTURE_METHOD_LABELS, SYMBOLOGY_LABELS } from '@/lib/barcodes';
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  auditToCSV,
+  exportFilename,
+  recordsToCSV,
+  recordsToJSON,
+  recordsToReportHTML,
+  recordsToXLSX,
+  shareBase64File,
+  sharePDF,
+  shareTextFile,
+  visitsToCSV,
+} from '@/lib/export';
+import { pickFile } from '@/lib/files';
+import {
+  FieldInputs,
+  formatFieldValue,
+  parseFieldInputs,
+  toFieldInputs,
+} from '@/lib/forms';
+import { Guest } from '@/lib/guests';
+import {
+  ConflictPolicy,
+  ImportFormatError,
+  ParsedImport,
+  parseRecordsCSV,
+  planImport,
+} from '@/lib/import';
+import { RecordSyncStatus } from '@/lib/sync';
+import {
+  formatDisplayTime,
+  getTimeZoneLabel,
+  parseExportTime,
+} from '@/lib/time';
 
-const RECORDS_KEY = '@qr_records';
+const CONFLICT_POLICIES: { id: ConflictPolicy; label: string }[] = [
+  { id: 'keep-existing', label: 'Keep existing' },
+  { id: 'overwrite', label: 'Overwrite' },
+  { id: 'keep-earliest', label: 'Keep earliest' },
+];
 
-interface QRRecord {
-  qrcode: string;
-  name: string;
-  timestamp: string;
-}
+const MAX_LISTED_REJECTIONS = 5;
+
+// How long the Undo snackbar stays up after a delete or edit
+const UNDO_TIMEOUT_MS = 5000;
+
+const SORT_OPTIONS: { id: RecordSort; label: string }[] = [
+  { id: 'newest', label: 'Newest' },
+  { id: 'oldest', label: 'Oldest' },
+  { id: 'name', label: 'Name' },
+  { id: 'code', label: 'Code' },
+];
+
+type RangePreset = 'any' | 'hour' | 'today' | 'custom';
+
+const RANGE_PRESETS: { id: RangePreset; label: string }[] = [
+  { id: 'any', label: 'Any time' },
+  { id: 'hour', label: 'Last hour' },
+  { id: 'today', label: 'Today' },
+  { id: 'custom', label: 'Custom' },
+];
+
+const SYNC_BADGES: Record<RecordSyncStatus, string> = {
+  synced: '☁️ Synced',
+  pending: '⏳ Waiting to sync',
+  failed: '⚠️ Sync failed, retrying',
+};
 
 export default function RecordsScreen() {
-  const [records, setRecords] = useState<QRRecord[]>([]);
-  const [loading, setLoading] = useState(true);
+  const router = useRouter();
+  const { activeEvent } = useEvents();
+  const {
+    records: storedRecords,
+    loading,
+    error,
+  } = useRecords(activeEvent?.id ?? null);
+  const { settings } = useSettings();
+  const { guests } = useGuests(activeEvent?.id ?? null);
+  const syncStatuses = useRecordSyncStatus(activeEvent?.id ?? null);
+  const { nameOf } = useDevices();
+  const [listMode, setListMode] = useState<'registered' | 'missing'>(
+    'registered'
+  );
   const [editModalVisible, setEditModalVisible] = useState(false);
   const [editingRecord, setEditingRecord] = useState<QRRecord | null>(null);
   const [editName, setEditName] = useState('');
+  const [editFieldInputs, setEditFieldInputs] = useState<FieldInputs>({});
+  const [editFieldErrors, setEditFieldErrors] = useState<
+    Record<string, string>
+  >({});
   const [exporting, setExporting] = useState(false);
+  const [exportPickerVisible, setExportPickerVisible] = useState(false);
+  const [timelineRecord, setTimelineRecord] = useState<QRRecord | null>(null);
+  const [timeline, setTimeline] = useState<AttendanceEntry[]>([]);
+  const [importPreview, setImportPreview] = useState<
+    (ParsedImport & { filename: string }) | null
+  >(null);
+  const [conflictPolicy, setConflictPolicy] =
+    useState<ConflictPolicy>('keep-existing');
+  const [importing, setImporting] = useState(false);
+  const [query, setQuery] = useState<RecordQuery>(DEFAULT_RECORD_QUERY);
+  const [filtersVisible, setFiltersVisible] = useState(false);
+  const [rangePreset, setRangePreset] = useState<RangePreset>('any');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [exportScope, setExportScope] = useState<'shown' | 'all'>('shown');
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [tagModalVisible, setTagModalVisible] = useState(false);
+  const [tagName, setTagName] = useState('');
+  const [bulkBusy, setBulkBusy] = useState(false);
+  const [undoAction, setUndoAction] = useState<
+    { message: string; undo: () => Promise<unknown> } | null
+  >(null);
+  const undoTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (error) {
+      Alert.alert('Error', 'Failed to load records');
+    }
+  }, [error]);
+
+  // Sort by timestamp (newest first)
+  const records = useMemo(
+    () =>
+      [...storedRecords].sort(
+        (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+      ),
+    [storedRecords]
+  );
+
+  const visibleRecords = useMemo(
+    () => queryRecords(storedRecords, query, settings.locale),
+    [storedRecords, query, settings.locale]
+  );
+  const filtered = isFilteredQuery(query);
+  const tags = useMemo(() => collectTags(storedRecords), [storedRecords]);
+  const formFields = activeEvent?.fields ?? [];
+
+  // Every selected record, newest first, including any the search or filters
+  // now hide, so export covers the same records as delete and tag
+  const selectedRecords = useMemo(
+    () => records.filter(record => selected.has(record.qrcode)),
+    [records, selected]
+  );
+
+  const onSiteCount = useMemo(
+    () => records.filter(record => record.onSite).length,
+    [records]
+  );
+
+  // Guests on the list who haven't registered yet
+  const missingGuests = useMemo(() => {
+    const registered = new Set(records.map(record => record.qrcode));
+    return guests.filter(guest => !registered.has(guest.qrcode));
+  }, [records, guests]);
+
+  const visibleMissingGuests = useMemo(
+    () => missingGuests.filter(guest => matchesSearch(guest, query.search)),
+    [missingGuests, query.search]
+  );
+
+  useEffect(() => {
+    if (guests.length === 0) setListMode('registered');
+  }, [guests.length]);
 
-  // Load records when screen comes into focus
-  useFocusEffect(
-    useCallback(() => {
-      loadRecords();
-    }, [])
+  useEffect(() => {
+    if (query.tag && !tags.includes(query.tag)) {
+      setQuery(current => ({ ...current, tag: null }));
+    }
+  }, [tags, query.tag]);
+
+  useEffect(
+    () => () => {
+      if (undoTimer.current) clearTimeout(undoTimer.current);
+    },
+    []
   );
 
-  const loadRecords = async () => {
+  // Selections never carry over to another event
+  useEffect(() => {
+    setSelectionMode(false);
+    setSelected(new Set());
+  }, [activeEvent?.id]);
+
+  const applyCustomRange = (fromText: string, toText: string) => {
+    setCustomFrom(fromText);
+    setCustomTo(toText);
+    // Times are typed in the display zone; unreadable ones leave that end open
+    setQuery(current => ({
+      ...current,
+      from: parseExportTime(fromText, settings.displayTimeZone),
+      to: parseExportTime(toText, settings.displayTimeZone),
+    }));
+  };
+
+  const chooseRange = (preset: RangePreset) => {
+    setRangePreset(preset);
+    if (preset === 'custom') {
+      applyCustomRange(customFrom, customTo);
+      return;
+    }
+    const from =
+      preset === 'hour'
+        ? new Date(Date.now() - 60 * 60 * 1000).toISOString()
+        : preset === 'today'
+          ? startOfToday(settings.displayTimeZone)
+          : null;
+    setQuery(current => ({ ...current, from, to: null }));
+  };
+
+  const showUndo = (message: string, undo: () => Promise<unknown>) => {
+    if (undoTimer.current) clearTimeout(undoTimer.current);
+    setUndoAction({ message, undo });
+    undoTimer.current = setTimeout(() => setUndoAction(null), UNDO_TIMEOUT_MS);
+  };
+
+  const runUndo = async () => {
+    if (!undoAction) return;
+    if (undoTimer.current) clearTimeout(undoTimer.current);
+    setUndoAction(null);
     try {
-      setLoading(true);
-      const storedRecords = await AsyncStorage.getItem(RECORDS_KEY);
-      const parsedRecords = storedRecords ? JSON.parse(storedRecords) : [];
-      
-      // Sort by timestamp (newest first)
-      parsedRecords.sort((a: QRRecord, b: QRRecord) => 
-        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-      );
-      
-      setRecords(parsedRecords);
+      await undoAction.undo();
+      Vibration.vibrate(100);
     } catch (error) {
-      console.error('Error loading records:', error);
-      Alert.alert('Error', 'Failed to load records');
-    } finally {
-      setLoading(false);
+      console.error('Error undoing change:', error);
+      Alert.alert(
+        'Error',
+        'Failed to undo. Deleted records can still be restored from the trash in Settings.'
+      );
     }
   };
 
-  const formatDisplayTime = (timestamp: string) => {
-    try {
-      const date = new Date(timestamp);
-      const utcTime = date.getTime() + (date.getTimezoneOffset() * 60000);
-      const eatTime = new Date(utcTime + 10800000); // Add 3 hours for EAT
+  const startSelection = (record: QRRecord) => {
+    setSelectionMode(true);
+    setSelected(new Set([record.qrcode]));
+    Vibration.vibrate(50);
+  };
 
-      const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 
-                     'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-      
-      const month = months[eatTime.getMonth()];
-      const day = eatTime.getDate();
-      const year = eatTime.getFullYear();
-      
-      let hours = eatTime.getHours();
-      const minutes = eatTime.getMinutes().toString().padStart(2, '0');
-      const ampm = hours >= 12 ? 'PM' : 'AM';
-      
-      hours = hours % 12;
-      hours = hours ? hours : 12;
-      
-      return `${month} ${day}, ${year}, ${hours}:${minutes} ${ampm} EAT`;
-    } catch {
-      return 'Invalid date';
-    }
+  const toggleSelected = (record: QRRecord) =>
+    setSelected(current => {
+      const next = new Set(current);
+      if (!next.delete(record.qrcode)) next.add(record.qrcode);
+      return next;
+    });
+
+  const endSelection = () => {
+    setSelectionMode(false);
+    setSelected(new Set());
+  };
+
+  const confirmBulkDelete = () => {
+    if (!activeEvent || selected.size === 0) return;
+    const count = selected.size;
+    Alert.alert(
+      'Delete Records',
+      `Move ${count} selected record${count === 1 ? '' : 's'} to the trash?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setBulkBusy(true);
+              const eventId = activeEvent.id;
+              const qrcodes = [...selected];
+              const deleted = await deleteRecords(eventId, qrcodes);
+              endSelection();
+              Vibration.vibrate(100);
+              showUndo(
+                `${deleted} record${deleted === 1 ? '' : 's'} moved to the trash`,
+                () => restoreRecords(eventId, qrcodes)
+              );
+            } catch (error) {
+              console.error('Error deleting records:', error);
+              Alert.alert(
+                'Error',
+                'Failed to delete records. Nothing was deleted.'
+              );
+            } finally {
+              setBulkBusy(false);
+            }
+          },
+        },
+      ]
+    );
   };
 
-  const formatCSVTime = (timestamp: string) => {
+  const applyTag = async (action: 'add' | 'remove', tag: string) => {
+    const name = normalizeTag(tag);
+    if (!activeEvent || !name) return;
+    const eventId = activeEvent.id;
+    const qrcodes = [...selected];
+    const previousTags = new Map(
+      storedRecords.map(record => [record.qrcode, record.tags])
+    );
     try {
-      const date = new Date(timestamp);
-      const utcTime = date.getTime() + (date.getTimezoneOffset() * 60000);
-      const eatTime = new Date(utcTime + 10800000); // Add 3 hours for EAT
-      
-      const month = (eatTime.getMonth() + 1).toString().padStart(2, '0');
-      const day = eatTime.getDate().toString().padStart(2, '0');
-      const year = eatTime.getFullYear();
-      const hours = eatTime.getHours().toString().padStart(2, '0');
-      const minutes = eatTime.getMinutes().toString().padStart(2, '0');
-      const seconds = eatTime.getSeconds().toString().padStart(2, '0');
-      
-      return `${month}/${day}/${year} ${hours}:${minutes}:${seconds} EAT`;
-    } catch {
-      return 'N/A';
+      setBulkBusy(true);
+      const changed = await updateRecords(
+        eventId,
+        qrcodes,
+        previous => ({
+          tags:
+            action === 'add'
+              ? withTag(previous.tags, name)
+              : withoutTag(previous.tags, name),
+        })
+      );
+      setTagModalVisible(false);
+      setTagName('');
+      Vibration.vibrate(100);
+      showUndo(
+        `"${name}" ${action === 'add' ? 'added to' : 'removed from'} ${changed} record${changed === 1 ? '' : 's'}`,
+        () =>
+          updateRecords(eventId, qrcodes, previous => ({
+            tags: previousTags.get(previous.qrcode),
+          }))
+      );
+    } catch (error) {
+      console.error('Error tagging records:', error);
+      Alert.alert('Error', 'Failed to update tags. Nothing was changed.');
+    } finally {
+      setBulkBusy(false);
     }
   };
 
-  const deleteRecord = async (qrcode: string) => {
+  // Re-planned whenever the policy or the stored records change
+  const importPlan = useMemo(
+    () =>
+      importPreview && activeEvent
+        ? planImport(
+            importPreview,
+            storedRecords,
+            activeEvent.id,
+            settings.displayTimeZone,
+            conflictPolicy
+          )
+        : null,
+    [
+      importPreview,
+      activeEvent,
+      storedRecords,
+      settings.displayTimeZone,
+      conflictPolicy,
+    ]
+  );
+
+  const deleteRecord = async (record: QRRecord) => {
     Alert.alert(
       'Delete Record',
-      'Are you sure you want to delete this record?',
+      'Move this record to the trash?',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -119,10 +411,11 @@ export default function RecordsScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              const updatedRecords = records.filter(record => record.qrcode !== qrcode);
-              await AsyncStorage.setItem(RECORDS_KEY, JSON.stringify(updatedRecords));
-              setRecords(updatedRecords);
+              await removeRecord(record.eventId, record.qrcode);
               Vibration.vibrate(100);
+              showUndo(`${record.name} moved to the trash`, () =>
+                restoreRecords(record.eventId, [record.qrcode])
+              );
             } catch (error) {
               console.error('Error deleting record:', error);
               Alert.alert('Error', 'Failed to delete record');
@@ -136,95 +429,308 @@ export default function RecordsScreen() {
   const editRecord = (record: QRRecord) => {
     setEditingRecord(record);
     setEditName(record.name);
+    setEditFieldInputs(toFieldInputs(formFields, record.fields));
+    setEditFieldErrors({});
     setEditModalVisible(true);
   };
 
   const saveEdit = async () => {
     if (!editingRecord || !editName.trim()) return;
 
-    try {
-      const updatedRecords = records.map(record =>
-        record.qrcode === editingRecord.qrcode
-          ? { ...record, name: editName.trim() }
-          : record
-      );
+    const { eventId, qrcode, name: previousName } = editingRecord;
+    const previousFields = editingRecord.fields;
+    const name = editName.trim();
+    const { values, errors } = parseFieldInputs(formFields, editFieldInputs);
+    setEditFieldErrors(errors);
+    if (Object.keys(errors).length > 0) return;
 
-      await AsyncStorage.setItem(RECORDS_KEY, JSON.stringify(updatedRecords));
-      setRecords(updatedRecords);
+    // Answers to fields since removed from the form are kept
+    const fields = Object.fromEntries(
+      Object.entries(previousFields ?? {}).filter(
+        ([fieldId]) => !formFields.some(field => field.id === fieldId)
+      )
+    );
+    Object.assign(fields, values);
+    try {
+      await updateRecord(eventId, qrcode, {
+        name,
+        fields: Object.keys(fields).length > 0 ? fields : undefined,
+      });
       setEditModalVisible(false);
       setEditingRecord(null);
       setEditName('');
       Vibration.vibrate(100);
+      showUndo(`Saved changes to ${name}`, () =>
+        updateRecord(eventId, qrcode, {
+          name: previousName,
+          fields: previousFields,
+        })
+      );
     } catch (error) {
       console.error('Error editing record:', error);
       Alert.alert('Error', 'Failed to edit record');
     }
   };
 
-  const exportToCSV = async () => {
-    if (records.length === 0) {
-      Alert.alert('No Data', 'No records to export!');
+  const exportRegistrations = async (format: ExportFormat) => {
+    if (!activeEvent) return;
+    const { extension, mimeType } = EXPORT_FORMATS.find(
+      option => option.id === format
+    )!;
+    const filename = exportFilename('qr-registration', activeEvent.name, extension);
+    const title = `Export ${activeEvent.name} Data`;
+    // The filtered view keeps its sort order in the export
+    const exported = selectionMode
+      ? selectedRecords
+      : filtered && exportScope === 'shown'
+        ? visibleRecords
+        : records;
+    const csv = recordsToCSV(exported, settings.displayTimeZone, formFields);
+
+    switch (format) {
+      case 'csv':
+        await shareTextFile({ filename, content: csv, mimeType, title });
+        break;
+      case 'json':
+        await shareTextFile({
+          filename,
+          content: recordsToJSON(activeEvent, exported),
+          mimeType,
+          title,
+        });
+        break;
+      case 'xlsx':
+        await shareBase64File({
+          filename,
+          base64: recordsToXLSX(
+            exported,
+            settings.displayTimeZone,
+            undefined,
+            formFields
+          ),
+          mimeType,
+          title,
+          fallbackMessage: csv,
+        });
+        break;
+      case 'pdf':
+        await sharePDF({
+          filename,
+          html: recordsToReportHTML({
+            eventName: activeEvent.name,
+            records: exported,
+            timeZone: settings.displayTimeZone,
+            locale: settings.locale,
+            expectedGuests: guests.length > 0 ? guests.length : null,
+            attendanceMode: settings.attendanceMode,
+          }),
+          title,
+          fallbackMessage: csv,
+        });
+        break;
+    }
+  };
+
+  const exportAttendance = async () => {
+    if (!activeEvent) return;
+    const visits = buildVisits(await listEventAttendance(activeEvent.id));
+    if (visits.length === 0) {
+      Alert.alert('No Data', 'No check-ins to export yet!');
+      return;
+    }
+    await shareTextFile({
+      filename: exportFilename('qr-attendance', activeEvent.name, 'csv'),
+      content: visitsToCSV(visits, records, settings.displayTimeZone),
+      mimeType: 'text/csv',
+      title: `Export ${activeEvent.name} Attendance`,
+    });
+  };
+
+  const exportAuditLog = async () => {
+    if (!activeEvent) return;
+    const entries = await listAuditEntries(activeEvent.id);
+    if (entries.length === 0) {
+      Alert.alert('No Data', 'No changes recorded yet!');
       return;
     }
+    await shareTextFile({
+      filename: exportFilename('qr-audit', activeEvent.name, 'csv'),
+      content: auditToCSV(entries, records, settings.displayTimeZone),
+      mimeType: 'text/csv',
+      title: `Export ${activeEvent.name} Audit Log`,
+    });
+  };
 
+  const runExport = async (exporter: () => Promise<void>) => {
+    setExportPickerVisible(false);
     try {
       setExporting(true);
-      
-      // Create CSV content
-      const csvHeader = 'Name,QR Code,Registration Date (EAT)\n';
-      const csvRows = records.map(record => {
-        const date = formatCSVTime(record.timestamp);
-        const escapedName = `"${(record.name || '').replace(/"/g, '""')}"`;
-        const escapedQrcode = `"${(record.qrcode || '').replace(/"/g, '""')}"`;
-        const escapedDate = `"${date.replace(/"/g, '""')}"`;
-        return `${escapedName},${escapedQrcode},${escapedDate}`;
-      }).join('\n');
-
-      const csvContent = csvHeader + csvRows;
-      
-      // Create file
-      const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
-      const filename = `qr-registration-${timestamp}.csv`;
-      const fileUri = FileSystem.documentDirectory + filename;
-      
-      await FileSystem.writeAsStringAsync(fileUri, csvContent, {
-        encoding: FileSystem.EncodingType.UTF8,
-      });
+      await exporter();
+      Vibration.vibrate(200);
+    } catch (error) {
+      console.error('Export error:', error);
+      Alert.alert('Export Failed', 'Unable to export data. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  };
 
-      // Share the file
-      if (await Sharing.isAvailableAsync()) {
-        await Sharing.shareAsync(fileUri, {
-          mimeType: 'text/csv',
-          dialogTitle: 'Export QR Registration Data',
-        });
+  const openExportPicker = () => {
+    if (records.length === 0 || (selectionMode && selected.size === 0)) {
+      Alert.alert('No Data', 'No records to export!');
+      return;
+    }
+    setExportPickerVisible(true);
+  };
+
+  const chooseImportFile = async () => {
+    try {
+      setImporting(true);
+      const file = await pickFile();
+      if (!file) return;
+      const parsed = parseRecordsCSV(
+        await file.text(),
+        settings.displayTimeZone,
+        formFields
+      );
+      setImportPreview({ ...parsed, filename: file.name });
+    } catch (error) {
+      if (error instanceof ImportFormatError) {
+        Alert.alert('Invalid File', error.message);
       } else {
-        // Fallback to share text content
-        await Share.share({
-          message: csvContent,
-          title: 'QR Registration Data',
-        });
+        console.error('Error reading import file:', error);
+        Alert.alert('Error', 'Unable to read that file. Please try again.');
       }
+    } finally {
+      setImporting(false);
+    }
+  };
 
+  const confirmImport = async () => {
+    if (!importPlan) return;
+    try {
+      setImporting(true);
+      await saveRecords(importPlan.records);
+      setImportPreview(null);
       Vibration.vibrate(200);
-      
+      Alert.alert(
+        'Import Complete',
+        `✅ ${importPlan.added} added\n🔁 ${importPlan.updated} updated\n⏭️ ${importPlan.skipped} skipped\n⚠️ ${importPlan.rejected.length} rejected`
+      );
     } catch (error) {
-      console.error('Export error:', error);
-      Alert.alert('Export Failed', 'Unable to export data. Please try again.');
+      console.error('Error importing records:', error);
+      Alert.alert('Import Failed', 'No records were changed. Please try again.');
     } finally {
-      setExporting(false);
+      setImporting(false);
+    }
+  };
+
+  const openTimeline = async (record: QRRecord) => {
+    setTimelineRecord(record);
+    setTimeline([]);
+    try {
+      setTimeline(await listAttendance(record.eventId, record.qrcode));
+    } catch (error) {
+      console.error('Error loading attendance:', error);
+      Alert.alert('Error', 'Failed to load attendance history');
     }
   };
 
   const renderRecord = ({ item }: { item: QRRecord }) => (
-    <View style={styles.recordCard}>
-      <View style={styles.recordContent}>
-        <View style={styles.qrCodeContainer}>
-          <Text style={styles.qrCodeText}>{item.qrcode}</Text>
+    <TouchableOpacity
+      style={[
+        styles.recordCard,
+        selected.has(item.qrcode) && styles.recordCardSelected,
+      ]}
+      activeOpacity={0.6}
+      onPress={() =>
+        selectionMode
+          ? toggleSelected(item)
+          : router.push({
+              pathname: '/record',
+              params: { eventId: item.eventId, qrcode: item.qrcode },
+            })
+      }
+      onLongPress={() =>
+        selectionMode ? toggleSelected(item) : startSelection(item)
+      }
+    >
+      <View
+        style={[
+          styles.recordContent,
+          selectionMode && styles.recordContentSelecting,
+        ]}
+      >
+        <View style={styles.qrCodeRow}>
+          <View style={[styles.qrCodeContainer, styles.qrCodeFill]}>
+            <Text style={styles.qrCodeText}>{item.qrcode}</Text>
+          </View>
+          {selectionMode && (
+            <Text style={styles.selectionMark}>
+              {selected.has(item.qrcode) ? '☑️' : '⬜'}
+            </Text>
+          )}
+        </View>
+        <View style={styles.recordNameRow}>
+          <Text style={styles.recordName}>{item.name}</Text>
+          {settings.attendanceMode && (
+            <Text
+              style={[
+                styles.presenceBadge,
+                item.onSite ? styles.presenceOnSite : styles.presenceAway,
+              ]}
+            >
+              {item.onSite ? 'ON SITE' : 'AWAY'}
+            </Text>
+          )}
         </View>
-        <Text style={styles.recordName}>{item.name}</Text>
-        <Text style={styles.recordDate}>📅 {formatDisplayTime(item.timestamp)}</Text>
+        <Text style={styles.recordDate}>
+          📅 {formatDisplayTime(item.timestamp, settings.displayTimeZone, settings.locale)}
+        </Text>
+        {item.barcodeType && (
+          <Text style={styles.recordDate}>
+            ▦ {SYMBOLOGY_LABELS[item.barcodeType]}
+          </Text>
+        )}
+        {item.capturedBy && item.capturedBy !== 'camera' && (
+          <Text style={styles.recordDate}>
+            📥 {CAPTURE_METHOD_LABELS[item.capturedBy]}
+          </Text>
+        )}
+        {item.duplicateScans && item.duplicateScans.length > 0 && (
+          <Text style={styles.duplicateText}>
+            ⚠️ First scanned on {nameOf(item.deviceId ?? '')}, also on{' '}
+            {item.duplicateScans
+              .map(
+                scan =>
+                  `${nameOf(scan.deviceId)} (${formatDisplayTime(scan.timestamp, settings.displayTimeZone, settings.locale)})`
+              )
+              .join(', ')}
+          </Text>
+        )}
+        {item.tags && item.tags.length > 0 && (
+          <Text style={styles.recordTags}>🏷️ {item.tags.join(' · ')}</Text>
+        )}
+        {formFields.some(field => item.fields?.[field.id] !== undefined) && (
+          <Text style={styles.recordDate}>
+            📝{' '}
+            {formFields
+              .filter(field => item.fields?.[field.id] !== undefined)
+              .map(
+                field =>
+                  `${field.label}: ${formatFieldValue(field, item.fields?.[field.id])}`
+              )
+              .join(' · ')}
+          </Text>
+        )}
+        {settings.syncServerUrl && (
+          <Text style={styles.recordDate}>
+            {SYNC_BADGES[syncStatuses.get(item.qrcode) ?? 'synced']}
+          </Text>
+        )}
       </View>
       
+      {!selectionMode && (
       <View style={styles.recordActions}>
         <TouchableOpacity 
           style={[styles.actionButton, styles.editButton]}
@@ -232,23 +738,231 @@ export default function RecordsScreen() {
         >
           <Text style={styles.actionButtonText}>✏️ Edit</Text>
         </TouchableOpacity>
+
+        {settings.attendanceMode && (
+          <TouchableOpacity
+            style={[styles.actionButton, styles.historyButton]}
+            onPress={() => openTimeline(item)}
+          >
+            <Text style={styles.actionButtonText}>🕒 Visits</Text>
+          </TouchableOpacity>
+        )}
         
         <TouchableOpacity 
           style={[styles.actionButton, styles.deleteButton]}
-          onPress={() => deleteRecord(item.qrcode)}
+          onPress={() => deleteRecord(item)}
         >
           <Text style={styles.actionButtonText}>🗑️ Delete</Text>
         </TouchableOpacity>
       </View>
+      )}
+    </TouchableOpacity>
+  );
+
+  const renderGuest = ({ item }: { item: Guest }) => (
+    <View style={styles.recordCard}>
+      <View style={styles.qrCodeContainer}>
+        <Text style={styles.qrCodeText}>{item.qrcode}</Text>
+      </View>
+      <Text style={styles.recordName}>{item.name}</Text>
+      {Object.entries(item.extra).map(([column, value]) =>
+        value ? (
+          <Text key={column} style={styles.recordDate}>
+            {column}: {value}
+          </Text>
+        ) : null
+      )}
+    </View>
+  );
+
+  const renderEmptyState = () =>
+    records.length > 0 ? (
+      <View style={styles.emptyState}>
+        <Text style={styles.emptyStateIcon}>🔍</Text>
+        <Text style={styles.emptyStateText}>No records match your filters.</Text>
+      </View>
+    ) : (
+      <View style={styles.emptyState}>
+        <Text style={styles.emptyStateIcon}>📝</Text>
+        <Text style={styles.emptyStateText}>
+          No QR codes registered yet.{'\n'}Scan your first code in the Scanner tab!
+        </Text>
+      </View>
+    );
+
+  const renderChoices = <T extends string>(
+    options: { id: T; label: string }[],
+    selected: T,
+    onSelect: (id: T) => void
+  ) => (
+    <View style={styles.segmentedControl}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option.id}
+          style={[
+            styles.segment,
+            selected === option.id && styles.segmentActive,
+          ]}
+          onPress={() => onSelect(option.id)}
+        >
+          <Text
+            style={[
+              styles.segmentText,
+              selected === option.id && styles.segmentTextActive,
+            ]}
+          >
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
     </View>
   );
 
-  const renderEmptyState = () => (
-    <View style={styles.emptyState}>
-      <Text style={styles.emptyStateIcon}>📝</Text>
-      <Text style={styles.emptyStateText}>
-        No QR codes registered yet.{'\n'}Scan your first code in the Scanner tab!
-      </Text>
+  const renderFilters = () => (
+    <>
+      <View style={styles.searchRow}>
+        <TextInput
+          style={styles.searchInput}
+          value={query.search}
+          onChangeText={search => setQuery(current => ({ ...current, search }))}
+          placeholder="🔍 Search name or QR code"
+          autoCapitalize="none"
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+        />
+        {listMode === 'registered' && (
+          <TouchableOpacity
+            style={[
+              styles.filterToggle,
+              (rangePreset !== 'any' ||
+                query.sort !== 'newest' ||
+                query.tag !== null) &&
+                styles.filterToggleActive,
+            ]}
+            onPress={() => setFiltersVisible(visible => !visible)}
+          >
+            <Text style={styles.filterToggleText}>
+              {filtersVisible ? '▴ Filter' : '▾ Filter'}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      {filtersVisible && listMode === 'registered' && (
+        <View style={styles.filterPanel}>
+          <Text style={styles.filterLabel}>Sort by</Text>
+          {renderChoices(SORT_OPTIONS, query.sort, sort =>
+            setQuery(current => ({ ...current, sort }))
+          )}
+          {tags.length > 0 && (
+            <>
+              <Text style={styles.filterLabel}>Tag</Text>
+              {renderChoices(
+                [
+                  { id: '', label: 'Any' },
+                  ...tags.map(tag => ({ id: tag, label: tag })),
+                ],
+                query.tag ?? '',
+                tag => setQuery(current => ({ ...current, tag: tag || null }))
+              )}
+            </>
+          )}
+          <Text style={styles.filterLabel}>Registered</Text>
+          {renderChoices(RANGE_PRESETS, rangePreset, chooseRange)}
+          {rangePreset === 'custom' && (
+            <>
+              <View style={styles.rangeInputs}>
+                <TextInput
+                  style={[
+                    styles.rangeInput,
+                    customFrom.trim() !== '' &&
+                      !query.from &&
+                      styles.rangeInputInvalid,
+                  ]}
+                  value={customFrom}
+                  onChangeText={text => applyCustomRange(text, customTo)}
+                  placeholder="From"
+                  autoCorrect={false}
+                />
+                <TextInput
+                  style={[
+                    styles.rangeInput,
+                    customTo.trim() !== '' &&
+                      !query.to &&
+                      styles.rangeInputInvalid,
+                  ]}
+                  value={customTo}
+                  onChangeText={text => applyCustomRange(customFrom, text)}
+                  placeholder="To"
+                  autoCorrect={false}
+                />
+              </View>
+              <Text style={styles.recordDate}>
+                MM/DD/YYYY HH:MM, in {getTimeZoneLabel(settings.displayTimeZone)}
+              </Text>
+            </>
+          )}
+        </View>
+      )}
+    </>
+  );
+
+  const renderSelectionBar = () => (
+    <View style={styles.selectionBar}>
+      <View style={styles.selectionHeader}>
+        <Text style={styles.selectionCount}>{selected.size} selected</Text>
+        <TouchableOpacity onPress={endSelection}>
+          <Text style={styles.selectionLink}>Cancel</Text>
+        </TouchableOpacity>
+      </View>
+      <View style={styles.selectionHeader}>
+        <TouchableOpacity
+          onPress={() =>
+            setSelected(new Set(records.map(record => record.qrcode)))
+          }
+        >
+          <Text style={styles.selectionLink}>
+            Select all ({records.length})
+          </Text>
+        </TouchableOpacity>
+        {filtered && (
+          <TouchableOpacity
+            onPress={() =>
+              setSelected(new Set(visibleRecords.map(record => record.qrcode)))
+            }
+          >
+            <Text style={styles.selectionLink}>
+              Select filtered ({visibleRecords.length})
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <View style={styles.recordActions}>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.historyButton]}
+          onPress={() => setTagModalVisible(true)}
+          disabled={bulkBusy || selected.size === 0}
+        >
+          <Text style={styles.actionButtonText}>🏷️ Tag</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.editButton]}
+          onPress={openExportPicker}
+          disabled={bulkBusy || exporting || selected.size === 0}
+        >
+          <Text style={styles.actionButtonText}>📊 Export</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.deleteButton]}
+          onPress={confirmBulkDelete}
+          disabled={bulkBusy || selected.size === 0}
+        >
+          {bulkBusy ? (
+            <ActivityIndicator color="white" size="small" />
+          ) : (
+            <Text style={styles.actionButtonText}>🗑️ Delete</Text>
+          )}
+        </TouchableOpacity>
+      </View>
     </View>
   );
 
@@ -262,15 +976,39 @@ export default function RecordsScreen() {
         {/* Header */}
         <View style={styles.header}>
           <View style={styles.headerTop}>
-            <Text style={styles.headerTitle}>📋 Registered Records</Text>
+            <View style={styles.headerTitleGroup}>
+              <Text style={styles.headerTitle}>📋 Registered Records</Text>
+              <TouchableOpacity onPress={() => router.push('/events')}>
+                <Text style={styles.headerEvent} numberOfLines={1}>
+                  {activeEvent?.name ?? 'Loading…'} ▾
+                </Text>
+              </TouchableOpacity>
+            </View>
             <View style={styles.headerRight}>
               <View style={styles.recordsCount}>
-                <Text style={styles.recordsCountText}>{records.length}</Text>
+                <Text style={styles.recordsCountText}>
+                  {filtered
+                    ? `${visibleRecords.length} / ${records.length}`
+                    : records.length}
+                </Text>
               </View>
+              {settings.attendanceMode && (
+                <View style={styles.onSiteCount}>
+                  <Text style={styles.recordsCountText}>🟢 {onSiteCount} on site</Text>
+                </View>
+              )}
+              <TouchableOpacity
+                style={[styles.exportButton, styles.importButton]}
+                onPress={chooseImportFile}
+                disabled={importing}
+              >
+                <Text style={styles.exportButtonText}>📥</Text>
+                <Text style={styles.exportButtonText}>Import</Text>
+              </TouchableOpacity>
               {records.length > 0 && (
                 <TouchableOpacity
                   style={styles.exportButton}
-                  onPress={exportToCSV}
+                  onPress={openExportPicker}
                   disabled={exporting}
                 >
                   {exporting ? (
@@ -295,14 +1033,65 @@ export default function RecordsScreen() {
               <Text style={styles.loadingText}>Loading records...</Text>
             </View>
           ) : (
-            <FlatList
-              data={records}
-              keyExtractor={(item) => item.qrcode}
-              renderItem={renderRecord}
-              ListEmptyComponent={renderEmptyState}
-              showsVerticalScrollIndicator={false}
-              contentContainerStyle={styles.listContainer}
-            />
+            <>
+              {guests.length > 0 && (
+                <View style={styles.segmentedControl}>
+                  {([
+                    ['registered', `Registered (${records.length})`],
+                    ['missing', `Not arrived (${missingGuests.length})`],
+                  ] as const).map(([mode, label]) => (
+                    <TouchableOpacity
+                      key={mode}
+                      style={[
+                        styles.segment,
+                        listMode === mode && styles.segmentActive,
+                      ]}
+                      onPress={() => setListMode(mode)}
+                    >
+                      <Text
+                        style={[
+                          styles.segmentText,
+                          listMode === mode && styles.segmentTextActive,
+                        ]}
+                      >
+                        {label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+              {renderFilters()}
+              {selectionMode &&
+                listMode === 'registered' &&
+                renderSelectionBar()}
+              {listMode === 'missing' ? (
+                <FlatList
+                  data={visibleMissingGuests}
+                  keyExtractor={(item) => item.qrcode}
+                  renderItem={renderGuest}
+                  ListEmptyComponent={
+                    <View style={styles.emptyState}>
+                      <Text style={styles.emptyStateIcon}>🎉</Text>
+                      <Text style={styles.emptyStateText}>
+                        Everyone on the guest list has arrived!
+                      </Text>
+                    </View>
+                  }
+                  showsVerticalScrollIndicator={false}
+                  contentContainerStyle={styles.listContainer}
+                />
+              ) : (
+                <FlatList
+                  data={visibleRecords}
+                  keyExtractor={(item) => item.qrcode}
+                  renderItem={renderRecord}
+                  extraData={selected}
+                  ListEmptyComponent={renderEmptyState}
+                  showsVerticalScrollIndicator={false}
+                  contentContainerStyle={styles.listContainer}
+                />
+              )}
+            </>
           )}
         </View>
 
@@ -317,16 +1106,30 @@ export default function RecordsScreen() {
             <View style={styles.modalContent}>
               <Text style={styles.modalTitle}>Edit Record</Text>
               
-              <View style={styles.modalInputGroup}>
-                <Text style={styles.modalLabel}>Person Name</Text>
-                <TextInput
-                  style={styles.modalInput}
-                  value={editName}
-                  onChangeText={setEditName}
-                  placeholder="Enter person's name"
-                  autoFocus
+              <ScrollView style={styles.editFields}>
+                <View style={styles.modalInputGroup}>
+                  <Text style={styles.modalLabel}>Person Name</Text>
+                  <TextInput
+                    style={styles.modalInput}
+                    value={editName}
+                    onChangeText={setEditName}
+                    placeholder="Enter person's name"
+                    autoFocus
+                  />
+                </View>
+
+                <FormFieldInputs
+                  fields={formFields}
+                  inputs={editFieldInputs}
+                  errors={editFieldErrors}
+                  onChange={(fieldId, value) =>
+                    setEditFieldInputs(current => ({
+                      ...current,
+                      [fieldId]: value,
+                    }))
+                  }
                 />
-              </View>
+              </ScrollView>
 
               <View style={styles.modalButtons}>
                 <TouchableOpacity
@@ -351,6 +1154,279 @@ export default function RecordsScreen() {
             </View>
           </View>
         </Modal>
+
+        {/* Export Format Modal */}
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={exportPickerVisible}
+          onRequestClose={() => setExportPickerVisible(false)}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContent}>
+              <Text style={styles.modalTitle}>Export</Text>
+              {selectionMode && (
+                <Text style={styles.importSummary}>
+                  {selectedRecords.length} selected
+                </Text>
+              )}
+              {!selectionMode &&
+                filtered &&
+                renderChoices(
+                  [
+                    { id: 'shown', label: `Shown (${visibleRecords.length})` },
+                    { id: 'all', label: `All (${records.length})` },
+                  ],
+                  exportScope,
+                  setExportScope
+                )}
+              {EXPORT_FORMATS.map(format => (
+                <TouchableOpacity
+                  key={format.id}
+                  style={styles.formatOption}
+                  onPress={() => runExport(() => exportRegistrations(format.id))}
+                >
+                  <Text style={styles.timelineType}>{format.label}</Text>
+                  <Text style={styles.recordDate}>{format.description}</Text>
+                </TouchableOpacity>
+              ))}
+              {settings.attendanceMode && (
+                <TouchableOpacity
+                  style={styles.formatOption}
+                  onPress={() => runExport(exportAttendance)}
+                >
+                  <Text style={styles.timelineType}>🕒 Attendance CSV</Text>
+                  <Text style={styles.recordDate}>One row per visit</Text>
+                </TouchableOpacity>
+              )}
+              {!selectionMode && (
+                <TouchableOpacity
+                  style={styles.formatOption}
+                  onPress={() => runExport(exportAuditLog)}
+                >
+                  <Text style={styles.timelineType}>🧾 Audit Log CSV</Text>
+                  <Text style={styles.recordDate}>
+                    Every change to every record, with old and new values
+                  </Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                style={[styles.modalButton, styles.modalCancelButton]}
+                onPress={() => setExportPickerVisible(false)}
+              >
+                <Text style={styles.modalCancelText}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </Modal>
+
+        {/* Tag Modal */}
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={tagModalVisible}
+          onRequestClose={() => setTagModalVisible(false)}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContent}>
+              <Text style={styles.modalTitle}>
+                Tag {selected.size} Record{selected.size === 1 ? '' : 's'}
+              </Text>
+
+              <View style={styles.modalInputGroup}>
+                <Text style={styles.modalLabel}>Tag</Text>
+                <TextInput
+                  style={styles.modalInput}
+                  value={tagName}
+                  onChangeText={setTagName}
+                  placeholder="e.g. VIP"
+                  autoCorrect={false}
+                />
+              </View>
+              {tags.length > 0 && (
+                <View style={styles.tagChips}>
+                  {tags.map(tag => (
+                    <TouchableOpacity
+                      key={tag}
+                      style={[
+                        styles.tagChip,
+                        normalizeTag(tagName).toLowerCase() ===
+                          tag.toLowerCase() && styles.tagChipActive,
+                      ]}
+                      onPress={() => setTagName(tag)}
+                    >
+                      <Text style={styles.segmentText}>{tag}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+
+              <View style={styles.modalButtons}>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.deleteButton]}
+                  onPress={() => applyTag('remove', tagName)}
+                  disabled={bulkBusy || !normalizeTag(tagName)}
+                >
+                  <Text style={styles.modalSaveText}>Remove</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.modalSaveButton]}
+                  onPress={() => applyTag('add', tagName)}
+                  disabled={bulkBusy || !normalizeTag(tagName)}
+                >
+                  <Text style={styles.modalSaveText}>Add</Text>
+                </TouchableOpacity>
+              </View>
+              <TouchableOpacity
+                style={[
+                  styles.modalButton,
+                  styles.modalCancelButton,
+                  styles.tagCancelButton,
+                ]}
+                onPress={() => {
+                  setTagModalVisible(false);
+                  setTagName('');
+                }}
+              >
+                <Text style={styles.modalCancelText}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </Modal>
+
+        {/* Import Preview Modal */}
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={importPreview !== null}
+          onRequestClose={() => setImportPreview(null)}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContent}>
+              <Text style={styles.modalTitle}>Import Records</Text>
+              <Text style={styles.importFilename} numberOfLines={1}>
+                {importPreview?.filename} → {activeEvent?.name}
+              </Text>
+
+              <Text style={styles.modalLabel}>If a QR code already exists</Text>
+              <View style={styles.segmentedControl}>
+                {CONFLICT_POLICIES.map(policy => (
+                  <TouchableOpacity
+                    key={policy.id}
+                    style={[
+                      styles.segment,
+                      conflictPolicy === policy.id && styles.segmentActive,
+                    ]}
+                    onPress={() => setConflictPolicy(policy.id)}
+                  >
+                    <Text
+                      style={[
+                        styles.segmentText,
+                        conflictPolicy === policy.id && styles.segmentTextActive,
+                      ]}
+                    >
+                      {policy.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {importPlan && (
+                <View style={styles.importSummary}>
+                  <Text style={styles.timelineType}>✅ {importPlan.added} new</Text>
+                  <Text style={styles.timelineType}>
+                    🔁 {importPlan.updated} updated
+                  </Text>
+                  <Text style={styles.timelineType}>
+                    ⏭️ {importPlan.skipped} skipped
+                  </Text>
+                  <Text style={styles.timelineType}>
+                    ⚠️ {importPlan.rejected.length} rejected
+                  </Text>
+                  {importPlan.rejected.slice(0, MAX_LISTED_REJECTIONS).map(row => (
+                    <Text key={row.line} style={styles.recordDate}>
+                      Line {row.line}: {row.reason}
+                    </Text>
+                  ))}
+                  {importPlan.rejected.length > MAX_LISTED_REJECTIONS && (
+                    <Text style={styles.recordDate}>
+                      …and {importPlan.rejected.length - MAX_LISTED_REJECTIONS} more
+                    </Text>
+                  )}
+                </View>
+              )}
+
+              <View style={styles.modalButtons}>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.modalCancelButton]}
+                  onPress={() => setImportPreview(null)}
+                  disabled={importing}
+                >
+                  <Text style={styles.modalCancelText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.modalSaveButton]}
+                  onPress={confirmImport}
+                  disabled={importing || !importPlan?.records.length}
+                >
+                  {importing ? (
+                    <ActivityIndicator color="white" size="small" />
+                  ) : (
+                    <Text style={styles.modalSaveText}>Import</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </Modal>
+
+        {/* Attendance Timeline Modal */}
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={timelineRecord !== null}
+          onRequestClose={() => setTimelineRecord(null)}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContent}>
+              <Text style={styles.modalTitle}>{timelineRecord?.name}</Text>
+              <ScrollView style={styles.timelineList}>
+                {timeline.length === 0 ? (
+                  <Text style={styles.timelineEmpty}>No check-ins recorded yet.</Text>
+                ) : (
+                  timeline.map(entry => (
+                    <View key={entry.id} style={styles.timelineEntry}>
+                      <Text style={styles.timelineType}>
+                        {entry.type === 'check-in' ? '🟢 Checked in' : '🔴 Checked out'}
+                      </Text>
+                      <Text style={styles.recordDate}>
+                        {formatDisplayTime(entry.timestamp, settings.displayTimeZone, settings.locale)}
+                      </Text>
+                    </View>
+                  ))
+                )}
+              </ScrollView>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.modalCancelButton]}
+                onPress={() => setTimelineRecord(null)}
+              >
+                <Text style={styles.modalCancelText}>Close</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </Modal>
+
+        {/* Undo Snackbar */}
+        {undoAction && (
+          <View style={styles.snackbar}>
+            <Text style={styles.snackbarText} numberOfLines={2}>
+              {undoAction.message}
+            </Text>
+            <TouchableOpacity onPress={runUndo}>
+              <Text style={styles.snackbarAction}>UNDO</Text>
+            </TouchableOpacity>
+          </View>
+        )}
       </LinearGradient>
     </SafeAreaView>
   );
@@ -374,11 +1450,20 @@ const styles = StyleSheet.create({
     flexWrap: 'wrap',
     gap: 12,
   },
+  headerTitleGroup: {
+    flexShrink: 1,
+  },
   headerTitle: {
     fontSize: 20,
     fontWeight: '700',
     color: 'white',
   },
+  headerEvent: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: 'rgba(255, 255, 255, 0.85)',
+    marginTop: 4,
+  },
   headerRight: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -390,6 +1475,12 @@ const styles = StyleSheet.create({
     paddingVertical: 6,
     borderRadius: 16,
   },
+  onSiteCount: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
   recordsCountText: {
     color: 'white',
     fontSize: 12,
@@ -406,6 +1497,9 @@ const styles = StyleSheet.create({
     minWidth: 70,
     justifyContent: 'center',
   },
+  importButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
   exportButtonText: {
     color: 'white',
     fontSize: 12,
@@ -428,9 +1522,89 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#666',
   },
+  segmentedControl: {
+    flexDirection: 'row',
+    backgroundColor: '#f1f3f4',
+    borderRadius: 10,
+    padding: 3,
+    marginBottom: 12,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  segmentActive: {
+    backgroundColor: 'white',
+  },
+  segmentText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+  },
+  segmentTextActive: {
+    color: '#333',
+  },
   listContainer: {
     flexGrow: 1,
   },
+  searchRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  searchInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#e1e5e9',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    backgroundColor: '#f8f9fa',
+  },
+  filterToggle: {
+    justifyContent: 'center',
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    backgroundColor: '#f1f3f4',
+  },
+  filterToggleActive: {
+    backgroundColor: '#e8f5e9',
+  },
+  filterToggleText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#333',
+  },
+  filterPanel: {
+    marginBottom: 4,
+  },
+  filterLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 6,
+  },
+  rangeInputs: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 4,
+  },
+  rangeInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#e1e5e9',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    backgroundColor: '#f8f9fa',
+  },
+  rangeInputInvalid: {
+    borderColor: '#dc3545',
+  },
   recordCard: {
     backgroundColor: '#f8f9fa',
     borderRadius: 12,
@@ -439,9 +1613,27 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#e9ecef',
   },
+  recordCardSelected: {
+    borderColor: '#4CAF50',
+    backgroundColor: '#e8f5e9',
+  },
   recordContent: {
     marginBottom: 12,
   },
+  recordContentSelecting: {
+    marginBottom: 0,
+  },
+  qrCodeRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  qrCodeFill: {
+    flex: 1,
+  },
+  selectionMark: {
+    fontSize: 20,
+  },
   qrCodeContainer: {
     backgroundColor: 'white',
     padding: 8,
@@ -454,21 +1646,120 @@ const styles = StyleSheet.create({
     color: '#666',
     lineHeight: 16,
   },
+  recordNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
   recordName: {
+    flexShrink: 1,
     fontSize: 16,
     fontWeight: '600',
     color: '#333',
-    marginBottom: 4,
+  },
+  presenceBadge: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: 'white',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  presenceOnSite: {
+    backgroundColor: '#4CAF50',
+  },
+  presenceAway: {
+    backgroundColor: '#adb5bd',
   },
   recordDate: {
     fontSize: 12,
     color: '#888',
     lineHeight: 16,
   },
+  duplicateText: {
+    fontSize: 12,
+    color: '#e65100',
+    lineHeight: 16,
+    marginTop: 4,
+  },
+  editFields: {
+    maxHeight: 420,
+  },
+  recordTags: {
+    fontSize: 12,
+    color: '#5e35b1',
+    lineHeight: 16,
+    marginTop: 4,
+  },
   recordActions: {
     flexDirection: 'row',
     gap: 8,
   },
+  selectionBar: {
+    backgroundColor: '#e8f5e9',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    gap: 8,
+  },
+  selectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  selectionCount: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#2e7d32',
+  },
+  selectionLink: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#2196F3',
+  },
+  tagChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  snackbar: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#323232',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+  },
+  snackbarText: {
+    flex: 1,
+    color: 'white',
+    fontSize: 14,
+  },
+  snackbarAction: {
+    color: '#ffd54f',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  tagChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    backgroundColor: '#f1f3f4',
+  },
+  tagChipActive: {
+    backgroundColor: '#d1c4e9',
+  },
+  tagCancelButton: {
+    marginTop: 12,
+  },
   actionButton: {
     flex: 1,
     paddingVertical: 8,
@@ -476,6 +1767,9 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     alignItems: 'center',
   },
+  historyButton: {
+    backgroundColor: '#2196F3',
+  },
   editButton: {
     backgroundColor: '#6c757d',
   },
@@ -562,6 +1856,47 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  formatOption: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    padding: 12,
+    marginBottom: 8,
+  },
+  importFilename: {
+    fontSize: 12,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: -12,
+    marginBottom: 16,
+  },
+  importSummary: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 20,
+  },
+  timelineList: {
+    maxHeight: 320,
+    marginBottom: 20,
+  },
+  timelineEmpty: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+  },
+  timelineEntry: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  timelineType: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 2,
+  },
   modalSaveText: {
     color: 'white',
     fontSize: 16,
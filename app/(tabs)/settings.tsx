@@ -0,0 +1,412 @@
+import React, { useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  StatusBar,
+  Alert,
+  Switch,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useSettings } from '@/hooks/useSettings';
+import { SYMBOLOGY_LABELS } from '@/lib/barcodes';
+import {
+  TIME_ZONES,
+  TimeZoneOption,
+  formatDisplayTime,
+  getDeviceTimeZone,
+  getTimeZoneLabel,
+} from '@/lib/time';
+
+const TRASH_RETENTION: { days: number | null; label: string }[] = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: null, label: 'Until emptied' },
+];
+
+const SCAN_COOLDOWNS = [3, 5, 10, 30];
+
+const LOCALES: { id: string | null; label: string }[] = [
+  { id: null, label: 'Device default' },
+  { id: 'en-GB', label: 'English (UK)' },
+  { id: 'en-US', label: 'English (US)' },
+  { id: 'sw-KE', label: 'Kiswahili (Kenya)' },
+  { id: 'fr-FR', label: 'Français' },
+  { id: 'ar', label: 'العربية' },
+];
+
+export default function SettingsScreen() {
+  const router = useRouter();
+  const { settings, updateSettings } = useSettings();
+
+  const timeZones = useMemo<TimeZoneOption[]>(() => {
+    const deviceZone = getDeviceTimeZone();
+    if (TIME_ZONES.some(zone => zone.id === deviceZone)) return TIME_ZONES;
+    return [
+      ...TIME_ZONES,
+      {
+        id: deviceZone,
+        label: getTimeZoneLabel(deviceZone),
+        description: 'This device',
+      },
+    ];
+  }, []);
+
+  const save = async (changes: Parameters<typeof updateSettings>[0]) => {
+    try {
+      await updateSettings(changes);
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      Alert.alert('Error', 'Failed to save settings');
+    }
+  };
+
+  const renderOption = (
+    key: string,
+    label: string,
+    description: string | null,
+    selected: boolean,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.option, selected && styles.optionSelected]}
+      onPress={onPress}
+    >
+      <View style={styles.optionContent}>
+        <Text
+          style={[styles.optionLabel, selected && styles.optionLabelSelected]}
+        >
+          {label}
+        </Text>
+        {description && (
+          <Text style={styles.optionDescription}>{description}</Text>
+        )}
+      </View>
+      {selected && <Text style={styles.optionCheck}>✓</Text>}
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <LinearGradient colors={['#667eea', '#764ba2']} style={styles.gradient}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>⚙️ Settings</Text>
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.sectionCard}>
+            <Text style={styles.sectionTitle}>🗂️ Data</Text>
+            <Text style={styles.sectionHint}>
+              Events, forms, scan formats, guest lists, backups and sharing with
+              other devices and systems.
+            </Text>
+            {renderOption(
+              'events',
+              'Events',
+              'Create, switch and archive events',
+              false,
+              () => router.push('/events')
+            )}
+            {renderOption(
+              'form',
+              'Registration Form',
+              'Extra fields asked for when registering',
+              false,
+              () => router.push('/form')
+            )}
+            {renderOption(
+              'payloads',
+              'Scan Formats',
+              settings.payloadPatterns.length > 0
+                ? `vCard, MECARD, JSON, links and ${settings.payloadPatterns.length} custom`
+                : 'Read IDs and names from vCard, MECARD, JSON and links',
+              false,
+              () => router.push('/payloads')
+            )}
+            {renderOption(
+              'barcodes',
+              'Barcode Types',
+              settings.barcodeTypes
+                .map(type => SYMBOLOGY_LABELS[type])
+                .join(', '),
+              false,
+              () => router.push('/barcodes')
+            )}
+            {renderOption(
+              'tickets',
+              'Ticket Verification',
+              settings.ticketVerification
+                ? `On · ${settings.ticketKeys.length} key${settings.ticketKeys.length === 1 ? '' : 's'}`
+                : 'Only accept codes signed with your keys',
+              false,
+              () => router.push('/tickets')
+            )}
+            {renderOption(
+              'guests',
+              'Guest List',
+              'Import expected attendees to auto-fill names',
+              false,
+              () => router.push('/guests')
+            )}
+            {renderOption(
+              'badges',
+              'Badges',
+              'Print QR badges for guests and walk-ins',
+              false,
+              () => router.push('/badges')
+            )}
+            {renderOption(
+              'backup',
+              'Backup & Restore',
+              'Save or restore all events, records and settings',
+              false,
+              () => router.push('/backup')
+            )}
+            {renderOption(
+              'trash',
+              'Trash',
+              'Restore or permanently remove deleted records',
+              false,
+              () => router.push('/trash')
+            )}
+            {renderOption(
+              'sync',
+              'Sync',
+              settings.syncServerUrl ?? 'Share registrations across devices',
+              false,
+              () => router.push('/sync')
+            )}
+            {renderOption(
+              'exchange',
+              'Device Exchange',
+              'Merge registrations from other phones without a server',
+              false,
+              () => router.push('/exchange')
+            )}
+            {renderOption(
+              'webhooks',
+              'Webhooks',
+              'Notify other systems when someone registers',
+              false,
+              () => router.push('/webhooks')
+            )}
+          </View>
+
+          <View style={styles.sectionCard}>
+            <View style={styles.switchRow}>
+              <View style={styles.optionContent}>
+                <Text style={styles.sectionTitle}>📍 Attendance Mode</Text>
+                <Text style={styles.sectionHint}>
+                  Scanning a registered code checks the person in or out instead
+                  of showing a duplicate warning.
+                </Text>
+              </View>
+              <Switch
+                value={settings.attendanceMode}
+                onValueChange={attendanceMode => save({ attendanceMode })}
+                trackColor={{ true: '#4CAF50', false: '#ccc' }}
+              />
+            </View>
+          </View>
+
+          <View style={styles.sectionCard}>
+            <View style={styles.switchRow}>
+              <View style={styles.optionContent}>
+                <Text style={styles.sectionTitle}>⚡ Continuous Scanning</Text>
+                <Text style={styles.sectionHint}>
+                  New codes register as soon as they are scanned, named from the
+                  code or guest list. Codes not on the guest list still wait for
+                  you.
+                </Text>
+              </View>
+              <Switch
+                value={settings.continuousScan}
+                onValueChange={continuousScan => save({ continuousScan })}
+                trackColor={{ true: '#4CAF50', false: '#ccc' }}
+              />
+            </View>
+            {settings.continuousScan && (
+              <>
+                <Text style={styles.sectionHint}>
+                  Ignore repeat scans of the same code for:
+                </Text>
+                {SCAN_COOLDOWNS.map(seconds =>
+                  renderOption(
+                    `cooldown-${seconds}`,
+                    `${seconds} seconds`,
+                    null,
+                    settings.scanCooldownSeconds === seconds,
+                    () => save({ scanCooldownSeconds: seconds })
+                  )
+                )}
+              </>
+            )}
+          </View>
+
+          <View style={styles.sectionCard}>
+            <View style={styles.switchRow}>
+              <View style={styles.optionContent}>
+                <Text style={styles.sectionTitle}>⌨️ Handheld Scanner</Text>
+                <Text style={styles.sectionHint}>
+                  Read codes from a USB or Bluetooth scanner that types like a
+                  keyboard. Scans are told apart from typing by their speed and
+                  the Enter at the end.
+                </Text>
+              </View>
+              <Switch
+                value={settings.keyboardWedge}
+                onValueChange={keyboardWedge => save({ keyboardWedge })}
+                trackColor={{ true: '#4CAF50', false: '#ccc' }}
+              />
+            </View>
+          </View>
+
+          <View style={styles.sectionCard}>
+            <Text style={styles.sectionTitle}>🗑️ Keep Deleted Records</Text>
+            <Text style={styles.sectionHint}>
+              How long deleted records can be restored from the trash before
+              they are removed for good.
+            </Text>
+            {TRASH_RETENTION.map(option =>
+              renderOption(
+                option.label,
+                option.label,
+                null,
+                settings.trashRetentionDays === option.days,
+                () => save({ trashRetentionDays: option.days })
+              )
+            )}
+          </View>
+
+          <View style={styles.sectionCard}>
+            <Text style={styles.sectionTitle}>🕒 Display Time Zone</Text>
+            <Text style={styles.sectionHint}>
+              Used for times on the Records screen and in exports. Records are
+              always stored in UTC.
+            </Text>
+            {timeZones.map(zone =>
+              renderOption(
+                zone.id,
+                `${zone.label} · ${zone.id}`,
+                zone.description,
+                settings.displayTimeZone === zone.id,
+                () => save({ displayTimeZone: zone.id })
+              )
+            )}
+          </View>
+
+          <View style={styles.sectionCard}>
+            <Text style={styles.sectionTitle}>🌍 Date Format</Text>
+            <Text style={styles.sectionHint}>
+              Now:{' '}
+              {formatDisplayTime(
+                new Date().toISOString(),
+                settings.displayTimeZone,
+                settings.locale
+              )}
+            </Text>
+            {LOCALES.map(locale =>
+              renderOption(
+                locale.id ?? 'device',
+                locale.label,
+                locale.id,
+                settings.locale === locale.id,
+                () => save({ locale: locale.id })
+              )
+            )}
+          </View>
+        </ScrollView>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  header: {
+    paddingHorizontal: 16,
+    paddingVertical: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: 'white',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  sectionCard: {
+    backgroundColor: 'white',
+    marginHorizontal: 16,
+    marginBottom: 16,
+    borderRadius: 20,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  sectionHint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 12,
+    lineHeight: 16,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    backgroundColor: '#f8f9fa',
+    marginBottom: 8,
+  },
+  optionSelected: {
+    borderColor: '#4CAF50',
+    backgroundColor: '#e8f5e9',
+  },
+  optionContent: {
+    flex: 1,
+  },
+  optionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  optionLabelSelected: {
+    color: '#2e7d32',
+  },
+  optionDescription: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  optionCheck: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#4CAF50',
+  },
+});
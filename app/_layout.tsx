@@ -2,13 +2,47 @@ import { useEffect } from 'react';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
+import { runAutoBackup } from '@/lib/backup';
+import { purgeExpiredTrash } from '@/lib/records';
+import { getSettings } from '@/lib/settings';
+import { startSync } from '@/lib/sync';
+import { startWebhooks } from '@/lib/webhooks';
 
 export default function RootLayout() {
   useFrameworkReady();
 
+  useEffect(() => {
+    getSettings()
+      .then(settings => (settings.autoBackup ? runAutoBackup() : undefined))
+      .catch(error => console.error('Automatic backup failed:', error));
+  }, []);
+
+  useEffect(() => {
+    getSettings()
+      .then(settings => purgeExpiredTrash(settings.trashRetentionDays))
+      .catch(error => console.error('Emptying the trash failed:', error));
+  }, []);
+
+  useEffect(() => startSync(), []);
+
+  useEffect(() => startWebhooks(), []);
+
   return (
     <>
       <Stack screenOptions={{ headerShown: false }}>
+        <Stack.Screen name="events" options={{ presentation: 'modal' }} />
+        <Stack.Screen name="guests" options={{ presentation: 'modal' }} />
+        <Stack.Screen name="backup" options={{ presentation: 'modal' }} />
+        <Stack.Screen name="sync" options={{ presentation: 'modal' }} />
+        <Stack.Screen name="exchange" options={{ presentation: 'modal' }} />
+        <Stack.Screen name="webhooks" options={{ presentation: 'modal' }} />
+        <Stack.Screen name="trash" options={{ presentation: 'modal' }} />
+        <Stack.Screen name="record" options={{ presentation: 'modal' }} />
+        <Stack.Screen name="form" options={{ presentation: 'modal' }} />
+        <Stack.Screen name="payloads" options={{ presentation: 'modal' }} />
+        <Stack.Screen name="tickets" options={{ presentation: 'modal' }} />
+        <Stack.Screen name="barcodes" options={{ presentation: 'modal' }} />
+        <Stack.Screen name="badges" options={{ presentation: 'modal' }} />
         <Stack.Screen name="+not-found" />
       </Stack>
       <StatusBar style="auto" />
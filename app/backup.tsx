@@ -0,0 +1,483 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  StatusBar,
+  Switch,
+  Vibration,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useSettings } from '@/hooks/useSettings';
+import {
+  BackupArchive,
+  BackupFormatError,
+  LocalBackup,
+  MAX_AUTO_BACKUPS,
+  RestoreMode,
+  TableRestorePreview,
+  createBackup,
+  listLocalBackups,
+  parseBackup,
+  previewRestore,
+  readLocalBackup,
+  restoreBackup,
+  runAutoBackup,
+  serializeBackup,
+} from '@/lib/backup';
+import { exportFilename, shareTextFile } from '@/lib/export';
+import { pickFile } from '@/lib/files';
+import { formatDisplayTime } from '@/lib/time';
+
+const TABLE_LABELS: Record<string, string> = {
+  events: '🗓️ Events',
+  records: '👥 Registrations',
+  attendance: '📍 Check-ins',
+  guests: '📋 Guest list entries',
+};
+
+export default function BackupScreen() {
+  const router = useRouter();
+  const { settings, updateSettings } = useSettings();
+  const [busy, setBusy] = useState(false);
+  const [localBackups, setLocalBackups] = useState<LocalBackup[]>([]);
+  const [pending, setPending] = useState<{
+    archive: BackupArchive;
+    source: string;
+    tables: TableRestorePreview[];
+  } | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('replace');
+
+  const loadLocalBackups = useCallback(async () => {
+    try {
+      setLocalBackups(await listLocalBackups());
+    } catch (error) {
+      console.error('Error listing backups:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadLocalBackups();
+  }, [loadLocalBackups]);
+
+  const shareBackup = async () => {
+    try {
+      setBusy(true);
+      await shareTextFile({
+        filename: exportFilename('qr-backup', null, 'json'),
+        content: serializeBackup(await createBackup()),
+        mimeType: 'application/json',
+        title: 'Save QR Registration Backup',
+      });
+      Vibration.vibrate(200);
+    } catch (error) {
+      console.error('Backup error:', error);
+      Alert.alert(
+        'Backup Failed',
+        'Unable to create a backup. Please try again.'
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openArchive = async (
+    read: () => Promise<{ text: string; source: string } | null>
+  ) => {
+    try {
+      setBusy(true);
+      const file = await read();
+      if (!file) return;
+      const archive = parseBackup(file.text);
+      setPending({
+        archive,
+        source: file.source,
+        tables: await previewRestore(archive),
+      });
+    } catch (error) {
+      if (error instanceof BackupFormatError) {
+        Alert.alert('Invalid Backup', error.message);
+      } else {
+        console.error('Error reading backup:', error);
+        Alert.alert('Error', 'Unable to read that backup. Please try again.');
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const chooseFile = () =>
+    openArchive(async () => {
+      const file = await pickFile();
+      return file ? { text: await file.text(), source: file.name } : null;
+    });
+
+  const chooseLocal = (backup: LocalBackup) =>
+    openArchive(async () => ({
+      text: await readLocalBackup(backup),
+      source: formatDisplayTime(
+        backup.createdAt,
+        settings.displayTimeZone,
+        settings.locale
+      ),
+    }));
+
+  const restore = async () => {
+    if (!pending) return;
+    try {
+      setBusy(true);
+      const { webhooksNeedingSecret } = await restoreBackup(
+        pending.archive,
+        mode
+      );
+      setPending(null);
+      Vibration.vibrate(200);
+      Alert.alert(
+        'Restore Complete',
+        webhooksNeedingSecret.length > 0
+          ? `Your data has been restored. Webhook signing secrets aren't kept in backups, so these webhooks are off until you enter theirs on the Webhooks screen: ${webhooksNeedingSecret.join(', ')}`
+          : 'Your data has been restored.'
+      );
+    } catch (error) {
+      console.error('Restore error:', error);
+      Alert.alert('Restore Failed', 'No data was changed. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmRestore = () => {
+    if (mode === 'merge') {
+      restore();
+      return;
+    }
+    Alert.alert(
+      'Replace All Data',
+      'Everything on this device will be replaced by the backup, including settings. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: restore },
+      ]
+    );
+  };
+
+  const toggleAutoBackup = async (autoBackup: boolean) => {
+    try {
+      await updateSettings({ autoBackup });
+      if (autoBackup) {
+        await runAutoBackup();
+        await loadLocalBackups();
+      }
+    } catch (error) {
+      console.error('Error enabling automatic backups:', error);
+      Alert.alert('Error', 'Failed to save settings');
+    }
+  };
+
+  const renderModeOption = (
+    id: RestoreMode,
+    label: string,
+    description: string
+  ) => (
+    <TouchableOpacity
+      key={id}
+      style={[styles.option, mode === id && styles.optionSelected]}
+      onPress={() => setMode(id)}
+    >
+      <View style={styles.optionContent}>
+        <Text style={styles.optionLabel}>{label}</Text>
+        <Text style={styles.optionDescription}>{description}</Text>
+      </View>
+      {mode === id && <Text style={styles.optionCheck}>✓</Text>}
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <LinearGradient colors={['#667eea', '#764ba2']} style={styles.gradient}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()}>
+            <Text style={styles.headerButton}>‹ Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>💾 Backup</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          showsVerticalScrollIndicator={false}
+        >
+          {pending ? (
+            <View style={styles.sectionCard}>
+              <Text style={styles.sectionTitle}>Restore Preview</Text>
+              <Text style={styles.sectionHint}>
+                {pending.source} · created{' '}
+                {formatDisplayTime(
+                  pending.archive.createdAt,
+                  settings.displayTimeZone,
+                  settings.locale
+                )}
+              </Text>
+
+              {pending.tables.map(table => (
+                <View key={table.table} style={styles.tableRow}>
+                  <Text style={styles.optionLabel}>
+                    {TABLE_LABELS[table.table] ?? table.table}
+                  </Text>
+                  <Text style={styles.optionDescription}>
+                    {table.incoming} in backup · {table.existing} on device ·{' '}
+                    {table.conflicts} in both
+                  </Text>
+                </View>
+              ))}
+
+              <Text style={styles.subheading}>Restore mode</Text>
+              {renderModeOption(
+                'replace',
+                'Replace',
+                'Delete everything on this device, then restore the backup and its settings'
+              )}
+              {renderModeOption(
+                'merge',
+                'Merge',
+                'Add what is missing; entries already on this device are kept'
+              )}
+
+              <View style={styles.buttonRow}>
+                <TouchableOpacity
+                  style={[styles.button, styles.cancelButton]}
+                  onPress={() => setPending(null)}
+                  disabled={busy}
+                >
+                  <Text style={styles.buttonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[
+                    styles.button,
+                    mode === 'replace'
+                      ? styles.dangerButton
+                      : styles.primaryButton,
+                  ]}
+                  onPress={confirmRestore}
+                  disabled={busy}
+                >
+                  {busy ? (
+                    <ActivityIndicator color="white" size="small" />
+                  ) : (
+                    <Text style={styles.buttonText}>Restore</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : (
+            <>
+              <View style={styles.sectionCard}>
+                <Text style={styles.sectionTitle}>Backup & Restore</Text>
+                <Text style={styles.sectionHint}>
+                  A backup holds every event, registration, check-in and guest
+                  list, plus your settings. Sync tokens, HMAC ticket keys and
+                  webhook secrets stay on this device. Save it somewhere off
+                  this device.
+                </Text>
+                <View style={styles.buttonRow}>
+                  <TouchableOpacity
+                    style={[styles.button, styles.primaryButton]}
+                    onPress={shareBackup}
+                    disabled={busy}
+                  >
+                    <Text style={styles.buttonText}>📤 Create Backup</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.button, styles.secondaryButton]}
+                    onPress={chooseFile}
+                    disabled={busy}
+                  >
+                    <Text style={styles.buttonText}>📂 Restore</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+
+              {Platform.OS !== 'web' && (
+                <View style={styles.sectionCard}>
+                  <View style={styles.switchRow}>
+                    <View style={styles.optionContent}>
+                      <Text style={styles.sectionTitle}>
+                        🔁 Automatic Backups
+                      </Text>
+                      <Text style={styles.sectionHint}>
+                        Once a day, keeping the latest {MAX_AUTO_BACKUPS} on
+                        this device. They're lost if the app is uninstalled.
+                      </Text>
+                    </View>
+                    <Switch
+                      value={settings.autoBackup}
+                      onValueChange={toggleAutoBackup}
+                      trackColor={{ true: '#4CAF50', false: '#ccc' }}
+                    />
+                  </View>
+                  {localBackups.map(backup => (
+                    <TouchableOpacity
+                      key={backup.name}
+                      style={styles.option}
+                      onPress={() => chooseLocal(backup)}
+                      disabled={busy}
+                    >
+                      <View style={styles.optionContent}>
+                        <Text style={styles.optionLabel}>
+                          {formatDisplayTime(
+                            backup.createdAt,
+                            settings.displayTimeZone,
+                            settings.locale
+                          )}
+                        </Text>
+                        <Text style={styles.optionDescription}>
+                          Tap to preview and restore
+                        </Text>
+                      </View>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+            </>
+          )}
+        </ScrollView>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: 'white',
+  },
+  headerButton: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+  headerSpacer: {
+    width: 50,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  sectionCard: {
+    backgroundColor: 'white',
+    marginHorizontal: 16,
+    marginBottom: 16,
+    borderRadius: 20,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  sectionHint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 12,
+    lineHeight: 16,
+  },
+  subheading: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#333',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  tableRow: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    backgroundColor: '#f8f9fa',
+    marginBottom: 8,
+  },
+  optionSelected: {
+    borderColor: '#4CAF50',
+    backgroundColor: '#e8f5e9',
+  },
+  optionContent: {
+    flex: 1,
+  },
+  optionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  optionDescription: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  optionCheck: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#4CAF50',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  primaryButton: {
+    backgroundColor: '#4CAF50',
+  },
+  secondaryButton: {
+    backgroundColor: '#2196F3',
+  },
+  dangerButton: {
+    backgroundColor: '#dc3545',
+  },
+  cancelButton: {
+    backgroundColor: '#6c757d',
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
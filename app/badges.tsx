@@ -0,0 +1,651 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Alert,
+  StatusBar,
+  Vibration,
+  ActivityIndicator,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useBadges } from '@/hooks/useBadges';
+import { useEvents } from '@/hooks/useEvents';
+import { useGuests } from '@/hooks/useGuests';
+import QRCodeView from '@/components/QRCodeView';
+import {
+  BADGE_LAYOUTS,
+  Badge,
+  badgeSheetHTML,
+  badgeSheetSVG,
+  deleteBadge,
+  issueBadge,
+} from '@/lib/badges';
+import { exportFilename, sharePDF, shareTextFile } from '@/lib/export';
+
+// The list is truncated; searching and selecting cover everyone
+const MAX_LISTED_PEOPLE = 100;
+
+interface Person extends Badge {
+  walkIn: boolean;
+}
+
+export default function BadgesScreen() {
+  const router = useRouter();
+  const { activeEvent } = useEvents();
+  const eventId = activeEvent?.id ?? null;
+  const { guests, loading: guestsLoading } = useGuests(eventId);
+  const { badges, loading: badgesLoading } = useBadges(eventId);
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [layoutId, setLayoutId] = useState(BADGE_LAYOUTS[2].id);
+  const [preview, setPreview] = useState<Person | null>(null);
+  const [walkInVisible, setWalkInVisible] = useState(false);
+  const [walkInName, setWalkInName] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const layout =
+    BADGE_LAYOUTS.find(option => option.id === layoutId) ?? BADGE_LAYOUTS[0];
+
+  const people = useMemo<Person[]>(
+    () =>
+      [
+        ...guests.map(guest => ({
+          qrcode: guest.qrcode,
+          name: guest.name,
+          walkIn: false,
+        })),
+        ...badges.map(badge => ({
+          qrcode: badge.qrcode,
+          name: badge.name,
+          walkIn: true,
+        })),
+      ].sort((a, b) => a.name.localeCompare(b.name)),
+    [guests, badges]
+  );
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return people;
+    return people.filter(
+      person =>
+        person.name.toLowerCase().includes(query) ||
+        person.qrcode.toLowerCase().includes(query)
+    );
+  }, [people, search]);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      setBusy(true);
+      await action();
+      Vibration.vibrate(100);
+    } catch (error) {
+      console.error(failure, error);
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Something went wrong'
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggle = (qrcode: string) =>
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(qrcode)) {
+        next.delete(qrcode);
+      } else {
+        next.add(qrcode);
+      }
+      return next;
+    });
+
+  const allFilteredSelected =
+    filtered.length > 0 &&
+    filtered.every(person => selected.has(person.qrcode));
+
+  const toggleAll = () =>
+    setSelected(current => {
+      const next = new Set(current);
+      filtered.forEach(person =>
+        allFilteredSelected
+          ? next.delete(person.qrcode)
+          : next.add(person.qrcode)
+      );
+      return next;
+    });
+
+  const printPDF = (sheet: Badge[], sheetLayout = layout) =>
+    run(
+      () =>
+        sharePDF({
+          filename: exportFilename(
+            'qr-badges',
+            activeEvent?.name ?? null,
+            'pdf'
+          ),
+          html: badgeSheetHTML(activeEvent?.name ?? '', sheet, sheetLayout),
+          title: 'Print Badges',
+          fallbackMessage: sheet
+            .map(badge => `${badge.name}: ${badge.qrcode}`)
+            .join('\n'),
+        }),
+      'Error printing badges:'
+    );
+
+  const saveSVG = (sheet: Badge[]) =>
+    run(
+      () =>
+        shareTextFile({
+          filename: exportFilename(
+            'qr-badges',
+            activeEvent?.name ?? null,
+            'svg'
+          ),
+          content: badgeSheetSVG(activeEvent?.name ?? '', sheet, layout),
+          mimeType: 'image/svg+xml',
+          title: 'Save Badges',
+        }),
+      'Error saving badges:'
+    );
+
+  const selectedPeople = people.filter(person => selected.has(person.qrcode));
+
+  const createWalkIn = async () => {
+    if (!eventId || !walkInName.trim()) return;
+    await run(async () => {
+      const badge = await issueBadge(eventId, walkInName);
+      setPreview({ qrcode: badge.qrcode, name: badge.name, walkIn: true });
+    }, 'Error issuing badge:');
+    setWalkInVisible(false);
+    setWalkInName('');
+  };
+
+  const confirmForget = (person: Person) => {
+    if (!eventId) return;
+    Alert.alert(
+      'Remove Walk-in Badge',
+      `Scanning ${person.name}'s badge will no longer fill in their name. Anyone already registered with it stays registered.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () =>
+            run(async () => {
+              await deleteBadge(eventId, person.qrcode);
+              setPreview(null);
+              setSelected(current => {
+                const next = new Set(current);
+                next.delete(person.qrcode);
+                return next;
+              });
+            }, 'Error removing badge:'),
+        },
+      ]
+    );
+  };
+
+  const renderPerson = (person: Person) => {
+    const isSelected = selected.has(person.qrcode);
+    return (
+      <View key={person.qrcode} style={styles.personRow}>
+        <TouchableOpacity
+          style={styles.personSelect}
+          onPress={() => toggle(person.qrcode)}
+        >
+          <Text style={styles.selectMark}>{isSelected ? '☑️' : '⬜'}</Text>
+          <View style={styles.personContent}>
+            <Text style={styles.personName} numberOfLines={1}>
+              {person.name}
+              {person.walkIn && ' 🎫'}
+            </Text>
+            <Text style={styles.personCode} numberOfLines={1}>
+              {person.qrcode}
+            </Text>
+          </View>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => setPreview(person)}>
+          <Text style={styles.viewText}>View</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <LinearGradient colors={['#667eea', '#764ba2']} style={styles.gradient}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()}>
+            <Text style={styles.headerButton}>‹ Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>🎫 Badges</Text>
+          <TouchableOpacity onPress={() => setWalkInVisible(true)}>
+            <Text style={styles.headerButton}>＋ Walk-in</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.sectionCard}>
+            <Text style={styles.sectionTitle}>{activeEvent?.name}</Text>
+            <Text style={styles.sectionHint}>
+              Print QR badges for people on the guest list, or issue one to a
+              walk-in. Scanning a badge fills in the person&apos;s name.
+            </Text>
+            <View style={styles.chips}>
+              {BADGE_LAYOUTS.map(option => {
+                const isSelected = option.id === layoutId;
+                return (
+                  <TouchableOpacity
+                    key={option.id}
+                    style={[styles.chip, isSelected && styles.chipSelected]}
+                    onPress={() => setLayoutId(option.id)}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        isSelected && styles.chipTextSelected,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <View style={styles.sheetButtons}>
+              <TouchableOpacity
+                style={[
+                  styles.button,
+                  styles.printButton,
+                  (busy || selectedPeople.length === 0) &&
+                    styles.buttonDisabled,
+                ]}
+                onPress={() => printPDF(selectedPeople)}
+                disabled={busy || selectedPeople.length === 0}
+              >
+                {busy ? (
+                  <ActivityIndicator color="white" size="small" />
+                ) : (
+                  <Text style={styles.buttonText}>
+                    🖨️ PDF ({selectedPeople.length})
+                  </Text>
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.button,
+                  styles.svgButton,
+                  (busy || selectedPeople.length === 0) &&
+                    styles.buttonDisabled,
+                ]}
+                onPress={() => saveSVG(selectedPeople)}
+                disabled={busy || selectedPeople.length === 0}
+              >
+                <Text style={styles.buttonText}>
+                  🖼️ SVG ({selectedPeople.length})
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <View style={styles.sectionCard}>
+            <View style={styles.listHeader}>
+              <Text style={styles.sectionTitle}>People ({people.length})</Text>
+              {filtered.length > 0 && (
+                <TouchableOpacity onPress={toggleAll}>
+                  <Text style={styles.viewText}>
+                    {allFilteredSelected ? 'Select none' : 'Select all'}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            <TextInput
+              style={styles.searchInput}
+              value={search}
+              onChangeText={setSearch}
+              placeholder="Search by name or code"
+              placeholderTextColor="#999"
+            />
+            {guestsLoading || badgesLoading ? (
+              <ActivityIndicator color="#4CAF50" />
+            ) : people.length === 0 ? (
+              <Text style={styles.emptyText}>
+                Import a guest list or tap ＋ Walk-in to make a badge.
+              </Text>
+            ) : (
+              <>
+                {filtered.slice(0, MAX_LISTED_PEOPLE).map(renderPerson)}
+                {filtered.length > MAX_LISTED_PEOPLE && (
+                  <Text style={styles.sectionHint}>
+                    Showing {MAX_LISTED_PEOPLE} of {filtered.length}. Search to
+                    find others.
+                  </Text>
+                )}
+              </>
+            )}
+          </View>
+        </ScrollView>
+
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={preview !== null}
+          onRequestClose={() => setPreview(null)}
+        >
+          <View style={styles.modalOverlay}>
+            {preview && (
+              <View style={[styles.modalContent, styles.badgePreview]}>
+                <Text style={styles.badgeEvent}>
+                  {activeEvent?.name.toUpperCase()}
+                </Text>
+                <Text style={styles.badgeName}>{preview.name}</Text>
+                <QRCodeView value={preview.qrcode} size={220} />
+                <Text style={styles.personCode}>{preview.qrcode}</Text>
+                <View style={styles.modalButtons}>
+                  <TouchableOpacity
+                    style={[styles.modalButton, styles.modalCancelButton]}
+                    onPress={() => setPreview(null)}
+                  >
+                    <Text style={styles.modalButtonText}>Close</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.modalButton, styles.modalSaveButton]}
+                    onPress={() => printPDF([preview], BADGE_LAYOUTS[0])}
+                    disabled={busy}
+                  >
+                    <Text style={styles.modalButtonText}>🖨️ Print</Text>
+                  </TouchableOpacity>
+                </View>
+                {preview.walkIn && (
+                  <TouchableOpacity onPress={() => confirmForget(preview)}>
+                    <Text style={styles.forgetText}>Remove walk-in badge</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            )}
+          </View>
+        </Modal>
+
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={walkInVisible}
+          onRequestClose={() => setWalkInVisible(false)}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContent}>
+              <Text style={styles.modalTitle}>Walk-in Badge</Text>
+              <TextInput
+                style={styles.modalInput}
+                value={walkInName}
+                onChangeText={setWalkInName}
+                placeholder="Person's name"
+                autoFocus
+              />
+              <View style={styles.modalButtons}>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.modalCancelButton]}
+                  onPress={() => {
+                    setWalkInVisible(false);
+                    setWalkInName('');
+                  }}
+                >
+                  <Text style={styles.modalButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.modalSaveButton]}
+                  onPress={createWalkIn}
+                  disabled={busy || !walkInName.trim()}
+                >
+                  <Text style={styles.modalButtonText}>Create</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </Modal>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: 'white',
+  },
+  headerButton: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  sectionCard: {
+    backgroundColor: 'white',
+    marginHorizontal: 16,
+    marginBottom: 16,
+    borderRadius: 20,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  sectionHint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 12,
+    lineHeight: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#888',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    backgroundColor: '#f8f9fa',
+  },
+  chipSelected: {
+    borderColor: '#4CAF50',
+    backgroundColor: '#e8f5e9',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+  },
+  chipTextSelected: {
+    color: '#2e7d32',
+  },
+  sheetButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  printButton: {
+    backgroundColor: '#4CAF50',
+  },
+  svgButton: {
+    backgroundColor: '#2196F3',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  listHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  searchInput: {
+    borderWidth: 1,
+    borderColor: '#e1e5e9',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 14,
+    backgroundColor: '#f8f9fa',
+    marginBottom: 8,
+  },
+  personRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  personSelect: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  selectMark: {
+    fontSize: 18,
+  },
+  personContent: {
+    flex: 1,
+  },
+  personName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  personCode: {
+    fontFamily: 'monospace',
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  viewText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#667eea',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#333',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  modalInput: {
+    borderWidth: 1,
+    borderColor: '#e1e5e9',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    backgroundColor: '#f8f9fa',
+    marginBottom: 24,
+  },
+  badgePreview: {
+    alignItems: 'center',
+  },
+  badgeEvent: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#667eea',
+    letterSpacing: 1,
+  },
+  badgeName: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#333',
+    marginVertical: 12,
+    textAlign: 'center',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+    alignSelf: 'stretch',
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  modalCancelButton: {
+    backgroundColor: '#6c757d',
+  },
+  modalSaveButton: {
+    backgroundColor: '#4CAF50',
+  },
+  modalButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  forgetText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#dc3545',
+    marginTop: 16,
+  },
+});
@@ -0,0 +1,232 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  StatusBar,
+  Vibration,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useSettings } from '@/hooks/useSettings';
+import { SYMBOLOGIES, Symbology, SymbologyDuplicateRule } from '@/lib/barcodes';
+import { AppSettings } from '@/lib/settings';
+
+const DUPLICATE_RULES: {
+  id: SymbologyDuplicateRule;
+  label: string;
+  description: string;
+}[] = [
+  {
+    id: 'value',
+    label: 'Same person',
+    description:
+      'A value already registered from a QR code is a duplicate on a card',
+  },
+  {
+    id: 'symbology',
+    label: 'Different codes',
+    description:
+      'Each barcode type registers separately, e.g. as "code128:12345"',
+  },
+];
+
+export default function BarcodesScreen() {
+  const router = useRouter();
+  const { settings, updateSettings } = useSettings();
+
+  const save = async (changes: Partial<AppSettings>) => {
+    try {
+      await updateSettings(changes);
+      Vibration.vibrate(100);
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      Alert.alert('Error', 'Failed to save settings');
+    }
+  };
+
+  // QR codes stay on: tickets and badges are printed as them
+  const toggleSymbology = (id: Symbology) => {
+    if (id === 'qr') return;
+    const enabled = settings.barcodeTypes.includes(id);
+    save({
+      barcodeTypes: enabled
+        ? settings.barcodeTypes.filter(type => type !== id)
+        : SYMBOLOGIES.map(option => option.id).filter(
+            type => type === id || settings.barcodeTypes.includes(type)
+          ),
+    });
+  };
+
+  const renderOption = (
+    key: string,
+    label: string,
+    description: string,
+    selected: boolean,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.option, selected && styles.optionSelected]}
+      onPress={onPress}
+    >
+      <View style={styles.optionContent}>
+        <Text
+          style={[styles.optionLabel, selected && styles.optionLabelSelected]}
+        >
+          {label}
+        </Text>
+        <Text style={styles.optionDescription}>{description}</Text>
+      </View>
+      {selected && <Text style={styles.optionCheck}>✓</Text>}
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <LinearGradient colors={['#667eea', '#764ba2']} style={styles.gradient}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()}>
+            <Text style={styles.headerButton}>‹ Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>▦ Barcode Types</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.sectionCard}>
+            <Text style={styles.sectionTitle}>Read</Text>
+            <Text style={styles.sectionHint}>
+              Barcodes the scanner looks for. Each one turned on makes scanning
+              a little slower, so only enable the ones on your cards.
+            </Text>
+            {SYMBOLOGIES.map(option =>
+              renderOption(
+                option.id,
+                option.label,
+                option.id === 'qr' ? 'Always read' : option.description,
+                settings.barcodeTypes.includes(option.id),
+                () => toggleSymbology(option.id)
+              )
+            )}
+          </View>
+
+          <View style={styles.sectionCard}>
+            <Text style={styles.sectionTitle}>
+              Same Value, Different Barcode
+            </Text>
+            <Text style={styles.sectionHint}>
+              How a value is treated when it turns up in more than one barcode
+              type, e.g. on a QR ticket and a Code 128 membership card. Codes
+              already registered keep the form they were registered under.
+              Typed codes match the value registered from any barcode type.
+            </Text>
+            {DUPLICATE_RULES.map(rule =>
+              renderOption(
+                rule.id,
+                rule.label,
+                rule.description,
+                settings.symbologyDuplicates === rule.id,
+                () => save({ symbologyDuplicates: rule.id })
+              )
+            )}
+          </View>
+        </ScrollView>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: 'white',
+  },
+  headerButton: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+  headerSpacer: {
+    width: 50,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  sectionCard: {
+    backgroundColor: 'white',
+    marginHorizontal: 16,
+    marginBottom: 16,
+    borderRadius: 20,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  sectionHint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 12,
+    lineHeight: 16,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    backgroundColor: '#f8f9fa',
+    marginBottom: 8,
+  },
+  optionSelected: {
+    borderColor: '#4CAF50',
+    backgroundColor: '#e8f5e9',
+  },
+  optionContent: {
+    flex: 1,
+  },
+  optionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  optionLabelSelected: {
+    color: '#2e7d32',
+  },
+  optionDescription: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  optionCheck: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#4CAF50',
+  },
+});
@@ -0,0 +1,430 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Alert,
+  StatusBar,
+  Vibration,
+  ActivityIndicator,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useEvents } from '@/hooks/useEvents';
+import { useSettings } from '@/hooks/useSettings';
+import {
+  QREvent,
+  archiveEvent,
+  createEvent,
+  renameEvent,
+  restoreEvent,
+  setActiveEvent,
+} from '@/lib/events';
+import { countRecords, subscribeToRecords } from '@/lib/records';
+import { formatDisplayTime } from '@/lib/time';
+
+export default function EventsScreen() {
+  const router = useRouter();
+  const { events, activeEvent, loading } = useEvents();
+  const { settings } = useSettings();
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingEvent, setEditingEvent] = useState<QREvent | null>(null);
+  const [eventName, setEventName] = useState('');
+
+  useEffect(() => {
+    const loadCounts = async () => {
+      try {
+        const entries = await Promise.all(
+          events.map(
+            async event => [event.id, await countRecords(event.id)] as const
+          )
+        );
+        setCounts(Object.fromEntries(entries));
+      } catch (error) {
+        console.error('Error counting records:', error);
+      }
+    };
+    loadCounts();
+    return subscribeToRecords(loadCounts);
+  }, [events]);
+
+  const openEvents = events.filter(event => !event.archived);
+  const archivedEvents = events.filter(event => event.archived);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      Vibration.vibrate(100);
+    } catch (error) {
+      console.error(failure, error);
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Something went wrong'
+      );
+    }
+  };
+
+  const openModal = (event: QREvent | null) => {
+    setEditingEvent(event);
+    setEventName(event?.name ?? '');
+    setModalVisible(true);
+  };
+
+  const closeModal = () => {
+    setModalVisible(false);
+    setEditingEvent(null);
+    setEventName('');
+  };
+
+  const saveEvent = async () => {
+    const name = eventName.trim();
+    if (!name) return;
+    await run(async () => {
+      if (editingEvent) {
+        await renameEvent(editingEvent.id, name);
+      } else {
+        const created = await createEvent(name);
+        await setActiveEvent(created.id);
+      }
+    }, 'Error saving event:');
+    closeModal();
+  };
+
+  const switchTo = (event: QREvent) =>
+    run(async () => {
+      await setActiveEvent(event.id);
+      router.back();
+    }, 'Error switching event:');
+
+  const confirmArchive = (event: QREvent) => {
+    Alert.alert(
+      'Archive Event',
+      `Archive "${event.name}"? Its records are kept and it can be restored later.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Archive',
+          style: 'destructive',
+          onPress: () =>
+            run(() => archiveEvent(event.id), 'Error archiving event:'),
+        },
+      ]
+    );
+  };
+
+  const renderEvent = (event: QREvent) => {
+    const isActive = event.id === activeEvent?.id;
+    return (
+      <View
+        key={event.id}
+        style={[styles.eventCard, isActive && styles.eventCardActive]}
+      >
+        <TouchableOpacity
+          style={styles.eventContent}
+          onPress={() => !event.archived && switchTo(event)}
+          disabled={event.archived}
+        >
+          <View style={styles.eventTitleRow}>
+            <Text style={styles.eventName} numberOfLines={1}>
+              {event.name}
+            </Text>
+            {isActive && <Text style={styles.activeBadge}>ACTIVE</Text>}
+          </View>
+          <Text style={styles.eventMeta}>
+            👥 {counts[event.id] ?? '–'} registered · 📅{' '}
+            {formatDisplayTime(
+              event.createdAt,
+              settings.displayTimeZone,
+              settings.locale
+            )}
+          </Text>
+        </TouchableOpacity>
+
+        <View style={styles.eventActions}>
+          {event.archived ? (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.restoreButton]}
+              onPress={() =>
+                run(() => restoreEvent(event.id), 'Error restoring event:')
+              }
+            >
+              <Text style={styles.actionButtonText}>↩️ Restore</Text>
+            </TouchableOpacity>
+          ) : (
+            <>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.renameButton]}
+                onPress={() => openModal(event)}
+              >
+                <Text style={styles.actionButtonText}>✏️ Rename</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.archiveButton]}
+                onPress={() => confirmArchive(event)}
+              >
+                <Text style={styles.actionButtonText}>🗄️ Archive</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <LinearGradient colors={['#667eea', '#764ba2']} style={styles.gradient}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()}>
+            <Text style={styles.headerButton}>‹ Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>🗓️ Events</Text>
+          <TouchableOpacity onPress={() => openModal(null)}>
+            <Text style={styles.headerButton}>＋ New</Text>
+          </TouchableOpacity>
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="white" />
+          </View>
+        ) : (
+          <ScrollView
+            style={styles.scrollView}
+            showsVerticalScrollIndicator={false}
+          >
+            <View style={styles.sectionCard}>
+              <Text style={styles.sectionTitle}>Open Events</Text>
+              <Text style={styles.sectionHint}>
+                Tap an event to register new scans into it.
+              </Text>
+              {openEvents.map(renderEvent)}
+            </View>
+
+            {archivedEvents.length > 0 && (
+              <View style={styles.sectionCard}>
+                <Text style={styles.sectionTitle}>Archived</Text>
+                {archivedEvents.map(renderEvent)}
+              </View>
+            )}
+          </ScrollView>
+        )}
+
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={modalVisible}
+          onRequestClose={closeModal}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContent}>
+              <Text style={styles.modalTitle}>
+                {editingEvent ? 'Rename Event' : 'New Event'}
+              </Text>
+              <TextInput
+                style={styles.modalInput}
+                value={eventName}
+                onChangeText={setEventName}
+                placeholder="e.g. Day 1 Morning Session"
+                autoFocus
+              />
+              <View style={styles.modalButtons}>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.modalCancelButton]}
+                  onPress={closeModal}
+                >
+                  <Text style={styles.modalButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.modalSaveButton]}
+                  onPress={saveEvent}
+                  disabled={!eventName.trim()}
+                >
+                  <Text style={styles.modalButtonText}>
+                    {editingEvent ? 'Save' : 'Create'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </Modal>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: 'white',
+  },
+  headerButton: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  sectionCard: {
+    backgroundColor: 'white',
+    marginHorizontal: 16,
+    marginBottom: 16,
+    borderRadius: 20,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  sectionHint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 12,
+  },
+  eventCard: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+  },
+  eventCardActive: {
+    borderColor: '#4CAF50',
+    backgroundColor: '#e8f5e9',
+  },
+  eventContent: {
+    marginBottom: 12,
+  },
+  eventTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  eventName: {
+    flexShrink: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  activeBadge: {
+    backgroundColor: '#4CAF50',
+    color: 'white',
+    fontSize: 10,
+    fontWeight: '700',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  eventMeta: {
+    fontSize: 12,
+    color: '#888',
+  },
+  eventActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  renameButton: {
+    backgroundColor: '#6c757d',
+  },
+  archiveButton: {
+    backgroundColor: '#dc3545',
+  },
+  restoreButton: {
+    backgroundColor: '#2196F3',
+  },
+  actionButtonText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#333',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  modalInput: {
+    borderWidth: 1,
+    borderColor: '#e1e5e9',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    backgroundColor: '#f8f9fa',
+    marginBottom: 24,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  modalCancelButton: {
+    backgroundColor: '#6c757d',
+  },
+  modalSaveButton: {
+    backgroundColor: '#4CAF50',
+  },
+  modalButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,390 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  StatusBar,
+  Vibration,
+  ActivityIndicator,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useDevices } from '@/hooks/useDevices';
+import { useSettings } from '@/hooks/useSettings';
+import { defaultDeviceName } from '@/lib/devices';
+import {
+  BundleFormatError,
+  BundleMergeSummary,
+  DeltaBundle,
+  createBundle,
+  getLastBundleExport,
+  importBundle,
+  markBundleExported,
+  parseBundle,
+  previewBundle,
+} from '@/lib/exchange';
+import { exportFilename, shareTextFile } from '@/lib/export';
+import { pickFile } from '@/lib/files';
+import { formatDisplayTime } from '@/lib/time';
+
+export default function ExchangeScreen() {
+  const router = useRouter();
+  const { settings, loaded, updateSettings } = useSettings();
+  const { deviceId, knownDevices } = useDevices();
+  const [deviceName, setDeviceName] = useState('');
+  const [lastExport, setLastExport] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [pending, setPending] = useState<{
+    bundle: DeltaBundle;
+    summary: BundleMergeSummary;
+  } | null>(null);
+
+  useEffect(() => {
+    if (loaded) setDeviceName(settings.deviceName ?? '');
+  }, [loaded, settings.deviceName]);
+
+  useEffect(() => {
+    getLastBundleExport()
+      .then(setLastExport)
+      .catch(error => console.error('Error loading last export:', error));
+  }, []);
+
+  const formatTime = (timestamp: string) =>
+    formatDisplayTime(timestamp, settings.displayTimeZone, settings.locale);
+
+  const saveDeviceName = async () => {
+    const name = deviceName.trim() || null;
+    if (name === settings.deviceName) return;
+    try {
+      await updateSettings({ deviceName: name });
+    } catch (error) {
+      console.error('Error saving device name:', error);
+      Alert.alert('Error', 'Failed to save the device name');
+    }
+  };
+
+  const shareBundle = async (full: boolean) => {
+    try {
+      setBusy(true);
+      await saveDeviceName();
+      const bundle = await createBundle(full);
+      if (bundle.records.length === 0 && bundle.deletions.length === 0) {
+        Alert.alert('Nothing to Share', 'No changes since the last bundle.');
+        return;
+      }
+      await shareTextFile({
+        filename: exportFilename('qr-delta', bundle.deviceName, 'json'),
+        content: JSON.stringify(bundle),
+        mimeType: 'application/json',
+        title: 'Share Device Bundle',
+      });
+      await markBundleExported(bundle);
+      setLastExport(bundle.createdAt);
+      Vibration.vibrate(200);
+    } catch (error) {
+      console.error('Bundle export error:', error);
+      Alert.alert(
+        'Export Failed',
+        'Unable to create a bundle. Please try again.'
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const chooseBundle = async () => {
+    try {
+      setBusy(true);
+      const file = await pickFile();
+      if (!file) return;
+      const bundle = parseBundle(await file.text());
+      setPending({ bundle, summary: await previewBundle(bundle) });
+    } catch (error) {
+      if (error instanceof BundleFormatError) {
+        Alert.alert('Invalid Bundle', error.message);
+      } else {
+        console.error('Error reading bundle:', error);
+        Alert.alert('Error', 'Unable to read that file. Please try again.');
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const merge = async () => {
+    if (!pending) return;
+    try {
+      setBusy(true);
+      const summary = await importBundle(pending.bundle);
+      setPending(null);
+      Vibration.vibrate(200);
+      Alert.alert(
+        'Bundle Merged',
+        `✅ ${summary.added} added\n🔁 ${summary.updated} updated\n⚠️ ${summary.duplicates} scanned on both devices\n🗑️ ${summary.deleted} deleted`
+      );
+    } catch (error) {
+      console.error('Bundle import error:', error);
+      Alert.alert('Merge Failed', 'No records were changed. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderSummaryLine = (label: string, value: number) => (
+    <Text key={label} style={styles.summaryText}>
+      {label}: {value}
+    </Text>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <LinearGradient colors={['#667eea', '#764ba2']} style={styles.gradient}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()}>
+            <Text style={styles.headerButton}>‹ Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>🔀 Device Exchange</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {pending ? (
+            <View style={styles.sectionCard}>
+              <Text style={styles.sectionTitle}>
+                From {pending.bundle.deviceName}
+              </Text>
+              <Text style={styles.sectionHint}>
+                Created {formatTime(pending.bundle.createdAt)}
+                {pending.bundle.since
+                  ? ` · changes since ${formatTime(pending.bundle.since)}`
+                  : ' · all records'}
+              </Text>
+              {renderSummaryLine('✅ New registrations', pending.summary.added)}
+              {renderSummaryLine('🔁 Updated', pending.summary.updated)}
+              {renderSummaryLine(
+                '⚠️ Scanned on both devices',
+                pending.summary.duplicates
+              )}
+              {renderSummaryLine('🗑️ Deleted', pending.summary.deleted)}
+              {renderSummaryLine(
+                '➖ Already up to date',
+                pending.summary.unchanged
+              )}
+
+              <View style={styles.buttonRow}>
+                <TouchableOpacity
+                  style={[styles.button, styles.cancelButton]}
+                  onPress={() => setPending(null)}
+                  disabled={busy}
+                >
+                  <Text style={styles.buttonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.button, styles.primaryButton]}
+                  onPress={merge}
+                  disabled={busy}
+                >
+                  {busy ? (
+                    <ActivityIndicator color="white" size="small" />
+                  ) : (
+                    <Text style={styles.buttonText}>Merge</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : (
+            <>
+              <View style={styles.sectionCard}>
+                <Text style={styles.sectionTitle}>This Device</Text>
+                <Text style={styles.sectionHint}>
+                  Other devices see this name next to codes it scanned first.
+                </Text>
+                <TextInput
+                  style={styles.input}
+                  value={deviceName}
+                  onChangeText={setDeviceName}
+                  onBlur={saveDeviceName}
+                  placeholder={
+                    deviceId ? defaultDeviceName(deviceId) : 'e.g. North Door'
+                  }
+                />
+              </View>
+
+              <View style={styles.sectionCard}>
+                <Text style={styles.sectionTitle}>Share Changes</Text>
+                <Text style={styles.sectionHint}>
+                  {lastExport
+                    ? `Last bundle shared ${formatTime(lastExport)}.`
+                    : 'No bundle shared yet.'}{' '}
+                  Send the file to the other devices, e.g. over AirDrop,
+                  Bluetooth or a messaging app.
+                </Text>
+                <View style={styles.buttonRow}>
+                  <TouchableOpacity
+                    style={[styles.button, styles.primaryButton]}
+                    onPress={() => shareBundle(false)}
+                    disabled={busy}
+                  >
+                    <Text style={styles.buttonText}>📤 New Changes</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.button, styles.cancelButton]}
+                    onPress={() => shareBundle(true)}
+                    disabled={busy}
+                  >
+                    <Text style={styles.buttonText}>Everything</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+
+              <View style={styles.sectionCard}>
+                <Text style={styles.sectionTitle}>Merge a Bundle</Text>
+                <Text style={styles.sectionHint}>
+                  Codes registered on more than one device are kept once, under
+                  the device that scanned them first, and flagged on the Records
+                  screen.
+                </Text>
+                <TouchableOpacity
+                  style={[styles.button, styles.secondaryButton]}
+                  onPress={chooseBundle}
+                  disabled={busy}
+                >
+                  <Text style={styles.buttonText}>📥 Import Bundle</Text>
+                </TouchableOpacity>
+              </View>
+
+              {knownDevices.length > 0 && (
+                <View style={styles.sectionCard}>
+                  <Text style={styles.sectionTitle}>Merged From</Text>
+                  {knownDevices.map(device => (
+                    <View key={device.id} style={styles.deviceRow}>
+                      <Text style={styles.deviceName}>{device.name}</Text>
+                      <Text style={styles.deviceMeta}>
+                        Latest bundle {formatTime(device.lastBundleAt)}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+            </>
+          )}
+        </ScrollView>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: 'white',
+  },
+  headerButton: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+  headerSpacer: {
+    width: 50,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  sectionCard: {
+    backgroundColor: 'white',
+    marginHorizontal: 16,
+    marginBottom: 16,
+    borderRadius: 20,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  sectionHint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 12,
+    lineHeight: 16,
+  },
+  summaryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e1e5e9',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    backgroundColor: '#f8f9fa',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  primaryButton: {
+    backgroundColor: '#4CAF50',
+  },
+  secondaryButton: {
+    backgroundColor: '#2196F3',
+  },
+  cancelButton: {
+    backgroundColor: '#6c757d',
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  deviceRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  deviceName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  deviceMeta: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,558 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Switch,
+  Alert,
+  StatusBar,
+  Vibration,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useEvents } from '@/hooks/useEvents';
+import { updateEventFields } from '@/lib/events';
+import {
+  FIELD_TYPES,
+  FormField,
+  FormFieldError,
+  FormFieldInput,
+  FormFieldType,
+  checkFormField,
+  createFormField,
+} from '@/lib/forms';
+
+interface FieldForm {
+  label: string;
+  type: FormFieldType;
+  required: boolean;
+  /** One choice per line. */
+  options: string;
+  pattern: string;
+  min: string;
+  max: string;
+}
+
+const EMPTY_FORM: FieldForm = {
+  label: '',
+  type: 'text',
+  required: false,
+  options: '',
+  pattern: '',
+  min: '',
+  max: '',
+};
+
+const parseBound = (text: string) => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  const number = Number(trimmed);
+  return Number.isFinite(number) ? number : null;
+};
+
+export default function FormScreen() {
+  const router = useRouter();
+  const { activeEvent } = useEvents();
+  const fields = activeEvent?.fields ?? [];
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editing, setEditing] = useState<FormField | null>(null);
+  const [form, setForm] = useState<FieldForm>(EMPTY_FORM);
+
+  const saveFields = async (updated: FormField[]) => {
+    if (!activeEvent) return false;
+    try {
+      await updateEventFields(activeEvent.id, updated);
+      Vibration.vibrate(100);
+      return true;
+    } catch (error) {
+      console.error('Error saving form fields:', error);
+      Alert.alert('Error', 'Failed to save the registration form');
+      return false;
+    }
+  };
+
+  const openModal = (field: FormField | null) => {
+    setEditing(field);
+    setForm(
+      field
+        ? {
+            label: field.label,
+            type: field.type,
+            required: field.required,
+            options: field.options.join('\n'),
+            pattern: field.pattern ?? '',
+            min: field.min === null ? '' : String(field.min),
+            max: field.max === null ? '' : String(field.max),
+          }
+        : EMPTY_FORM
+    );
+    setModalVisible(true);
+  };
+
+  const closeModal = () => {
+    setModalVisible(false);
+    setEditing(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const saveField = async () => {
+    const input: FormFieldInput = {
+      label: form.label,
+      type: form.type,
+      required: form.required,
+      options: form.options.split('\n'),
+      pattern: form.pattern,
+      min: parseBound(form.min),
+      max: parseBound(form.max),
+    };
+    let updated: FormField[];
+    try {
+      updated = editing
+        ? fields.map(field =>
+            field.id === editing.id
+              ? { ...checkFormField(input), id: field.id }
+              : field
+          )
+        : [...fields, createFormField(input)];
+    } catch (error) {
+      if (error instanceof FormFieldError) {
+        Alert.alert('Invalid Field', error.message);
+        return;
+      }
+      throw error;
+    }
+    if (await saveFields(updated)) closeModal();
+  };
+
+  const moveField = (index: number, offset: number) => {
+    const updated = [...fields];
+    const [moved] = updated.splice(index, 1);
+    updated.splice(index + offset, 0, moved);
+    saveFields(updated);
+  };
+
+  const confirmDelete = (field: FormField) => {
+    Alert.alert(
+      'Remove Field',
+      `Remove "${field.label}" from the form? Answers already given stay on the records but are no longer shown or exported.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () =>
+            saveFields(fields.filter(other => other.id !== field.id)),
+        },
+      ]
+    );
+  };
+
+  const describeField = (field: FormField) => {
+    const parts = [
+      FIELD_TYPES.find(type => type.id === field.type)?.label ?? field.type,
+      field.required ? 'Required' : 'Optional',
+    ];
+    if (field.type === 'select') parts.push(field.options.join(', '));
+    if (field.pattern) parts.push(`Matches /${field.pattern}/`);
+    if (field.min !== null) parts.push(`Min ${field.min}`);
+    if (field.max !== null) parts.push(`Max ${field.max}`);
+    return parts.join(' · ');
+  };
+
+  const renderField = (field: FormField, index: number) => (
+    <View key={field.id} style={styles.fieldCard}>
+      <Text style={styles.fieldLabel}>{field.label}</Text>
+      <Text style={styles.fieldMeta}>{describeField(field)}</Text>
+      <View style={styles.fieldActions}>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.moveButton]}
+          onPress={() => moveField(index, -1)}
+          disabled={index === 0}
+        >
+          <Text style={styles.actionButtonText}>↑</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.moveButton]}
+          onPress={() => moveField(index, 1)}
+          disabled={index === fields.length - 1}
+        >
+          <Text style={styles.actionButtonText}>↓</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.editButton]}
+          onPress={() => openModal(field)}
+        >
+          <Text style={styles.actionButtonText}>✏️ Edit</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.deleteButton]}
+          onPress={() => confirmDelete(field)}
+        >
+          <Text style={styles.actionButtonText}>🗑️ Remove</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <LinearGradient colors={['#667eea', '#764ba2']} style={styles.gradient}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()}>
+            <Text style={styles.headerButton}>‹ Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>📝 Registration Form</Text>
+          <TouchableOpacity onPress={() => openModal(null)}>
+            <Text style={styles.headerButton}>＋ New</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.sectionCard}>
+            <Text style={styles.sectionTitle}>{activeEvent?.name}</Text>
+            <Text style={styles.sectionHint}>
+              The Scanner always asks for a name. Fields added here are asked
+              after it, in this order, and exported as extra columns.
+            </Text>
+            {fields.length === 0 ? (
+              <Text style={styles.emptyText}>
+                No custom fields. Tap ＋ New to add one.
+              </Text>
+            ) : (
+              fields.map(renderField)
+            )}
+          </View>
+        </ScrollView>
+
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={modalVisible}
+          onRequestClose={closeModal}
+        >
+          <View style={styles.modalOverlay}>
+            <ScrollView
+              style={styles.modalScroll}
+              contentContainerStyle={styles.modalScrollContent}
+            >
+              <View style={styles.modalContent}>
+                <Text style={styles.modalTitle}>
+                  {editing ? 'Edit Field' : 'New Field'}
+                </Text>
+                <TextInput
+                  style={styles.modalInput}
+                  value={form.label}
+                  onChangeText={label => setForm({ ...form, label })}
+                  placeholder="Label, e.g. Organization"
+                  autoFocus
+                />
+                <View style={styles.typeChips}>
+                  {FIELD_TYPES.map(type => {
+                    const selected = form.type === type.id;
+                    return (
+                      <TouchableOpacity
+                        key={type.id}
+                        style={[styles.chip, selected && styles.chipSelected]}
+                        onPress={() => setForm({ ...form, type: type.id })}
+                      >
+                        <Text
+                          style={[
+                            styles.chipText,
+                            selected && styles.chipTextSelected,
+                          ]}
+                        >
+                          {type.label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                {form.type === 'select' && (
+                  <TextInput
+                    style={[styles.modalInput, styles.optionsInput]}
+                    value={form.options}
+                    onChangeText={options => setForm({ ...form, options })}
+                    placeholder={'One choice per line, e.g.\nStandard\nVIP'}
+                    multiline
+                  />
+                )}
+                {form.type === 'text' && (
+                  <TextInput
+                    style={[styles.modalInput, styles.patternInput]}
+                    value={form.pattern}
+                    onChangeText={pattern => setForm({ ...form, pattern })}
+                    placeholder="Pattern (optional), e.g. ^[A-Z]{3}\d+$"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                )}
+                {form.type === 'number' && (
+                  <View style={styles.boundsRow}>
+                    <TextInput
+                      style={[styles.modalInput, styles.boundInput]}
+                      value={form.min}
+                      onChangeText={min => setForm({ ...form, min })}
+                      placeholder="Min"
+                      keyboardType="numeric"
+                    />
+                    <TextInput
+                      style={[styles.modalInput, styles.boundInput]}
+                      value={form.max}
+                      onChangeText={max => setForm({ ...form, max })}
+                      placeholder="Max"
+                      keyboardType="numeric"
+                    />
+                  </View>
+                )}
+                <View style={styles.switchRow}>
+                  <Text style={styles.switchLabel}>
+                    {form.type === 'checkbox' ? 'Must be ticked' : 'Required'}
+                  </Text>
+                  <Switch
+                    value={form.required}
+                    onValueChange={required => setForm({ ...form, required })}
+                    trackColor={{ true: '#4CAF50', false: '#ccc' }}
+                  />
+                </View>
+                <View style={styles.modalButtons}>
+                  <TouchableOpacity
+                    style={[styles.modalButton, styles.modalCancelButton]}
+                    onPress={closeModal}
+                  >
+                    <Text style={styles.modalButtonText}>Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.modalButton, styles.modalSaveButton]}
+                    onPress={saveField}
+                    disabled={!form.label.trim()}
+                  >
+                    <Text style={styles.modalButtonText}>
+                      {editing ? 'Save' : 'Add'}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            </ScrollView>
+          </View>
+        </Modal>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: 'white',
+  },
+  headerButton: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  sectionCard: {
+    backgroundColor: 'white',
+    marginHorizontal: 16,
+    marginBottom: 16,
+    borderRadius: 20,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  sectionHint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 12,
+    lineHeight: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#888',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  fieldCard: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+  },
+  fieldLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  fieldMeta: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+    marginBottom: 12,
+  },
+  fieldActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  moveButton: {
+    flex: 0,
+    backgroundColor: '#2196F3',
+  },
+  editButton: {
+    backgroundColor: '#6c757d',
+  },
+  deleteButton: {
+    backgroundColor: '#dc3545',
+  },
+  actionButtonText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalScroll: {
+    flex: 1,
+  },
+  modalScrollContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#333',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  modalInput: {
+    borderWidth: 1,
+    borderColor: '#e1e5e9',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    backgroundColor: '#f8f9fa',
+    marginBottom: 12,
+  },
+  optionsInput: {
+    minHeight: 96,
+    textAlignVertical: 'top',
+  },
+  patternInput: {
+    fontFamily: 'monospace',
+    fontSize: 14,
+  },
+  boundsRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  boundInput: {
+    flex: 1,
+  },
+  typeChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    backgroundColor: '#f8f9fa',
+  },
+  chipSelected: {
+    borderColor: '#4CAF50',
+    backgroundColor: '#e8f5e9',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+  },
+  chipTextSelected: {
+    color: '#2e7d32',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  switchLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  modalCancelButton: {
+    backgroundColor: '#6c757d',
+  },
+  modalSaveButton: {
+    backgroundColor: '#4CAF50',
+  },
+  modalButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,346 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  StatusBar,
+  Vibration,
+  ActivityIndicator,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useEvents } from '@/hooks/useEvents';
+import { useGuests } from '@/hooks/useGuests';
+import { pickFile } from '@/lib/files';
+import {
+  GuestListFormatError,
+  GuestListIssue,
+  GuestListParseResult,
+  clearGuestList,
+  parseGuestList,
+  replaceGuestList,
+} from '@/lib/guests';
+
+// Long reports are truncated; the counts always cover every row
+const MAX_LISTED_ISSUES = 20;
+const MAX_LISTED_GUESTS = 100;
+
+export default function GuestsScreen() {
+  const router = useRouter();
+  const { activeEvent } = useEvents();
+  const { guests, loading } = useGuests(activeEvent?.id ?? null);
+  const [preview, setPreview] = useState<
+    (GuestListParseResult & { filename: string }) | null
+  >(null);
+  const [busy, setBusy] = useState(false);
+
+  const chooseFile = async () => {
+    try {
+      setBusy(true);
+      const file = await pickFile();
+      if (!file) return;
+      const result = parseGuestList(await file.text());
+      setPreview({ ...result, filename: file.name });
+    } catch (error) {
+      if (error instanceof GuestListFormatError) {
+        Alert.alert('Invalid Guest List', error.message);
+      } else {
+        console.error('Error reading guest list:', error);
+        Alert.alert('Error', 'Unable to read that file. Please try again.');
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmImport = async () => {
+    if (!preview || !activeEvent) return;
+    try {
+      setBusy(true);
+      await replaceGuestList(activeEvent.id, preview.guests);
+      setPreview(null);
+      Vibration.vibrate(200);
+    } catch (error) {
+      console.error('Error importing guest list:', error);
+      Alert.alert('Error', 'Failed to import the guest list');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmClear = () => {
+    if (!activeEvent) return;
+    Alert.alert(
+      'Clear Guest List',
+      `Remove all ${guests.length} guests from "${activeEvent.name}"? Registrations are not affected.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await clearGuestList(activeEvent.id);
+              Vibration.vibrate(100);
+            } catch (error) {
+              console.error('Error clearing guest list:', error);
+              Alert.alert('Error', 'Failed to clear the guest list');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderIssues = (title: string, issues: GuestListIssue[]) =>
+    issues.length > 0 && (
+      <View style={styles.issueGroup}>
+        <Text style={styles.issueTitle}>
+          {title} ({issues.length})
+        </Text>
+        {issues.slice(0, MAX_LISTED_ISSUES).map(issue => (
+          <Text key={`${title}-${issue.line}`} style={styles.issueText}>
+            Line {issue.line}: {issue.message}
+          </Text>
+        ))}
+        {issues.length > MAX_LISTED_ISSUES && (
+          <Text style={styles.issueText}>
+            …and {issues.length - MAX_LISTED_ISSUES} more
+          </Text>
+        )}
+      </View>
+    );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <LinearGradient colors={['#667eea', '#764ba2']} style={styles.gradient}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()}>
+            <Text style={styles.headerButton}>‹ Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>👥 Guest List</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.sectionCard}>
+            <Text style={styles.sectionTitle}>{activeEvent?.name}</Text>
+            {loading ? (
+              <ActivityIndicator color="#4CAF50" />
+            ) : (
+              <Text style={styles.sectionHint}>
+                {guests.length === 0
+                  ? 'No guest list imported. Scans are not checked against a list.'
+                  : `${guests.length} expected guests. Scans auto-fill names and flag unknown codes.`}
+              </Text>
+            )}
+            <Text style={styles.sectionHint}>
+              Import a CSV with a header row containing "qrcode" and "name"
+              columns. Other columns are kept as extra details.
+            </Text>
+
+            <View style={styles.buttonRow}>
+              <TouchableOpacity
+                style={[styles.button, styles.importButton]}
+                onPress={chooseFile}
+                disabled={busy}
+              >
+                <Text style={styles.buttonText}>📥 Import CSV</Text>
+              </TouchableOpacity>
+              {guests.length > 0 && (
+                <TouchableOpacity
+                  style={[styles.button, styles.clearButton]}
+                  onPress={confirmClear}
+                  disabled={busy}
+                >
+                  <Text style={styles.buttonText}>🗑️ Clear</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+
+          {preview && (
+            <View style={styles.sectionCard}>
+              <Text style={styles.sectionTitle}>Preview</Text>
+              <Text style={styles.sectionHint}>{preview.filename}</Text>
+              <Text style={styles.summaryText}>
+                ✅ {preview.guests.length} guests ready to import
+              </Text>
+              {renderIssues('⚠️ Malformed rows (skipped)', preview.errors)}
+              {renderIssues('🔁 Duplicate codes (skipped)', preview.duplicates)}
+
+              <View style={styles.buttonRow}>
+                <TouchableOpacity
+                  style={[styles.button, styles.cancelButton]}
+                  onPress={() => setPreview(null)}
+                  disabled={busy}
+                >
+                  <Text style={styles.buttonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[
+                    styles.button,
+                    styles.importButton,
+                    preview.guests.length === 0 && styles.buttonDisabled,
+                  ]}
+                  onPress={confirmImport}
+                  disabled={busy || preview.guests.length === 0}
+                >
+                  {busy ? (
+                    <ActivityIndicator color="white" size="small" />
+                  ) : (
+                    <Text style={styles.buttonText}>
+                      {guests.length > 0 ? 'Replace List' : 'Import'}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          {!preview && guests.length > 0 && (
+            <View style={styles.sectionCard}>
+              <Text style={styles.sectionTitle}>Guests</Text>
+              {guests.slice(0, MAX_LISTED_GUESTS).map(guest => (
+                <View key={guest.qrcode} style={styles.guestRow}>
+                  <Text style={styles.guestName}>{guest.name}</Text>
+                  <Text style={styles.guestCode}>{guest.qrcode}</Text>
+                </View>
+              ))}
+              {guests.length > MAX_LISTED_GUESTS && (
+                <Text style={styles.issueText}>
+                  …and {guests.length - MAX_LISTED_GUESTS} more
+                </Text>
+              )}
+            </View>
+          )}
+        </ScrollView>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: 'white',
+  },
+  headerButton: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+  headerSpacer: {
+    width: 50,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  sectionCard: {
+    backgroundColor: 'white',
+    marginHorizontal: 16,
+    marginBottom: 16,
+    borderRadius: 20,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  sectionHint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 12,
+    lineHeight: 16,
+  },
+  summaryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  issueGroup: {
+    backgroundColor: '#fff8e1',
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 12,
+  },
+  issueTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#e65100',
+    marginBottom: 6,
+  },
+  issueText: {
+    fontSize: 12,
+    color: '#666',
+    lineHeight: 18,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  importButton: {
+    backgroundColor: '#4CAF50',
+  },
+  clearButton: {
+    backgroundColor: '#dc3545',
+  },
+  cancelButton: {
+    backgroundColor: '#6c757d',
+  },
+  buttonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  guestRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  guestName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  guestCode: {
+    fontFamily: 'monospace',
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+});
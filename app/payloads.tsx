@@ -0,0 +1,473 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Alert,
+  StatusBar,
+  Vibration,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useSettings } from '@/hooks/useSettings';
+import {
+  PAYLOAD_FORMAT_LABELS,
+  PayloadPattern,
+  PayloadPatternInput,
+  checkPayloadPattern,
+  createPayloadPattern,
+  parsePayload,
+} from '@/lib/payloads';
+
+const EMPTY_FORM: PayloadPatternInput = { name: '', pattern: '' };
+
+const BUILT_IN_FORMATS = [
+  'vCard and MECARD contacts: UID, else email or phone, is the code',
+  'JSON tickets: "id", "ticketId", "ticket" or "code" is the code',
+  'Links: an id-like query parameter, else the last path segment if nothing else varies, else the whole link',
+  'Anything else is registered exactly as scanned',
+];
+
+export default function PayloadsScreen() {
+  const router = useRouter();
+  const { settings, updateSettings } = useSettings();
+  const patterns = settings.payloadPatterns;
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editing, setEditing] = useState<PayloadPattern | null>(null);
+  const [form, setForm] = useState<PayloadPatternInput>(EMPTY_FORM);
+  const [sample, setSample] = useState('');
+
+  const parsedSample = useMemo(
+    () => (sample.trim() ? parsePayload(sample, patterns) : null),
+    [sample, patterns]
+  );
+
+  const savePatterns = async (payloadPatterns: PayloadPattern[]) => {
+    try {
+      await updateSettings({ payloadPatterns });
+      Vibration.vibrate(100);
+    } catch (error) {
+      console.error('Error saving patterns:', error);
+      Alert.alert('Error', 'Failed to save settings');
+    }
+  };
+
+  const openModal = (pattern: PayloadPattern | null) => {
+    setEditing(pattern);
+    setForm(
+      pattern ? { name: pattern.name, pattern: pattern.pattern } : EMPTY_FORM
+    );
+    setModalVisible(true);
+  };
+
+  const closeModal = () => {
+    setModalVisible(false);
+    setEditing(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const savePattern = async () => {
+    let updated: PayloadPattern[];
+    try {
+      updated = editing
+        ? patterns.map(pattern =>
+            pattern.id === editing.id
+              ? { ...pattern, ...checkPayloadPattern(form) }
+              : pattern
+          )
+        : [...patterns, createPayloadPattern(form)];
+    } catch (error) {
+      Alert.alert(
+        'Invalid Pattern',
+        error instanceof Error ? error.message : 'Check the pattern'
+      );
+      return;
+    }
+    await savePatterns(updated);
+    closeModal();
+  };
+
+  const confirmDelete = (pattern: PayloadPattern) => {
+    Alert.alert('Delete Pattern', `Stop recognizing "${pattern.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () =>
+          savePatterns(patterns.filter(other => other.id !== pattern.id)),
+      },
+    ]);
+  };
+
+  const move = (index: number, offset: number) => {
+    const reordered = [...patterns];
+    const [pattern] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, pattern);
+    savePatterns(reordered);
+  };
+
+  const renderPattern = (pattern: PayloadPattern, index: number) => (
+    <View key={pattern.id} style={styles.patternCard}>
+      <View style={styles.patternHeader}>
+        <Text style={styles.patternName} numberOfLines={1}>
+          {pattern.name}
+        </Text>
+        <TouchableOpacity
+          onPress={() => move(index, -1)}
+          disabled={index === 0}
+        >
+          <Text style={[styles.moveText, index === 0 && styles.moveDisabled]}>
+            ↑
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => move(index, 1)}
+          disabled={index === patterns.length - 1}
+        >
+          <Text
+            style={[
+              styles.moveText,
+              index === patterns.length - 1 && styles.moveDisabled,
+            ]}
+          >
+            ↓
+          </Text>
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.patternText}>{pattern.pattern}</Text>
+      <View style={styles.patternActions}>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.editButton]}
+          onPress={() => openModal(pattern)}
+        >
+          <Text style={styles.actionButtonText}>✏️ Edit</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.deleteButton]}
+          onPress={() => confirmDelete(pattern)}
+        >
+          <Text style={styles.actionButtonText}>🗑️ Delete</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <LinearGradient colors={['#667eea', '#764ba2']} style={styles.gradient}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()}>
+            <Text style={styles.headerButton}>‹ Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>🧩 Scan Formats</Text>
+          <TouchableOpacity onPress={() => openModal(null)}>
+            <Text style={styles.headerButton}>＋ New</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.sectionCard}>
+            <Text style={styles.sectionTitle}>Custom Patterns</Text>
+            <Text style={styles.sectionHint}>
+              Regular expressions for your own codes, tried in order before the
+              built-in formats. Name a group (?&lt;id&gt;…) for the code and
+              (?&lt;name&gt;…) for the person; other named groups fill form
+              fields with the same label.
+            </Text>
+            {patterns.length === 0 ? (
+              <Text style={styles.emptyText}>
+                No custom patterns. Tap ＋ New to add one.
+              </Text>
+            ) : (
+              patterns.map(renderPattern)
+            )}
+          </View>
+
+          <View style={styles.sectionCard}>
+            <Text style={styles.sectionTitle}>Built-in Formats</Text>
+            {BUILT_IN_FORMATS.map(format => (
+              <Text key={format} style={styles.formatText}>
+                • {format}
+              </Text>
+            ))}
+          </View>
+
+          <View style={styles.sectionCard}>
+            <Text style={styles.sectionTitle}>Try It</Text>
+            <Text style={styles.sectionHint}>
+              Paste the contents of a code to see what a scan would register.
+            </Text>
+            <TextInput
+              style={[styles.modalInput, styles.sampleInput]}
+              value={sample}
+              onChangeText={setSample}
+              placeholder="e.g. BEGIN:VCARD…"
+              autoCapitalize="none"
+              autoCorrect={false}
+              multiline
+            />
+            {parsedSample && (
+              <View style={styles.result}>
+                <Text style={styles.resultText}>
+                  🧩 {PAYLOAD_FORMAT_LABELS[parsedSample.format]}
+                  {parsedSample.patternName && ` "${parsedSample.patternName}"`}
+                </Text>
+                <Text style={styles.resultText}>🔗 {parsedSample.id}</Text>
+                {parsedSample.name && (
+                  <Text style={styles.resultText}>👤 {parsedSample.name}</Text>
+                )}
+                {Object.entries(parsedSample.details).map(([key, value]) => (
+                  <Text key={key} style={styles.resultText}>
+                    📝 {key}: {value}
+                  </Text>
+                ))}
+              </View>
+            )}
+          </View>
+        </ScrollView>
+
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={modalVisible}
+          onRequestClose={closeModal}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContent}>
+              <Text style={styles.modalTitle}>
+                {editing ? 'Edit Pattern' : 'New Pattern'}
+              </Text>
+              <TextInput
+                style={styles.modalInput}
+                value={form.name}
+                onChangeText={name => setForm({ ...form, name })}
+                placeholder="Name, e.g. Ticket IDs"
+              />
+              <TextInput
+                style={[styles.modalInput, styles.patternInput]}
+                value={form.pattern}
+                onChangeText={pattern => setForm({ ...form, pattern })}
+                placeholder="^TKT-(?<id>\d{6})$"
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <View style={styles.modalButtons}>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.modalCancelButton]}
+                  onPress={closeModal}
+                >
+                  <Text style={styles.modalButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.modalSaveButton]}
+                  onPress={savePattern}
+                  disabled={!form.pattern.trim()}
+                >
+                  <Text style={styles.modalButtonText}>
+                    {editing ? 'Save' : 'Add'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </Modal>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: 'white',
+  },
+  headerButton: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  sectionCard: {
+    backgroundColor: 'white',
+    marginHorizontal: 16,
+    marginBottom: 16,
+    borderRadius: 20,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  sectionHint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 12,
+    lineHeight: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#888',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  formatText: {
+    fontSize: 13,
+    color: '#555',
+    lineHeight: 20,
+  },
+  patternCard: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+  },
+  patternHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  patternName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  moveText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#667eea',
+  },
+  moveDisabled: {
+    color: '#ccc',
+  },
+  patternText: {
+    fontFamily: 'monospace',
+    fontSize: 12,
+    color: '#888',
+    marginTop: 4,
+  },
+  patternActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  editButton: {
+    backgroundColor: '#6c757d',
+  },
+  deleteButton: {
+    backgroundColor: '#dc3545',
+  },
+  actionButtonText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  sampleInput: {
+    fontFamily: 'monospace',
+    fontSize: 12,
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  result: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    padding: 12,
+  },
+  resultText: {
+    fontSize: 13,
+    color: '#555',
+    lineHeight: 20,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#333',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  modalInput: {
+    borderWidth: 1,
+    borderColor: '#e1e5e9',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    backgroundColor: '#f8f9fa',
+    marginBottom: 12,
+  },
+  patternInput: {
+    fontFamily: 'monospace',
+    fontSize: 12,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  modalCancelButton: {
+    backgroundColor: '#6c757d',
+  },
+  modalSaveButton: {
+    backgroundColor: '#4CAF50',
+  },
+  modalButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
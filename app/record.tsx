@@ -0,0 +1,349 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  StatusBar,
+  Vibration,
+  ActivityIndicator,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useAuditLog } from '@/hooks/useAuditLog';
+import { useDevices } from '@/hooks/useDevices';
+import { useEvents } from '@/hooks/useEvents';
+import { useSettings } from '@/hooks/useSettings';
+import { AuditAction, AuditEntry, formatAuditValue } from '@/lib/audit';
+import { auditToCSV, exportFilename, shareTextFile } from '@/lib/export';
+import { CAPTURE_METHOD_LABELS, SYMBOLOGY_LABELS } from '@/lib/barcodes';
+import { formatFieldValue } from '@/lib/forms';
+import { QRRecord, getRecord, subscribeToRecords } from '@/lib/records';
+import { formatDisplayTime } from '@/lib/time';
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  created: '🆕 Registered',
+  updated: '✏️ Edited',
+  deleted: '🗑️ Deleted',
+  restored: '↩️ Restored',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  timestamp: 'Registered',
+  timezone: 'Time zone',
+  onSite: 'On site',
+  lastSeenAt: 'Last seen',
+  tags: 'Tags',
+  duplicateScans: 'Duplicate scans',
+  fields: 'Form answers',
+  payload: 'Scanned code',
+  barcodeType: 'Barcode type',
+  capturedBy: 'Captured by',
+};
+
+const SOURCE_LABELS: Record<AuditEntry['source'], string | null> = {
+  app: null,
+  import: 'via import',
+  sync: 'via sync',
+  exchange: 'via device exchange',
+  backup: 'via backup restore',
+};
+
+export default function RecordScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ eventId: string; qrcode: string }>();
+  const eventId = params.eventId ?? null;
+  const qrcode = params.qrcode ?? null;
+  const { settings } = useSettings();
+  const { nameOf } = useDevices();
+  const { events } = useEvents();
+  const formFields = events.find(event => event.id === eventId)?.fields ?? [];
+  const { entries, loading } = useAuditLog(eventId, qrcode);
+  const [record, setRecord] = useState<QRRecord | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (!eventId || !qrcode) return;
+    const load = () =>
+      getRecord(eventId, qrcode)
+        .then(setRecord)
+        .catch(error => console.error('Error loading record:', error));
+    load();
+    return subscribeToRecords(change => {
+      if (
+        change.record.eventId === eventId &&
+        change.record.qrcode === qrcode
+      ) {
+        load();
+      }
+    });
+  }, [eventId, qrcode]);
+
+  const formatTime = (timestamp: string) =>
+    formatDisplayTime(timestamp, settings.displayTimeZone, settings.locale);
+
+  const exportHistory = async () => {
+    if (!qrcode || entries.length === 0) return;
+    try {
+      setExporting(true);
+      await shareTextFile({
+        filename: exportFilename('qr-history', qrcode, 'csv'),
+        content: auditToCSV(
+          entries,
+          record ? [record] : [],
+          settings.displayTimeZone
+        ),
+        mimeType: 'text/csv',
+        title: `Export History of ${record?.name ?? qrcode}`,
+      });
+      Vibration.vibrate(200);
+    } catch (error) {
+      console.error('Export error:', error);
+      Alert.alert('Export Failed', 'Unable to export data. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const renderEntry = (entry: AuditEntry) => {
+    // Registrations, deletions and restores list every field; the name is
+    // enough to tell them apart
+    const changes =
+      entry.action === 'updated'
+        ? entry.changes
+        : entry.changes.filter(change => change.field === 'name');
+    const source = SOURCE_LABELS[entry.source];
+    return (
+      <View key={entry.id} style={styles.entry}>
+        <Text style={styles.entryAction}>{ACTION_LABELS[entry.action]}</Text>
+        <Text style={styles.entryMeta}>
+          {formatTime(entry.timestamp)} ·{' '}
+          {entry.operator ?? nameOf(entry.deviceId)}
+          {source && ` · ${source}`}
+        </Text>
+        {changes.map(change => (
+          <Text key={change.field} style={styles.entryChange}>
+            {FIELD_LABELS[change.field] ?? change.field}:{' '}
+            {entry.action === 'updated'
+              ? `${formatAuditValue(change.from) || '—'} → ${formatAuditValue(change.to) || '—'}`
+              : formatAuditValue(change.to ?? change.from)}
+          </Text>
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <LinearGradient colors={['#667eea', '#764ba2']} style={styles.gradient}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()}>
+            <Text style={styles.headerButton}>‹ Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>🧾 Record</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.sectionCard}>
+            <Text style={styles.sectionTitle}>
+              {record?.name ?? 'Deleted record'}
+            </Text>
+            <View style={styles.codeContainer}>
+              <Text style={styles.codeText}>{qrcode}</Text>
+            </View>
+            {record ? (
+              <>
+                <Text style={styles.detailText}>
+                  📅 {formatTime(record.timestamp)}
+                </Text>
+                {record.barcodeType && (
+                  <Text style={styles.detailText}>
+                    ▦ {SYMBOLOGY_LABELS[record.barcodeType]}
+                  </Text>
+                )}
+                {record.capturedBy && (
+                  <Text style={styles.detailText}>
+                    📥 Captured by {CAPTURE_METHOD_LABELS[record.capturedBy]}
+                  </Text>
+                )}
+                {record.deviceId && (
+                  <Text style={styles.detailText}>
+                    📱 Registered on {nameOf(record.deviceId)}
+                  </Text>
+                )}
+                {formFields
+                  .filter(field => record.fields?.[field.id] !== undefined)
+                  .map(field => (
+                    <Text key={field.id} style={styles.detailText}>
+                      📝 {field.label}:{' '}
+                      {formatFieldValue(field, record.fields?.[field.id])}
+                    </Text>
+                  ))}
+                {record.payload && (
+                  <View style={styles.codeContainer}>
+                    <Text style={styles.codeText}>{record.payload}</Text>
+                  </View>
+                )}
+                {record.tags && record.tags.length > 0 && (
+                  <Text style={styles.detailText}>
+                    🏷️ {record.tags.join(' · ')}
+                  </Text>
+                )}
+                {record.onSite !== undefined && (
+                  <Text style={styles.detailText}>
+                    {record.onSite ? '🟢 On site' : '⚪ Away'}
+                  </Text>
+                )}
+              </>
+            ) : (
+              <Text style={styles.sectionHint}>
+                This record is no longer registered. Its history is kept below.
+              </Text>
+            )}
+          </View>
+
+          <View style={styles.sectionCard}>
+            <Text style={styles.sectionTitle}>History</Text>
+            <Text style={styles.sectionHint}>
+              Every change made to this record, newest first.
+            </Text>
+            {loading ? (
+              <ActivityIndicator color="#4CAF50" />
+            ) : entries.length === 0 ? (
+              <Text style={styles.sectionHint}>
+                No changes recorded. Changes made before history was kept aren't
+                listed.
+              </Text>
+            ) : (
+              <>
+                {[...entries].reverse().map(renderEntry)}
+                <TouchableOpacity
+                  style={styles.button}
+                  onPress={exportHistory}
+                  disabled={exporting}
+                >
+                  {exporting ? (
+                    <ActivityIndicator color="white" size="small" />
+                  ) : (
+                    <Text style={styles.buttonText}>📊 Export History CSV</Text>
+                  )}
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </ScrollView>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: 'white',
+  },
+  headerButton: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+  headerSpacer: {
+    width: 50,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  sectionCard: {
+    backgroundColor: 'white',
+    marginHorizontal: 16,
+    marginBottom: 16,
+    borderRadius: 20,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  sectionHint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 12,
+    lineHeight: 16,
+  },
+  codeContainer: {
+    backgroundColor: '#f8f9fa',
+    padding: 8,
+    borderRadius: 6,
+    marginBottom: 8,
+  },
+  codeText: {
+    fontFamily: 'monospace',
+    fontSize: 12,
+    color: '#666',
+    lineHeight: 16,
+  },
+  detailText: {
+    fontSize: 13,
+    color: '#555',
+    lineHeight: 20,
+  },
+  entry: {
+    borderLeftWidth: 3,
+    borderLeftColor: '#667eea',
+    paddingLeft: 12,
+    paddingVertical: 4,
+    marginBottom: 12,
+  },
+  entryAction: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  entryChange: {
+    fontSize: 12,
+    color: '#555',
+    marginTop: 2,
+  },
+  button: {
+    backgroundColor: '#4CAF50',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,292 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  StatusBar,
+  Vibration,
+  ActivityIndicator,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useSettings } from '@/hooks/useSettings';
+import { useSyncState } from '@/hooks/useSync';
+import { SyncState, configureSync, syncNow } from '@/lib/sync';
+import { formatDisplayTime } from '@/lib/time';
+
+const STATUS_LABELS: Record<SyncState['status'], string> = {
+  disabled: '⚪ Sync is off',
+  idle: '🟢 Up to date',
+  syncing: '🔄 Syncing…',
+  offline: '📴 Offline, will sync when connected',
+  error: '🔴 Last sync failed, retrying',
+};
+
+export default function SyncScreen() {
+  const router = useRouter();
+  const { settings, loaded } = useSettings();
+  const syncState = useSyncState();
+  const [serverUrl, setServerUrl] = useState('');
+  const [token, setToken] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!loaded) return;
+    setServerUrl(settings.syncServerUrl ?? '');
+    setToken(settings.syncToken ?? '');
+  }, [loaded, settings.syncServerUrl, settings.syncToken]);
+
+  const save = async (url: string | null, apiToken: string | null) => {
+    try {
+      setSaving(true);
+      await configureSync(url, apiToken);
+      Vibration.vibrate(100);
+    } catch (error) {
+      console.error('Error configuring sync:', error);
+      Alert.alert('Error', 'Failed to save sync settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const connect = () => {
+    if (!/^https?:\/\/\S+$/.test(serverUrl.trim())) {
+      Alert.alert(
+        'Invalid URL',
+        'Enter a URL starting with http:// or https://'
+      );
+      return;
+    }
+    save(serverUrl, token);
+  };
+
+  const disconnect = () => {
+    Alert.alert(
+      'Turn Off Sync',
+      'Records stay on this device. Changes made while sync is off are uploaded if you connect again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Turn Off',
+          style: 'destructive',
+          onPress: () => save(null, null),
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <LinearGradient colors={['#667eea', '#764ba2']} style={styles.gradient}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()}>
+            <Text style={styles.headerButton}>‹ Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>☁️ Sync</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={styles.sectionCard}>
+            <Text style={styles.sectionTitle}>
+              {STATUS_LABELS[syncState.status]}
+            </Text>
+            {settings.syncServerUrl && (
+              <>
+                <Text style={styles.sectionHint}>
+                  {syncState.pending} change
+                  {syncState.pending === 1 ? '' : 's'} waiting to upload
+                  {syncState.lastSyncedAt &&
+                    ` · last synced ${formatDisplayTime(
+                      syncState.lastSyncedAt,
+                      settings.displayTimeZone,
+                      settings.locale
+                    )}`}
+                </Text>
+                {syncState.lastError && (
+                  <Text style={styles.errorText}>{syncState.lastError}</Text>
+                )}
+                <TouchableOpacity
+                  style={[styles.button, styles.secondaryButton]}
+                  onPress={() => syncNow()}
+                  disabled={syncState.status === 'syncing'}
+                >
+                  {syncState.status === 'syncing' ? (
+                    <ActivityIndicator color="white" size="small" />
+                  ) : (
+                    <Text style={styles.buttonText}>🔄 Sync Now</Text>
+                  )}
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+
+          <View style={styles.sectionCard}>
+            <Text style={styles.sectionTitle}>Server</Text>
+            <Text style={styles.sectionHint}>
+              Registrations are saved on this device first and uploaded when a
+              connection is available. If the same code is edited on two
+              devices, the most recent change wins. For testing, run{' '}
+              <Text style={styles.code}>npm run sync:mock</Text> and enter this
+              computer's address, e.g. http://192.168.1.10:4000.
+            </Text>
+
+            <Text style={styles.label}>Server URL</Text>
+            <TextInput
+              style={styles.input}
+              value={serverUrl}
+              onChangeText={setServerUrl}
+              placeholder="https://sync.example.com/api"
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+            <Text style={styles.label}>API Token</Text>
+            <TextInput
+              style={styles.input}
+              value={token}
+              onChangeText={setToken}
+              placeholder="Optional"
+              autoCapitalize="none"
+              autoCorrect={false}
+              secureTextEntry
+            />
+
+            <View style={styles.buttonRow}>
+              {settings.syncServerUrl && (
+                <TouchableOpacity
+                  style={[styles.button, styles.dangerButton]}
+                  onPress={disconnect}
+                  disabled={saving}
+                >
+                  <Text style={styles.buttonText}>Turn Off</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                style={[styles.button, styles.primaryButton]}
+                onPress={connect}
+                disabled={saving || !serverUrl.trim()}
+              >
+                {saving ? (
+                  <ActivityIndicator color="white" size="small" />
+                ) : (
+                  <Text style={styles.buttonText}>
+                    {settings.syncServerUrl ? 'Save' : 'Connect'}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </ScrollView>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: 'white',
+  },
+  headerButton: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+  headerSpacer: {
+    width: 50,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  sectionCard: {
+    backgroundColor: 'white',
+    marginHorizontal: 16,
+    marginBottom: 16,
+    borderRadius: 20,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  sectionHint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 12,
+    lineHeight: 16,
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#dc3545',
+    marginBottom: 12,
+  },
+  code: {
+    fontFamily: 'monospace',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e1e5e9',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    backgroundColor: '#f8f9fa',
+    marginBottom: 16,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  primaryButton: {
+    backgroundColor: '#4CAF50',
+  },
+  secondaryButton: {
+    backgroundColor: '#2196F3',
+  },
+  dangerButton: {
+    backgroundColor: '#dc3545',
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,556 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Switch,
+  Alert,
+  StatusBar,
+  Vibration,
+  ActivityIndicator,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useEvents } from '@/hooks/useEvents';
+import { useRejectedScans } from '@/hooks/useRejectedScans';
+import { useSettings } from '@/hooks/useSettings';
+import { AppSettings } from '@/lib/settings';
+import {
+  KEY_TYPE_LABELS,
+  RejectedScan,
+  TicketKey,
+  TicketKeyInput,
+  TicketKeyType,
+  clearRejectedScans,
+  createTicketKey,
+} from '@/lib/tickets';
+import { formatDisplayTime } from '@/lib/time';
+
+const KEY_TYPES: { id: TicketKeyType; label: string }[] = [
+  { id: 'ed25519', label: '🔑 Ed25519 public key' },
+  { id: 'hmac', label: '🤝 HMAC shared secret' },
+];
+
+// The log keeps more than this; only the newest are listed
+const MAX_LISTED_REJECTIONS = 50;
+
+const EMPTY_FORM: TicketKeyInput = { name: '', type: 'ed25519', key: '' };
+
+export default function TicketsScreen() {
+  const router = useRouter();
+  const { activeEvent } = useEvents();
+  const { settings, updateSettings } = useSettings();
+  const { rejectedScans, loading } = useRejectedScans(activeEvent?.id ?? null);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [form, setForm] = useState<TicketKeyInput>(EMPTY_FORM);
+
+  const save = async (changes: Partial<AppSettings>) => {
+    try {
+      await updateSettings(changes);
+      Vibration.vibrate(100);
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      Alert.alert('Error', 'Failed to save settings');
+    }
+  };
+
+  const toggleVerification = (ticketVerification: boolean) => {
+    if (ticketVerification && settings.ticketKeys.length === 0) {
+      Alert.alert(
+        'No Keys',
+        'Add the key your tickets are signed with first, or every scan will be rejected.'
+      );
+      return;
+    }
+    save({ ticketVerification });
+  };
+
+  const closeModal = () => {
+    setModalVisible(false);
+    setForm(EMPTY_FORM);
+  };
+
+  const saveKey = async () => {
+    let key: TicketKey;
+    try {
+      key = createTicketKey(form);
+    } catch (error) {
+      Alert.alert(
+        'Invalid Key',
+        error instanceof Error ? error.message : 'Check the key'
+      );
+      return;
+    }
+    if (settings.ticketKeys.some(other => other.name === key.name)) {
+      Alert.alert('Name Taken', `There is already a key named "${key.name}".`);
+      return;
+    }
+    await save({ ticketKeys: [...settings.ticketKeys, key] });
+    closeModal();
+  };
+
+  const confirmDelete = (key: TicketKey) => {
+    const last = settings.ticketKeys.length === 1;
+    Alert.alert(
+      'Delete Key',
+      last && settings.ticketVerification
+        ? `Tickets signed with "${key.name}" will no longer be accepted. Verification is turned off as no keys are left.`
+        : `Tickets signed with "${key.name}" will no longer be accepted.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () =>
+            save({
+              ticketKeys: settings.ticketKeys.filter(
+                other => other.id !== key.id
+              ),
+              ...(last ? { ticketVerification: false } : {}),
+            }),
+        },
+      ]
+    );
+  };
+
+  const clearLog = async () => {
+    if (!activeEvent) return;
+    try {
+      await clearRejectedScans(activeEvent.id);
+    } catch (error) {
+      console.error('Error clearing rejected scans:', error);
+      Alert.alert('Error', 'Failed to clear the log');
+    }
+  };
+
+  const renderKey = (key: TicketKey) => (
+    <View key={key.id} style={styles.keyCard}>
+      <View style={styles.keyContent}>
+        <Text style={styles.keyName} numberOfLines={1}>
+          {key.name}
+        </Text>
+        <Text style={styles.keyMeta}>{KEY_TYPE_LABELS[key.type]}</Text>
+        <Text style={styles.keyValue} numberOfLines={1}>
+          {key.type === 'hmac' ? '••••••••••••' : key.key}
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={[styles.actionButton, styles.deleteButton]}
+        onPress={() => confirmDelete(key)}
+      >
+        <Text style={styles.actionButtonText}>🗑️</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderRejection = (scan: RejectedScan) => (
+    <View key={scan.id} style={styles.rejectionRow}>
+      <Text style={styles.rejectionTitle}>⛔ {scan.message}</Text>
+      <Text style={styles.rejectionMeta}>
+        {formatDisplayTime(
+          scan.timestamp,
+          settings.displayTimeZone,
+          settings.locale
+        )}
+      </Text>
+      <Text style={styles.rejectionPayload} numberOfLines={2}>
+        {scan.payload}
+      </Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <LinearGradient colors={['#667eea', '#764ba2']} style={styles.gradient}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()}>
+            <Text style={styles.headerButton}>‹ Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>🔏 Tickets</Text>
+          <TouchableOpacity onPress={() => setModalVisible(true)}>
+            <Text style={styles.headerButton}>＋ Key</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.sectionCard}>
+            <View style={styles.switchRow}>
+              <View style={styles.keyContent}>
+                <Text style={styles.sectionTitle}>Verify Tickets</Text>
+                <Text style={styles.sectionHint}>
+                  Only register codes signed with one of the keys below. Checked
+                  on this device, so it works offline.
+                </Text>
+              </View>
+              <Switch
+                value={settings.ticketVerification}
+                onValueChange={toggleVerification}
+                trackColor={{ true: '#4CAF50', false: '#ccc' }}
+              />
+            </View>
+            <Text style={styles.sectionHint}>
+              Tickets are JSON Web Tokens signed with EdDSA (Ed25519) or HS256.
+              An "exp" or "nbf" claim limits when a ticket is valid, and an
+              "evt" claim limits it to one event. Its "id", "tid" or "sub" is
+              registered as the code, and "name" as the person.
+            </Text>
+          </View>
+
+          <View style={styles.sectionCard}>
+            <Text style={styles.sectionTitle}>Keys</Text>
+            <Text style={styles.sectionHint}>
+              A ticket with a "kid" header is checked against the key of that
+              name only.
+            </Text>
+            {settings.ticketKeys.length === 0 ? (
+              <Text style={styles.emptyText}>
+                No keys yet. Tap ＋ Key to add one.
+              </Text>
+            ) : (
+              settings.ticketKeys.map(renderKey)
+            )}
+          </View>
+
+          {activeEvent && (
+            <View style={styles.sectionCard}>
+              <Text style={styles.sectionTitle}>Event ID</Text>
+              <Text style={styles.sectionHint}>
+                Put this in the "evt" claim of tickets for {activeEvent.name}.
+              </Text>
+              <View style={styles.codeContainer}>
+                <Text style={styles.codeText} selectable>
+                  {activeEvent.id}
+                </Text>
+              </View>
+            </View>
+          )}
+
+          <View style={styles.sectionCard}>
+            <View style={styles.logHeader}>
+              <Text style={styles.sectionTitle}>Rejected Scans</Text>
+              {rejectedScans.length > 0 && (
+                <TouchableOpacity onPress={clearLog}>
+                  <Text style={styles.clearText}>Clear</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            {loading ? (
+              <ActivityIndicator color="#4CAF50" />
+            ) : rejectedScans.length === 0 ? (
+              <Text style={styles.emptyText}>No tickets rejected.</Text>
+            ) : (
+              rejectedScans.slice(0, MAX_LISTED_REJECTIONS).map(renderRejection)
+            )}
+          </View>
+        </ScrollView>
+
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={modalVisible}
+          onRequestClose={closeModal}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContent}>
+              <Text style={styles.modalTitle}>New Key</Text>
+              <TextInput
+                style={styles.modalInput}
+                value={form.name}
+                onChangeText={name => setForm({ ...form, name })}
+                placeholder="Name, matching the ticket's kid"
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <View style={styles.typeChips}>
+                {KEY_TYPES.map(type => {
+                  const selected = form.type === type.id;
+                  return (
+                    <TouchableOpacity
+                      key={type.id}
+                      style={[styles.chip, selected && styles.chipSelected]}
+                      onPress={() => setForm({ ...form, type: type.id })}
+                    >
+                      <Text
+                        style={[
+                          styles.chipText,
+                          selected && styles.chipTextSelected,
+                        ]}
+                      >
+                        {type.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <TextInput
+                style={[styles.modalInput, styles.keyInput]}
+                value={form.key}
+                onChangeText={key => setForm({ ...form, key })}
+                placeholder={
+                  form.type === 'ed25519'
+                    ? 'Public key, hex or base64'
+                    : 'Shared secret'
+                }
+                autoCapitalize="none"
+                autoCorrect={false}
+                secureTextEntry={form.type === 'hmac'}
+              />
+              <View style={styles.modalButtons}>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.modalCancelButton]}
+                  onPress={closeModal}
+                >
+                  <Text style={styles.modalButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.modalSaveButton]}
+                  onPress={saveKey}
+                  disabled={!form.key.trim()}
+                >
+                  <Text style={styles.modalButtonText}>Add</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </Modal>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: 'white',
+  },
+  headerButton: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  sectionCard: {
+    backgroundColor: 'white',
+    marginHorizontal: 16,
+    marginBottom: 16,
+    borderRadius: 20,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  sectionHint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 12,
+    lineHeight: 16,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#888',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  keyCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+  },
+  keyContent: {
+    flex: 1,
+  },
+  keyName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  keyMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  keyValue: {
+    fontFamily: 'monospace',
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  actionButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  deleteButton: {
+    backgroundColor: '#dc3545',
+  },
+  actionButtonText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  codeContainer: {
+    backgroundColor: '#f8f9fa',
+    padding: 8,
+    borderRadius: 6,
+  },
+  codeText: {
+    fontFamily: 'monospace',
+    fontSize: 12,
+    color: '#666',
+    lineHeight: 16,
+  },
+  logHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  clearText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#dc3545',
+  },
+  rejectionRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  rejectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#dc3545',
+  },
+  rejectionMeta: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  rejectionPayload: {
+    fontFamily: 'monospace',
+    fontSize: 11,
+    color: '#888',
+    marginTop: 2,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#333',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  modalInput: {
+    borderWidth: 1,
+    borderColor: '#e1e5e9',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    backgroundColor: '#f8f9fa',
+    marginBottom: 12,
+  },
+  keyInput: {
+    fontFamily: 'monospace',
+    fontSize: 12,
+    marginBottom: 24,
+  },
+  typeChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    backgroundColor: '#f8f9fa',
+  },
+  chipSelected: {
+    borderColor: '#4CAF50',
+    backgroundColor: '#e8f5e9',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+  },
+  chipTextSelected: {
+    color: '#2e7d32',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  modalCancelButton: {
+    backgroundColor: '#6c757d',
+  },
+  modalSaveButton: {
+    backgroundColor: '#4CAF50',
+  },
+  modalButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,288 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  StatusBar,
+  Vibration,
+  ActivityIndicator,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useEvents } from '@/hooks/useEvents';
+import { useSettings } from '@/hooks/useSettings';
+import { useTrash } from '@/hooks/useTrash';
+import { TrashedRecord, purgeTrash, restoreRecords } from '@/lib/records';
+import { formatDisplayTime } from '@/lib/time';
+
+export default function TrashScreen() {
+  const router = useRouter();
+  const { activeEvent } = useEvents();
+  const { settings } = useSettings();
+  const { trash, loading } = useTrash(activeEvent?.id ?? null);
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      setBusy(true);
+      await action();
+      Vibration.vibrate(100);
+    } catch (error) {
+      console.error(failure, error);
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Something went wrong'
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const restore = (entry: TrashedRecord) =>
+    run(async () => {
+      const restored = await restoreRecords(entry.eventId, [entry.qrcode]);
+      if (restored === 0) {
+        Alert.alert(
+          'Already Registered',
+          `"${entry.qrcode}" has been registered again since it was deleted. Delete the new record first to restore this one.`
+        );
+      }
+    }, 'Error restoring record:');
+
+  const confirmPurge = (entry: TrashedRecord) => {
+    Alert.alert(
+      'Delete Forever',
+      `Permanently delete ${entry.record.name}? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () =>
+            run(
+              () => purgeTrash(entry.eventId, [entry.qrcode]),
+              'Error purging record:'
+            ),
+        },
+      ]
+    );
+  };
+
+  const confirmEmpty = () => {
+    if (!activeEvent) return;
+    Alert.alert(
+      'Empty Trash',
+      `Permanently delete all ${trash.length} records in the trash of "${activeEvent.name}"? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty',
+          style: 'destructive',
+          onPress: () =>
+            run(() => purgeTrash(activeEvent.id), 'Error emptying trash:'),
+        },
+      ]
+    );
+  };
+
+  const renderEntry = (entry: TrashedRecord) => (
+    <View key={entry.qrcode} style={styles.entryCard}>
+      <Text style={styles.entryName}>{entry.record.name}</Text>
+      <Text style={styles.entryCode}>{entry.qrcode}</Text>
+      <Text style={styles.entryMeta}>
+        🗑️ Deleted{' '}
+        {formatDisplayTime(
+          entry.deletedAt,
+          settings.displayTimeZone,
+          settings.locale
+        )}
+        {entry.attendance.length > 0 &&
+          ` · ${entry.attendance.length} attendance scans`}
+      </Text>
+      <View style={styles.entryActions}>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.restoreButton]}
+          onPress={() => restore(entry)}
+          disabled={busy}
+        >
+          <Text style={styles.actionButtonText}>↩️ Restore</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.purgeButton]}
+          onPress={() => confirmPurge(entry)}
+          disabled={busy}
+        >
+          <Text style={styles.actionButtonText}>✖️ Delete Forever</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <LinearGradient colors={['#667eea', '#764ba2']} style={styles.gradient}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()}>
+            <Text style={styles.headerButton}>‹ Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>🗑️ Trash</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.sectionCard}>
+            <Text style={styles.sectionTitle}>{activeEvent?.name}</Text>
+            <Text style={styles.sectionHint}>
+              {settings.trashRetentionDays === null
+                ? 'Deleted records stay here until you empty the trash.'
+                : `Deleted records stay here for ${settings.trashRetentionDays} days, then are removed for good.`}
+            </Text>
+            {loading ? (
+              <ActivityIndicator color="#4CAF50" />
+            ) : trash.length === 0 ? (
+              <Text style={styles.emptyText}>The trash is empty.</Text>
+            ) : (
+              <TouchableOpacity
+                style={[styles.button, styles.purgeButton]}
+                onPress={confirmEmpty}
+                disabled={busy}
+              >
+                <Text style={styles.buttonText}>
+                  Empty Trash ({trash.length})
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {trash.length > 0 && (
+            <View style={styles.sectionCard}>
+              <Text style={styles.sectionTitle}>Deleted Records</Text>
+              {trash.map(renderEntry)}
+            </View>
+          )}
+        </ScrollView>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: 'white',
+  },
+  headerButton: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+  headerSpacer: {
+    width: 50,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  sectionCard: {
+    backgroundColor: 'white',
+    marginHorizontal: 16,
+    marginBottom: 16,
+    borderRadius: 20,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  sectionHint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 12,
+    lineHeight: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#888',
+    textAlign: 'center',
+  },
+  button: {
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  entryCard: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+  },
+  entryName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  entryCode: {
+    fontFamily: 'monospace',
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  entryActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  restoreButton: {
+    backgroundColor: '#2196F3',
+  },
+  purgeButton: {
+    backgroundColor: '#dc3545',
+  },
+  actionButtonText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,657 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Switch,
+  Alert,
+  StatusBar,
+  Vibration,
+  ActivityIndicator,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useSettings } from '@/hooks/useSettings';
+import { useWebhooks } from '@/hooks/useWebhooks';
+import { formatDisplayTime } from '@/lib/time';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEvent,
+  clearWebhookLog,
+  createWebhook,
+  createWebhookSecret,
+  deleteWebhook,
+  retryWebhookDelivery,
+  updateWebhook,
+} from '@/lib/webhooks';
+
+const WEBHOOK_EVENTS: { id: WebhookEvent; label: string }[] = [
+  { id: 'registered', label: '✅ Registered' },
+  { id: 'duplicate', label: '⚠️ Duplicate scan' },
+  { id: 'edited', label: '✏️ Edited' },
+  { id: 'deleted', label: '🗑️ Deleted' },
+];
+
+const STATUS_ICONS: Record<WebhookDeliveryStatus, string> = {
+  pending: '⏳',
+  delivered: '✅',
+  failed: '❌',
+};
+
+// The log keeps more than this; only the newest are listed
+const MAX_LISTED_DELIVERIES = 50;
+
+interface EndpointForm {
+  name: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+}
+
+const EMPTY_FORM: EndpointForm = {
+  name: '',
+  url: '',
+  secret: '',
+  events: ['registered'],
+};
+
+export default function WebhooksScreen() {
+  const router = useRouter();
+  const { settings } = useSettings();
+  const { endpoints, deliveries, loading } = useWebhooks();
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editing, setEditing] = useState<WebhookEndpoint | null>(null);
+  const [form, setForm] = useState<EndpointForm>(EMPTY_FORM);
+
+  const formatTime = (timestamp: string) =>
+    formatDisplayTime(timestamp, settings.displayTimeZone, settings.locale);
+
+  const endpointName = (id: string) =>
+    endpoints.find(endpoint => endpoint.id === id)?.name ?? 'Removed endpoint';
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      Vibration.vibrate(100);
+    } catch (error) {
+      console.error(failure, error);
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Something went wrong'
+      );
+    }
+  };
+
+  const openModal = (endpoint: WebhookEndpoint | null) => {
+    setEditing(endpoint);
+    setForm(
+      endpoint
+        ? {
+            name: endpoint.name,
+            url: endpoint.url,
+            secret: endpoint.secret ?? '',
+            events: endpoint.events,
+          }
+        : { ...EMPTY_FORM, secret: createWebhookSecret() }
+    );
+    setModalVisible(true);
+  };
+
+  const closeModal = () => {
+    setModalVisible(false);
+    setEditing(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const toggleEvent = (event: WebhookEvent) =>
+    setForm(current => ({
+      ...current,
+      events: current.events.includes(event)
+        ? current.events.filter(other => other !== event)
+        : [...current.events, event],
+    }));
+
+  const saveEndpoint = async () => {
+    if (!/^https?:\/\/\S+$/.test(form.url.trim())) {
+      Alert.alert(
+        'Invalid URL',
+        'Enter a URL starting with http:// or https://'
+      );
+      return;
+    }
+    if (form.events.length === 0) {
+      Alert.alert('No Events', 'Choose at least one event to send.');
+      return;
+    }
+    const input = {
+      name: form.name.trim() || form.url.trim(),
+      url: form.url,
+      secret: form.secret.trim() || null,
+      events: form.events,
+    };
+    await run(
+      () =>
+        editing
+          ? updateWebhook(editing.id, input)
+          : createWebhook({ ...input, enabled: true }),
+      'Error saving webhook:'
+    );
+    closeModal();
+  };
+
+  const confirmDelete = (endpoint: WebhookEndpoint) => {
+    Alert.alert(
+      'Delete Webhook',
+      `Stop sending events to "${endpoint.name}"? Queued deliveries to it are dropped.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () =>
+            run(() => deleteWebhook(endpoint.id), 'Error deleting webhook:'),
+        },
+      ]
+    );
+  };
+
+  const renderEndpoint = (endpoint: WebhookEndpoint) => (
+    <View key={endpoint.id} style={styles.endpointCard}>
+      <View style={styles.endpointHeader}>
+        <View style={styles.endpointContent}>
+          <Text style={styles.endpointName} numberOfLines={1}>
+            {endpoint.name}
+          </Text>
+          <Text style={styles.endpointUrl} numberOfLines={1}>
+            {endpoint.url}
+          </Text>
+        </View>
+        <Switch
+          value={endpoint.enabled}
+          disabled={endpoint.secretRequired}
+          onValueChange={enabled =>
+            run(
+              () => updateWebhook(endpoint.id, { enabled }),
+              'Error updating webhook:'
+            )
+          }
+          trackColor={{ true: '#4CAF50', false: '#ccc' }}
+        />
+      </View>
+      <Text style={styles.endpointMeta}>
+        {WEBHOOK_EVENTS.filter(event => endpoint.events.includes(event.id))
+          .map(event => event.label)
+          .join('  ')}
+      </Text>
+      <Text style={styles.endpointMeta}>
+        {endpoint.secret
+          ? '🔏 Signed with HMAC-SHA256'
+          : endpoint.secretRequired
+            ? '🔐 Off until its signing secret is entered'
+            : '🔓 Not signed'}
+      </Text>
+      <View style={styles.endpointActions}>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.editButton]}
+          onPress={() => openModal(endpoint)}
+        >
+          <Text style={styles.actionButtonText}>✏️ Edit</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.deleteButton]}
+          onPress={() => confirmDelete(endpoint)}
+        >
+          <Text style={styles.actionButtonText}>🗑️ Delete</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderDelivery = (delivery: WebhookDelivery) => (
+    <View key={delivery.id} style={styles.deliveryRow}>
+      <View style={styles.endpointContent}>
+        <Text style={styles.deliveryTitle} numberOfLines={1}>
+          {STATUS_ICONS[delivery.status]} {delivery.event} ·{' '}
+          {delivery.payload.record.name}
+        </Text>
+        <Text style={styles.deliveryMeta} numberOfLines={1}>
+          {endpointName(delivery.endpointId)} · {formatTime(delivery.createdAt)}
+        </Text>
+        <Text style={styles.deliveryMeta}>
+          {delivery.status === 'delivered'
+            ? `HTTP ${delivery.responseStatus} after ${delivery.attempts} attempt${delivery.attempts === 1 ? '' : 's'}`
+            : delivery.status === 'pending' && delivery.attempts > 0
+              ? `Retrying ${formatTime(delivery.nextAttemptAt)} · ${delivery.attempts} failed`
+              : delivery.status === 'pending'
+                ? 'Queued'
+                : `Gave up after ${delivery.attempts} attempt${delivery.attempts === 1 ? '' : 's'}`}
+        </Text>
+        {delivery.lastError && delivery.status !== 'delivered' && (
+          <Text style={styles.deliveryError}>{delivery.lastError}</Text>
+        )}
+      </View>
+      {delivery.status === 'failed' && (
+        <TouchableOpacity
+          style={[styles.actionButton, styles.retryButton]}
+          onPress={() =>
+            run(
+              () => retryWebhookDelivery(delivery.id),
+              'Error retrying delivery:'
+            )
+          }
+        >
+          <Text style={styles.actionButtonText}>↻ Retry</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <LinearGradient colors={['#667eea', '#764ba2']} style={styles.gradient}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()}>
+            <Text style={styles.headerButton}>‹ Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>🪝 Webhooks</Text>
+          <TouchableOpacity onPress={() => openModal(null)}>
+            <Text style={styles.headerButton}>＋ New</Text>
+          </TouchableOpacity>
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="white" />
+          </View>
+        ) : (
+          <ScrollView
+            style={styles.scrollView}
+            showsVerticalScrollIndicator={false}
+          >
+            <View style={styles.sectionCard}>
+              <Text style={styles.sectionTitle}>Endpoints</Text>
+              <Text style={styles.sectionHint}>
+                Each registration, edit or deletion on this device is POSTed as
+                JSON to the endpoints listening for it. Calls made while offline
+                are queued and retried.
+              </Text>
+              {endpoints.length === 0 ? (
+                <Text style={styles.emptyText}>
+                  No webhooks yet. Tap ＋ New to add one.
+                </Text>
+              ) : (
+                endpoints.map(renderEndpoint)
+              )}
+            </View>
+
+            <View style={styles.sectionCard}>
+              <View style={styles.logHeader}>
+                <Text style={styles.sectionTitle}>Delivery Log</Text>
+                {deliveries.some(delivery => delivery.status !== 'pending') && (
+                  <TouchableOpacity
+                    onPress={() =>
+                      run(clearWebhookLog, 'Error clearing delivery log:')
+                    }
+                  >
+                    <Text style={styles.clearText}>Clear</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+              {deliveries.length === 0 ? (
+                <Text style={styles.emptyText}>Nothing sent yet.</Text>
+              ) : (
+                deliveries.slice(0, MAX_LISTED_DELIVERIES).map(renderDelivery)
+              )}
+            </View>
+          </ScrollView>
+        )}
+
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={modalVisible}
+          onRequestClose={closeModal}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContent}>
+              <Text style={styles.modalTitle}>
+                {editing ? 'Edit Webhook' : 'New Webhook'}
+              </Text>
+              <TextInput
+                style={styles.modalInput}
+                value={form.name}
+                onChangeText={name => setForm({ ...form, name })}
+                placeholder="Name, e.g. CRM"
+              />
+              <TextInput
+                style={styles.modalInput}
+                value={form.url}
+                onChangeText={url => setForm({ ...form, url })}
+                placeholder="https://example.com/hooks/registrations"
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+              />
+              <View style={styles.secretRow}>
+                <TextInput
+                  style={[styles.modalInput, styles.secretInput]}
+                  value={form.secret}
+                  onChangeText={secret => setForm({ ...form, secret })}
+                  placeholder="Signing secret (optional)"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+                <TouchableOpacity
+                  style={styles.generateButton}
+                  onPress={() =>
+                    setForm({ ...form, secret: createWebhookSecret() })
+                  }
+                >
+                  <Text style={styles.generateText}>🎲</Text>
+                </TouchableOpacity>
+              </View>
+              <View style={styles.eventChips}>
+                {WEBHOOK_EVENTS.map(event => {
+                  const selected = form.events.includes(event.id);
+                  return (
+                    <TouchableOpacity
+                      key={event.id}
+                      style={[styles.chip, selected && styles.chipSelected]}
+                      onPress={() => toggleEvent(event.id)}
+                    >
+                      <Text
+                        style={[
+                          styles.chipText,
+                          selected && styles.chipTextSelected,
+                        ]}
+                      >
+                        {event.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <View style={styles.modalButtons}>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.modalCancelButton]}
+                  onPress={closeModal}
+                >
+                  <Text style={styles.modalButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.modalSaveButton]}
+                  onPress={saveEndpoint}
+                  disabled={!form.url.trim()}
+                >
+                  <Text style={styles.modalButtonText}>
+                    {editing ? 'Save' : 'Add'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </Modal>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  gradient: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: 'white',
+  },
+  headerButton: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  sectionCard: {
+    backgroundColor: 'white',
+    marginHorizontal: 16,
+    marginBottom: 16,
+    borderRadius: 20,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  sectionHint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 12,
+    lineHeight: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#888',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  endpointCard: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+  },
+  endpointHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  endpointContent: {
+    flex: 1,
+  },
+  endpointName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  endpointUrl: {
+    fontFamily: 'monospace',
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  endpointMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 4,
+  },
+  endpointActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  editButton: {
+    backgroundColor: '#6c757d',
+  },
+  deleteButton: {
+    backgroundColor: '#dc3545',
+  },
+  retryButton: {
+    flex: 0,
+    backgroundColor: '#2196F3',
+  },
+  actionButtonText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  logHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  clearText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#dc3545',
+  },
+  deliveryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  deliveryTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  deliveryMeta: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  deliveryError: {
+    fontSize: 12,
+    color: '#dc3545',
+    marginTop: 2,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#333',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  modalInput: {
+    borderWidth: 1,
+    borderColor: '#e1e5e9',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    backgroundColor: '#f8f9fa',
+    marginBottom: 12,
+  },
+  secretRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  secretInput: {
+    flex: 1,
+    fontFamily: 'monospace',
+    fontSize: 12,
+  },
+  generateButton: {
+    width: 52,
+    height: 52,
+    borderRadius: 12,
+    backgroundColor: '#f8f9fa',
+    borderWidth: 1,
+    borderColor: '#e1e5e9',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  generateText: {
+    fontSize: 20,
+  },
+  eventChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 24,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    backgroundColor: '#f8f9fa',
+  },
+  chipSelected: {
+    borderColor: '#4CAF50',
+    backgroundColor: '#e8f5e9',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+  },
+  chipTextSelected: {
+    color: '#2e7d32',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  modalCancelButton: {
+    backgroundColor: '#6c757d',
+  },
+  modalSaveButton: {
+    backgroundColor: '#4CAF50',
+  },
+  modalButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
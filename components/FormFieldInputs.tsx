@@ -0,0 +1,181 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+} from 'react-native';
+import { FieldInputs, FormField } from '@/lib/forms';
+
+interface FormFieldInputsProps {
+  fields: FormField[];
+  inputs: FieldInputs;
+  /** Messages from parseFieldInputs, shown under the fields they belong to. */
+  errors?: Record<string, string>;
+  onChange: (fieldId: string, value: string | boolean) => void;
+}
+
+/** Inputs for an event's custom form fields, used by the Scanner and edit forms. */
+export default function FormFieldInputs({
+  fields,
+  inputs,
+  errors = {},
+  onChange,
+}: FormFieldInputsProps) {
+  const renderInput = (field: FormField) => {
+    const value = inputs[field.id];
+    const invalid = !!errors[field.id];
+
+    switch (field.type) {
+      case 'checkbox':
+        return (
+          <TouchableOpacity
+            style={styles.checkboxRow}
+            onPress={() => onChange(field.id, value !== true)}
+          >
+            <Text style={styles.checkbox}>{value === true ? '☑️' : '⬜'}</Text>
+            <Text style={styles.checkboxLabel}>
+              {field.label}
+              {field.required && ' *'}
+            </Text>
+          </TouchableOpacity>
+        );
+      case 'select':
+        return (
+          <View style={styles.choices}>
+            {field.options.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[
+                  styles.choice,
+                  value === option && styles.choiceSelected,
+                  invalid && styles.inputInvalid,
+                ]}
+                // Tapping the chosen option again clears an optional answer
+                onPress={() =>
+                  onChange(
+                    field.id,
+                    value === option && !field.required ? '' : option
+                  )
+                }
+              >
+                <Text
+                  style={[
+                    styles.choiceText,
+                    value === option && styles.choiceTextSelected,
+                  ]}
+                >
+                  {option}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        );
+      default:
+        return (
+          <TextInput
+            style={[styles.input, invalid && styles.inputInvalid]}
+            value={typeof value === 'string' ? value : ''}
+            onChangeText={text => onChange(field.id, text)}
+            placeholder={field.required ? 'Required' : 'Optional'}
+            placeholderTextColor="#999"
+            keyboardType={
+              field.type === 'number'
+                ? 'numeric'
+                : field.type === 'phone'
+                  ? 'phone-pad'
+                  : 'default'
+            }
+            autoCorrect={field.type === 'text'}
+          />
+        );
+    }
+  };
+
+  return (
+    <>
+      {fields.map(field => (
+        <View key={field.id} style={styles.inputGroup}>
+          {field.type !== 'checkbox' && (
+            <Text style={styles.inputLabel}>
+              {field.label}
+              {field.required && ' *'}
+            </Text>
+          )}
+          {renderInput(field)}
+          {errors[field.id] && (
+            <Text style={styles.errorText}>{errors[field.id]}</Text>
+          )}
+        </View>
+      ))}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  inputGroup: {
+    marginBottom: 16,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e1e5e9',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    backgroundColor: '#f8f9fa',
+  },
+  inputInvalid: {
+    borderColor: '#dc3545',
+  },
+  choices: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  choice: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e1e5e9',
+    backgroundColor: '#f8f9fa',
+  },
+  choiceSelected: {
+    borderColor: '#4CAF50',
+    backgroundColor: '#e8f5e9',
+  },
+  choiceText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  choiceTextSelected: {
+    color: '#2e7d32',
+    fontWeight: '600',
+  },
+  checkboxRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  checkbox: {
+    fontSize: 20,
+  },
+  checkboxLabel: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#dc3545',
+    marginTop: 4,
+  },
+});
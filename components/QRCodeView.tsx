@@ -0,0 +1,31 @@
+import React, { useMemo } from 'react';
+import Svg, { Path, Rect } from 'react-native-svg';
+import { QR_QUIET_ZONE, encodeQR, qrPath } from '@/lib/badges';
+
+interface QRCodeViewProps {
+  value: string;
+  size: number;
+}
+
+/** A scannable QR code for `value`, drawn with its quiet zone. */
+export default function QRCodeView({ value, size }: QRCodeViewProps) {
+  const modules = useMemo(() => encodeQR(value), [value]);
+  const extent = modules.length + QR_QUIET_ZONE * 2;
+
+  return (
+    <Svg
+      width={size}
+      height={size}
+      viewBox={`${-QR_QUIET_ZONE} ${-QR_QUIET_ZONE} ${extent} ${extent}`}
+    >
+      <Rect
+        x={-QR_QUIET_ZONE}
+        y={-QR_QUIET_ZONE}
+        width={extent}
+        height={extent}
+        fill="white"
+      />
+      <Path d={qrPath(modules)} fill="black" />
+    </Svg>
+  );
+}
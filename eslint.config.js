@@ -0,0 +1,17 @@
+// https://docs.expo.dev/guide/using-eslint/
+const { defineConfig } = require('eslint/config');
+const expoConfig = require('eslint-config-expo/flat');
+
+module.exports = defineConfig([
+  expoConfig,
+  {
+    ignores: ['dist/*'],
+  },
+  {
+    rules: {
+      // Text is rendered by React Native, not parsed as HTML, so quotes and
+      // apostrophes in it need no escaping
+      'react/no-unescaped-entities': 'off',
+    },
+  },
+]);
@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AuditEntry, listAuditEntries } from '@/lib/audit';
+import { subscribeToRecords } from '@/lib/records';
+
+/**
+ * Audit history of one record, oldest first. Entries are written with the
+ * changes they describe, so record listeners are told about both at once.
+ */
+export function useAuditLog(eventId: string | null, qrcode: string | null) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!eventId || !qrcode) return;
+    try {
+      setEntries(await listAuditEntries(eventId, qrcode));
+    } catch (error) {
+      console.error('Error loading record history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId, qrcode]);
+
+  useEffect(() => {
+    setEntries([]);
+    refresh();
+    return subscribeToRecords(change => {
+      if (
+        change.record.eventId === eventId &&
+        change.record.qrcode === qrcode
+      ) {
+        refresh();
+      }
+    });
+  }, [eventId, qrcode, refresh]);
+
+  return { entries, loading };
+}
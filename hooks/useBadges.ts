@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { IssuedBadge, listBadges, subscribeToBadges } from '@/lib/badges';
+
+/** Live walk-in badges of one event. Pass null while the event is resolving. */
+export function useBadges(eventId: string | null) {
+  const [badges, setBadges] = useState<IssuedBadge[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setBadges([]);
+    if (!eventId) return;
+
+    let active = true;
+    const load = async () => {
+      try {
+        const loaded = await listBadges(eventId);
+        if (active) setBadges(loaded);
+      } catch (error) {
+        console.error('Error loading badges:', error);
+      } finally {
+        if (active) setLoading(false);
+      }
+    };
+
+    setLoading(true);
+    load();
+    const unsubscribe = subscribeToBadges(changed => {
+      if (changed === eventId) load();
+    });
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [eventId]);
+
+  return { badges, loading };
+}
@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  KnownDevice,
+  defaultDeviceName,
+  getDeviceId,
+  listKnownDevices,
+} from '@/lib/devices';
+import { subscribeToRecords } from '@/lib/records';
+import { useSettings } from '@/hooks/useSettings';
+
+/**
+ * This device's id plus the devices it has exchanged bundles with, and a
+ * lookup from device id to display name.
+ */
+export function useDevices() {
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const { settings } = useSettings();
+  const [knownDevices, setKnownDevices] = useState<KnownDevice[]>([]);
+
+  const load = useCallback(async () => {
+    try {
+      setDeviceId(await getDeviceId());
+      setKnownDevices(await listKnownDevices());
+    } catch (error) {
+      console.error('Error loading devices:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    // Bundles are merged through the records repository
+    return subscribeToRecords(load);
+  }, [load]);
+
+  const nameOf = useCallback(
+    (id: string) => {
+      if (id === deviceId) return settings.deviceName ?? 'This device';
+      return (
+        knownDevices.find(device => device.id === id)?.name ??
+        defaultDeviceName(id)
+      );
+    },
+    [deviceId, settings.deviceName, knownDevices]
+  );
+
+  return { deviceId, knownDevices, nameOf };
+}
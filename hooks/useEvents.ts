@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  QREvent,
+  getActiveEvent,
+  listEvents,
+  subscribeToEvents,
+} from '@/lib/events';
+import { subscribeToSettings } from '@/lib/settings';
+
+/**
+ * All events plus the one registrations currently go into. Refreshes when
+ * events are created, renamed, archived or switched on any screen.
+ */
+export function useEvents() {
+  const [events, setEvents] = useState<QREvent[]>([]);
+  const [activeEvent, setActiveEvent] = useState<QREvent | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const active = await getActiveEvent();
+      setEvents(await listEvents());
+      setActiveEvent(active);
+    } catch (error) {
+      console.error('Error loading events:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const unsubscribeEvents = subscribeToEvents(refresh);
+    const unsubscribeSettings = subscribeToSettings(refresh);
+    return () => {
+      unsubscribeEvents();
+      unsubscribeSettings();
+    };
+  }, [refresh]);
+
+  return { events, activeEvent, loading };
+}
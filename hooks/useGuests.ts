@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { Guest, listGuests, subscribeToGuests } from '@/lib/guests';
+
+/** Live guest list of one event. Pass null while the event is resolving. */
+export function useGuests(eventId: string | null) {
+  const [guests, setGuests] = useState<Guest[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setGuests([]);
+    if (!eventId) return;
+
+    let active = true;
+    const load = async () => {
+      try {
+        const loaded = await listGuests(eventId);
+        if (active) setGuests(loaded);
+      } catch (error) {
+        console.error('Error loading guest list:', error);
+      } finally {
+        if (active) setLoading(false);
+      }
+    };
+
+    setLoading(true);
+    load();
+    const unsubscribe = subscribeToGuests(changed => {
+      if (changed === eventId) load();
+    });
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [eventId]);
+
+  return { guests, loading };
+}
@@ -0,0 +1,67 @@
+import { useCallback, useRef, useState } from 'react';
+import { Platform } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+
+const hasFiles = (event: DragEvent) =>
+  !!event.dataTransfer?.types.includes('Files');
+
+/**
+ * On the web, accepts image files dropped anywhere on the page while the
+ * screen is focused and passes them on as object URLs, which are revoked
+ * once `onDrop` settles. `dragging` is true while files are held over the
+ * page. Does nothing elsewhere.
+ */
+export function useImageDrop(onDrop: (uris: string[]) => Promise<void>) {
+  const onDropRef = useRef(onDrop);
+  onDropRef.current = onDrop;
+  const [dragging, setDragging] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (Platform.OS !== 'web') return;
+      // dragleave also fires when moving between child elements
+      let depth = 0;
+
+      const handleEnter = (event: DragEvent) => {
+        if (!hasFiles(event)) return;
+        depth++;
+        setDragging(true);
+      };
+      const handleLeave = (event: DragEvent) => {
+        if (!hasFiles(event)) return;
+        depth = Math.max(0, depth - 1);
+        if (depth === 0) setDragging(false);
+      };
+      // Without this the browser opens the file instead of dropping it
+      const handleOver = (event: DragEvent) => {
+        if (hasFiles(event)) event.preventDefault();
+      };
+      const handleDrop = (event: DragEvent) => {
+        if (!hasFiles(event)) return;
+        event.preventDefault();
+        depth = 0;
+        setDragging(false);
+        const uris = Array.from(event.dataTransfer?.files ?? [])
+          .filter(file => file.type.startsWith('image/'))
+          .map(file => URL.createObjectURL(file));
+        onDropRef
+          .current(uris)
+          .finally(() => uris.forEach(uri => URL.revokeObjectURL(uri)));
+      };
+
+      document.addEventListener('dragenter', handleEnter);
+      document.addEventListener('dragleave', handleLeave);
+      document.addEventListener('dragover', handleOver);
+      document.addEventListener('drop', handleDrop);
+      return () => {
+        document.removeEventListener('dragenter', handleEnter);
+        document.removeEventListener('dragleave', handleLeave);
+        document.removeEventListener('dragover', handleOver);
+        document.removeEventListener('drop', handleDrop);
+        setDragging(false);
+      };
+    }, [])
+  );
+
+  return { dragging };
+}
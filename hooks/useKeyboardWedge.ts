@@ -0,0 +1,59 @@
+import { useCallback, useRef, useState } from 'react';
+import { Platform } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { WedgeReader, createWedgeReader } from '@/lib/barcodes';
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA'].includes(target.tagName));
+
+/**
+ * Listens for a handheld scanner that types codes like a keyboard while the
+ * screen is focused. On the web keys are read from the page, outside text
+ * fields. Elsewhere keys only reach a focused text field, so `inputProps`
+ * are for one kept focused for the scanner.
+ */
+export function useKeyboardWedge(
+  enabled: boolean,
+  onScan: (code: string) => void
+) {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+  const reader = useRef<WedgeReader | null>(null);
+  if (!reader.current) {
+    reader.current = createWedgeReader(code => onScanRef.current(code));
+  }
+  const [text, setText] = useState('');
+
+  useFocusEffect(
+    useCallback(() => {
+      const wedge = reader.current!;
+      if (!enabled || Platform.OS !== 'web') return;
+      const handleKey = (event: KeyboardEvent) => {
+        if (!isEditable(event.target)) wedge.key(event.key);
+      };
+      document.addEventListener('keydown', handleKey);
+      return () => {
+        document.removeEventListener('keydown', handleKey);
+        wedge.reset();
+      };
+    }, [enabled])
+  );
+
+  // Feeds the characters added since the last change; scanners usually
+  // deliver them one at a time
+  const onChangeText = (next: string) => {
+    const wedge = reader.current!;
+    const added = next.startsWith(text) ? next.slice(text.length) : next;
+    if (!next.startsWith(text)) wedge.reset();
+    [...added].forEach(char => wedge.key(char));
+    setText(next);
+  };
+
+  const onSubmitEditing = () => {
+    reader.current!.key('Enter');
+    setText('');
+  };
+
+  return { inputProps: { value: text, onChangeText, onSubmitEditing } };
+}
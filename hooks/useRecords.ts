@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import {
+  QRRecord,
+  RecordChange,
+  listRecords,
+  subscribeToRecords,
+} from '@/lib/records';
+
+const applyChange = (records: QRRecord[], change: RecordChange) => {
+  // Records share an event with the list they are in, so the code alone
+  // identifies them here
+  switch (change.type) {
+    case 'added':
+      return [...records, change.record];
+    case 'updated':
+      return records.map(record =>
+        record.qrcode === change.record.qrcode ? change.record : record
+      );
+    case 'deleted':
+      return records.filter(record => record.qrcode !== change.record.qrcode);
+  }
+};
+
+/**
+ * Live view of the records of one event. All screens share the same
+ * repository, so a registration on the Scanner shows up here without a reload.
+ * Pass null while the event is still being resolved.
+ */
+export function useRecords(eventId: string | null) {
+  const [records, setRecords] = useState<QRRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    setRecords([]);
+    setError(null);
+    if (!eventId) return;
+
+    setLoading(true);
+    let active = true;
+    const pending: RecordChange[] = [];
+    let loaded = false;
+
+    const unsubscribe = subscribeToRecords(change => {
+      if (change.record.eventId !== eventId) return;
+      if (!loaded) {
+        pending.push(change);
+        return;
+      }
+      setRecords(current => applyChange(current, change));
+    });
+
+    listRecords(eventId)
+      .then(initial => {
+        if (!active) return;
+        loaded = true;
+        // Changes that landed while the initial list was loading may or may
+        // not already be in it, so replay them idempotently.
+        setRecords(
+          pending.reduce(
+            (current, change) =>
+              applyChange(
+                current.filter(
+                  record =>
+                    change.type !== 'added' ||
+                    record.qrcode !== change.record.qrcode
+                ),
+                change
+              ),
+            initial
+          )
+        );
+      })
+      .catch(loadError => {
+        console.error('Error loading records:', loadError);
+        if (active) setError(loadError);
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [eventId]);
+
+  return { records, loading, error };
+}
@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  RejectedScan,
+  listRejectedScans,
+  subscribeToRejectedScans,
+} from '@/lib/tickets';
+
+/** Scans of one event turned away by ticket verification, newest first. */
+export function useRejectedScans(eventId: string | null) {
+  const [rejectedScans, setRejectedScans] = useState<RejectedScan[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!eventId) return;
+    try {
+      setRejectedScans(await listRejectedScans(eventId));
+    } catch (error) {
+      console.error('Error loading rejected scans:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    setRejectedScans([]);
+    refresh();
+    return subscribeToRejectedScans(refresh);
+  }, [eventId, refresh]);
+
+  return { rejectedScans, loading };
+}
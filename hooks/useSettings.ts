@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react';
+import {
+  AppSettings,
+  DEFAULT_SETTINGS,
+  getSettings,
+  subscribeToSettings,
+  updateSettings,
+} from '@/lib/settings';
+
+/**
+ * Current app settings, kept in sync across screens. Until the stored
+ * settings have loaded the defaults are returned.
+ */
+export function useSettings() {
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    const unsubscribe = subscribeToSettings(setSettings);
+    getSettings().then(stored => {
+      if (!active) return;
+      setSettings(stored);
+      setLoaded(true);
+    });
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return { settings, loaded, updateSettings };
+}
@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import { subscribeToRecords } from '@/lib/records';
+import {
+  RecordSyncStatus,
+  SyncState,
+  getSyncState,
+  listOutbox,
+  subscribeToSyncState,
+  syncStatusOf,
+} from '@/lib/sync';
+
+/** Live state of the background sync. */
+export function useSyncState() {
+  const [state, setState] = useState<SyncState>(getSyncState);
+
+  useEffect(() => subscribeToSyncState(setState), []);
+
+  return state;
+}
+
+/**
+ * Sync status of each record in an event, keyed by QR code. Records that
+ * aren't in the map are synced.
+ */
+export function useRecordSyncStatus(eventId: string | null) {
+  const [statuses, setStatuses] = useState<Map<string, RecordSyncStatus>>(
+    new Map()
+  );
+
+  useEffect(() => {
+    setStatuses(new Map());
+    if (!eventId) return;
+
+    let active = true;
+    const load = async () => {
+      try {
+        const entries = await listOutbox(eventId);
+        if (!active) return;
+        setStatuses(
+          new Map(entries.map(entry => [entry.qrcode, syncStatusOf(entry)]))
+        );
+      } catch (error) {
+        console.error('Error loading sync status:', error);
+      }
+    };
+
+    load();
+    const unsubscribeRecords = subscribeToRecords(load);
+    const unsubscribeSync = subscribeToSyncState(load);
+    return () => {
+      active = false;
+      unsubscribeRecords();
+      unsubscribeSync();
+    };
+  }, [eventId]);
+
+  return statuses;
+}
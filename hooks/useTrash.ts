@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  TrashedRecord,
+  listTrash,
+  subscribeToRecords,
+  subscribeToTrash,
+} from '@/lib/records';
+
+/**
+ * Deleted records of one event. Deletions and restores come through the
+ * records listeners, purges through the trash's own.
+ */
+export function useTrash(eventId: string | null) {
+  const [trash, setTrash] = useState<TrashedRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!eventId) return;
+    try {
+      setTrash(await listTrash(eventId));
+    } catch (error) {
+      console.error('Error loading trash:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    setTrash([]);
+    refresh();
+    const unsubscribeRecords = subscribeToRecords(change => {
+      if (change.record.eventId === eventId) refresh();
+    });
+    const unsubscribeTrash = subscribeToTrash(refresh);
+    return () => {
+      unsubscribeRecords();
+      unsubscribeTrash();
+    };
+  }, [eventId, refresh]);
+
+  return { trash, loading };
+}
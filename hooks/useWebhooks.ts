@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  WebhookDelivery,
+  WebhookEndpoint,
+  listWebhookDeliveries,
+  listWebhooks,
+  subscribeToWebhooks,
+} from '@/lib/webhooks';
+
+/** Webhook endpoints and the delivery log, refreshed as deliveries progress. */
+export function useWebhooks() {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [loadedEndpoints, loadedDeliveries] = await Promise.all([
+        listWebhooks(),
+        listWebhookDeliveries(),
+      ]);
+      setEndpoints(loadedEndpoints);
+      setDeliveries(loadedDeliveries);
+    } catch (error) {
+      console.error('Error loading webhooks:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return subscribeToWebhooks(refresh);
+  }, [refresh]);
+
+  return { endpoints, deliveries, loading };
+}
@@ -0,0 +1,8 @@
+// Native modules have no implementation under Jest; these are the mocks the
+// libraries ship for it
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock')
+);
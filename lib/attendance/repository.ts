@@ -0,0 +1,67 @@
+import { createId } from '@/lib/ids';
+import { QRRecord, addRecord, updateRecord } from '@/lib/records';
+import { ATTENDANCE_TABLE, WriteOp, getStorage } from '@/lib/storage';
+import { getDeviceTimeZone } from '@/lib/time';
+import { AttendanceEntry, AttendanceType } from './types';
+
+const entryWrite = (
+  record: QRRecord,
+  type: AttendanceType,
+  timestamp: string
+): WriteOp => {
+  const entry: AttendanceEntry = {
+    id: createId('att'),
+    eventId: record.eventId,
+    qrcode: record.qrcode,
+    type,
+    timestamp,
+    timezone: getDeviceTimeZone(),
+  };
+  return { type: 'put', table: ATTENDANCE_TABLE.name, value: entry };
+};
+
+/** Registers a person and logs their first check-in in one write. */
+export const registerWithCheckIn = (record: QRRecord) =>
+  addRecord(
+    { ...record, onSite: true, lastSeenAt: record.timestamp },
+    stored => [entryWrite(stored, 'check-in', record.timestamp)]
+  );
+
+/**
+ * Checks a registered person out if they are on site, or back in if not.
+ * Resolves to the updated record; its `onSite` tells which one happened.
+ */
+export const toggleAttendance = (eventId: string, qrcode: string) => {
+  const timestamp = new Date().toISOString();
+  return updateRecord(
+    eventId,
+    qrcode,
+    previous => ({ onSite: !previous.onSite, lastSeenAt: timestamp }),
+    updated => [
+      entryWrite(updated, updated.onSite ? 'check-in' : 'check-out', timestamp),
+    ]
+  );
+};
+
+/** One person's check-ins and check-outs, oldest first. */
+export const listAttendance = async (
+  eventId: string,
+  qrcode: string
+): Promise<AttendanceEntry[]> => {
+  const storage = await getStorage();
+  return storage.find<AttendanceEntry>(ATTENDANCE_TABLE.name, {
+    where: { eventId, qrcode },
+    orderBy: 'timestamp',
+  });
+};
+
+/** Every check-in and check-out of an event, oldest first. */
+export const listEventAttendance = async (
+  eventId: string
+): Promise<AttendanceEntry[]> => {
+  const storage = await getStorage();
+  return storage.find<AttendanceEntry>(ATTENDANCE_TABLE.name, {
+    where: { eventId },
+    orderBy: 'timestamp',
+  });
+};
@@ -0,0 +1,19 @@
+export type AttendanceType = 'check-in' | 'check-out';
+
+export interface AttendanceEntry {
+  id: string;
+  eventId: string;
+  qrcode: string;
+  type: AttendanceType;
+  /** UTC instant of the scan, as an ISO 8601 string. */
+  timestamp: string;
+  timezone: string;
+}
+
+/** A check-in and the check-out that closed it, if any. */
+export interface Visit {
+  eventId: string;
+  qrcode: string;
+  checkIn: string;
+  checkOut: string | null;
+}
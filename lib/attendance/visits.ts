@@ -0,0 +1,43 @@
+import { AttendanceEntry, Visit } from './types';
+
+/**
+ * Pairs each check-in with the next check-out of the same person. Entries
+ * must be sorted oldest first. A stray check-out without a preceding
+ * check-in (e.g. the registration predates attendance mode) closes a visit
+ * with no known start and is skipped.
+ */
+export const buildVisits = (entries: AttendanceEntry[]): Visit[] => {
+  const open = new Map<string, Visit>();
+  const visits: Visit[] = [];
+
+  entries.forEach(entry => {
+    const key = `${entry.eventId}\u001f${entry.qrcode}`;
+    const current = open.get(key);
+    if (entry.type === 'check-in') {
+      // Two check-ins in a row: the first visit was never closed
+      if (current) visits.push(current);
+      open.set(key, {
+        eventId: entry.eventId,
+        qrcode: entry.qrcode,
+        checkIn: entry.timestamp,
+        checkOut: null,
+      });
+    } else if (current) {
+      visits.push({ ...current, checkOut: entry.timestamp });
+      open.delete(key);
+    }
+  });
+
+  return [...visits, ...open.values()].sort((a, b) =>
+    a.checkIn.localeCompare(b.checkIn)
+  );
+};
+
+export const visitDurationMinutes = (visit: Visit) =>
+  visit.checkOut
+    ? Math.round(
+        (new Date(visit.checkOut).getTime() -
+          new Date(visit.checkIn).getTime()) /
+          60000
+      )
+    : null;
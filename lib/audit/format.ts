@@ -0,0 +1,10 @@
+/** Audited values as text for exports and the history timeline. */
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+    return value.join(', ');
+  }
+  return JSON.stringify(value);
+};
@@ -0,0 +1,101 @@
+import { getDeviceId } from '@/lib/devices';
+import { createId } from '@/lib/ids';
+import { QRRecord, RecordChange } from '@/lib/records/types';
+import { getSettings } from '@/lib/settings';
+import { AUDIT_TABLE, WriteOp, getStorage } from '@/lib/storage';
+import {
+  AuditAction,
+  AuditEntry,
+  AuditFieldChange,
+  AuditSource,
+} from './types';
+
+// Bookkeeping fields that change alongside every edit
+const UNAUDITED_FIELDS = new Set([
+  'eventId',
+  'qrcode',
+  'updatedAt',
+  'deviceId',
+]);
+
+const ACTION_FOR_CHANGE: Record<RecordChange['type'], AuditAction> = {
+  added: 'created',
+  updated: 'updated',
+  deleted: 'deleted',
+};
+
+/** Fields that differ between two versions of a record. */
+export const diffRecord = (
+  before: QRRecord | null,
+  after: QRRecord | null
+): AuditFieldChange[] => {
+  const fields = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+  const changes: AuditFieldChange[] = [];
+  fields.forEach(field => {
+    if (UNAUDITED_FIELDS.has(field)) return;
+    const from = before?.[field as keyof QRRecord] ?? null;
+    const to = after?.[field as keyof QRRecord] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, from, to });
+    }
+  });
+  return changes;
+};
+
+/**
+ * Audit entries for record changes, written in the same transaction as the
+ * changes. `action` overrides the one implied by the change, e.g. to log a
+ * record coming back from the trash as restored rather than created.
+ */
+export const auditWrites = async (
+  changes: RecordChange[],
+  source: AuditSource,
+  action?: AuditAction
+): Promise<WriteOp[]> => {
+  if (changes.length === 0) return [];
+  const deviceId = await getDeviceId();
+  const { deviceName } = await getSettings();
+  const timestamp = new Date().toISOString();
+  const writes: WriteOp[] = [];
+  for (const change of changes) {
+    const fieldChanges =
+      change.type === 'added'
+        ? diffRecord(null, change.record)
+        : change.type === 'updated'
+          ? diffRecord(change.previous, change.record)
+          : diffRecord(change.record, null);
+    // Edits that only touched bookkeeping fields aren't worth a line
+    if (change.type === 'updated' && fieldChanges.length === 0) continue;
+    const entry: AuditEntry = {
+      id: createId('aud'),
+      eventId: change.record.eventId,
+      qrcode: change.record.qrcode,
+      action: action ?? ACTION_FOR_CHANGE[change.type],
+      source,
+      changes: fieldChanges,
+      timestamp,
+      deviceId,
+      operator: deviceName,
+    };
+    writes.push({ type: 'put', table: AUDIT_TABLE.name, value: entry });
+  }
+  return writes;
+};
+
+/**
+ * Audit entries of an event, oldest first, or of one record when a code is
+ * given.
+ */
+export const listAuditEntries = async (
+  eventId: string,
+  qrcode?: string
+): Promise<AuditEntry[]> => {
+  const storage = await getStorage();
+  return storage.find<AuditEntry>(AUDIT_TABLE.name, {
+    where: qrcode === undefined ? { eventId } : { eventId, qrcode },
+    orderBy: 'timestamp',
+  });
+};
@@ -0,0 +1,27 @@
+export type AuditAction = 'created' | 'updated' | 'deleted' | 'restored';
+
+/** Where a change came from. Only `app` changes were made on this device. */
+export type AuditSource = 'app' | 'import' | 'sync' | 'exchange' | 'backup';
+
+export interface AuditFieldChange {
+  field: string;
+  /** Value before the change; null for fields that weren't set. */
+  from: unknown;
+  to: unknown;
+}
+
+/** One change to a record, kept after the record itself is gone. */
+export interface AuditEntry {
+  id: string;
+  eventId: string;
+  qrcode: string;
+  action: AuditAction;
+  source: AuditSource;
+  changes: AuditFieldChange[];
+  /** UTC time the change was stored on this device. */
+  timestamp: string;
+  /** Device that stored the change. */
+  deviceId: string;
+  /** Name of that device at the time, e.g. "North Door". */
+  operator: string | null;
+}
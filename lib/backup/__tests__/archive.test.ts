@@ -0,0 +1,117 @@
+import { DEFAULT_SETTINGS } from '@/lib/settings';
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  BackupFormatError,
+  parseBackup,
+  restoredSettings,
+} from '../archive';
+
+const archiveText = (changes: object = {}) =>
+  JSON.stringify({
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: 7,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    settings: { displayTimeZone: 'Africa/Nairobi', autoBackup: true },
+    tables: {
+      records: [
+        {
+          eventId: 'evt_1',
+          qrcode: 'ABC123',
+          name: 'Ada',
+          timestamp: '2025-01-01T08:00:00.000Z',
+          timezone: 'Africa/Nairobi',
+        },
+      ],
+    },
+    ...changes,
+  });
+
+describe('parseBackup', () => {
+  it('fills in settings added after the backup was made', () => {
+    const archive = parseBackup(archiveText());
+    expect(archive.settings.displayTimeZone).toBe('Africa/Nairobi');
+    expect(archive.settings.ticketKeys).toEqual([]);
+    expect(archive.settings.payloadPatterns).toEqual([]);
+  });
+
+  it('gives tables missing from older archives no rows', () => {
+    const archive = parseBackup(archiveText());
+    expect(archive.tables.webhooks).toEqual([]);
+    expect(archive.tables.records).toHaveLength(1);
+  });
+
+  it('refuses archives without settings', () => {
+    expect(() => parseBackup(archiveText({ settings: null }))).toThrow(
+      BackupFormatError
+    );
+  });
+
+  it('refuses settings that should be lists', () => {
+    const settings = { ticketKeys: 'secret' };
+    expect(() => parseBackup(archiveText({ settings }))).toThrow(
+      'Setting "ticketKeys" is malformed'
+    );
+  });
+
+  it('refuses rows without their key', () => {
+    const tables = { guests: [{ name: 'Ada' }] };
+    expect(() => parseBackup(archiveText({ tables }))).toThrow(
+      'Table "guests" is malformed'
+    );
+  });
+
+  it('refuses records without a name or time', () => {
+    const tables = { records: [{ eventId: 'evt_1', qrcode: 'ABC123' }] };
+    expect(() => parseBackup(archiveText({ tables }))).toThrow(
+      'Table "records" is malformed'
+    );
+  });
+
+  it('refuses archives from a newer schema', () => {
+    expect(() => parseBackup(archiveText({ schemaVersion: 99 }))).toThrow(
+      BackupFormatError
+    );
+  });
+
+  it('refuses files that are not backups', () => {
+    expect(() => parseBackup('{"format":"other"}')).toThrow(
+      'The file is not a backup archive'
+    );
+    expect(() => parseBackup('not json')).toThrow(BackupFormatError);
+  });
+});
+
+describe('restoredSettings', () => {
+  const current = {
+    ...DEFAULT_SETTINGS,
+    syncToken: 'device-token',
+    ticketKeys: [
+      { id: 'k1', name: 'box office', type: 'hmac' as const, key: 'secret' },
+      { id: 'k2', name: 'old', type: 'ed25519' as const, key: 'aa' },
+    ],
+  };
+
+  it("keeps the device's sync token and HMAC keys", () => {
+    const archived = {
+      ...DEFAULT_SETTINGS,
+      syncToken: 'archived-token',
+      ticketKeys: [
+        { id: 'k3', name: 'leaked', type: 'hmac' as const, key: 'other' },
+        { id: 'k4', name: 'issuer', type: 'ed25519' as const, key: 'bb' },
+      ],
+    };
+    const restored = restoredSettings(archived, current);
+    expect(restored.syncToken).toBe('device-token');
+    expect(restored.ticketKeys.map(key => key.id)).toEqual(['k4', 'k1']);
+  });
+
+  it('restores archives made before ticket keys existed', () => {
+    const archived = { ...DEFAULT_SETTINGS, displayTimeZone: 'Africa/Nairobi' };
+    delete (archived as Partial<typeof archived>).ticketKeys;
+    const restored = restoredSettings(archived, current);
+    expect(restored.displayTimeZone).toBe('Africa/Nairobi');
+    expect(restored.ticketKeys.map(key => key.id)).toEqual(['k1']);
+  });
+});
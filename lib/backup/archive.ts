@@ -0,0 +1,291 @@
+import { reloadBadges } from '@/lib/badges';
+import { reloadEvents } from '@/lib/events';
+import { reloadGuests } from '@/lib/guests';
+import { applyRecordWrites, isRecord } from '@/lib/records';
+import {
+  AppSettings,
+  DEFAULT_SETTINGS,
+  getSettings,
+  updateSettings,
+} from '@/lib/settings';
+import {
+  CURRENT_SCHEMA_VERSION,
+  META_TABLE,
+  OUTBOX_TABLE,
+  RECORDS_TABLE,
+  TABLES,
+  TableSchema,
+  WEBHOOKS_TABLE,
+  WEBHOOK_DELIVERIES_TABLE,
+  WriteOp,
+  getStorage,
+  keyOf,
+} from '@/lib/storage';
+import { TicketKey } from '@/lib/tickets';
+import { WebhookEndpoint, notifyWebhookListeners } from '@/lib/webhooks';
+import {
+  BackupArchive,
+  RestoreMode,
+  RestoreSummary,
+  TableRestorePreview,
+} from './types';
+
+export const BACKUP_FORMAT = 'qr-registration-backup';
+export const BACKUP_VERSION = 1;
+
+// Schemas v5 to v7 only added fields that are optional on older rows, or
+// imported data
+const OLDEST_RESTORABLE_SCHEMA_VERSION = 4;
+
+// Meta holds device state (schema version, sync cursor), the outbox is
+// refilled by the restore itself and webhook deliveries are a local log, so
+// none of them belong in an archive
+const BACKUP_TABLES = TABLES.filter(
+  table =>
+    table !== META_TABLE &&
+    table !== OUTBOX_TABLE &&
+    table !== WEBHOOK_DELIVERIES_TABLE
+);
+
+// Secrets stay on the device they were entered on: archives are shared
+// around, and restoring one keeps the device's own sync token, HMAC ticket
+// keys and webhook signing secrets
+const isSecretKey = (key: TicketKey) => key.type === 'hmac';
+
+const archiveSettings = (settings: AppSettings): AppSettings => ({
+  ...settings,
+  syncToken: null,
+  ticketKeys: settings.ticketKeys.filter(key => !isSecretKey(key)),
+});
+
+/**
+ * The settings a replace-restore leaves the device with: the archived ones,
+ * but the device's own secrets.
+ */
+export const restoredSettings = (
+  archived: AppSettings,
+  current: AppSettings
+): AppSettings => ({
+  ...archived,
+  syncToken: current.syncToken,
+  ticketKeys: [
+    // Archives made before ticket verification have no keys
+    ...(archived.ticketKeys ?? []).filter(key => !isSecretKey(key)),
+    ...current.ticketKeys.filter(isSecretKey),
+  ],
+});
+
+/** Webhook endpoints as archived, noting which ones had a secret. */
+const withoutSecrets = (rows: object[]): WebhookEndpoint[] =>
+  (rows as WebhookEndpoint[]).map(endpoint => ({
+    ...endpoint,
+    secret: null,
+    secretRequired: !!endpoint.secret || !!endpoint.secretRequired,
+  }));
+
+/**
+ * Gives webhook endpoints the secret from `secrets`, by endpoint id. Ones
+ * signed with a secret that isn't there are turned off and marked as
+ * needing one.
+ */
+const withSecrets = (
+  rows: object[],
+  secrets: Map<string, string | null>
+): WebhookEndpoint[] =>
+  (rows as WebhookEndpoint[]).map(endpoint => {
+    const secret = secrets.get(endpoint.id) ?? null;
+    const secretRequired =
+      !secret && (!!endpoint.secret || !!endpoint.secretRequired);
+    return {
+      ...endpoint,
+      secret,
+      secretRequired,
+      enabled: endpoint.enabled && !secretRequired,
+    };
+  });
+
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupFormatError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Every row needs its key to be stored, and records their required fields
+const isValidRow = (table: TableSchema, row: unknown) =>
+  isObject(row) &&
+  table.key.every(field => ['string', 'number'].includes(typeof row[field])) &&
+  (table !== RECORDS_TABLE || isRecord(row));
+
+/**
+ * The archived settings over the defaults, so settings added since the
+ * backup was made get a value.
+ */
+const parseSettings = (settings: unknown): AppSettings => {
+  if (!isObject(settings)) {
+    throw new BackupFormatError('The backup has no settings');
+  }
+  const merged = { ...DEFAULT_SETTINGS, ...settings } as AppSettings;
+  const malformed = (Object.keys(DEFAULT_SETTINGS) as (keyof AppSettings)[])
+    .filter(key => Array.isArray(DEFAULT_SETTINGS[key]))
+    .find(key => !Array.isArray(merged[key]));
+  if (malformed) {
+    throw new BackupFormatError(`Setting "${malformed}" is malformed`);
+  }
+  return merged;
+};
+
+/** Snapshot of every table plus settings, without secrets. */
+export const createBackup = async (): Promise<BackupArchive> => {
+  const storage = await getStorage();
+  const tables: BackupArchive['tables'] = {};
+  for (const table of BACKUP_TABLES) {
+    const rows = await storage.find<object>(table.name);
+    tables[table.name] = table === WEBHOOKS_TABLE ? withoutSecrets(rows) : rows;
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    settings: archiveSettings(await getSettings()),
+    tables,
+  };
+};
+
+export const serializeBackup = (archive: BackupArchive) =>
+  JSON.stringify(archive);
+
+/**
+ * Checks that a file is a backup this build can restore. Archives from a
+ * newer schema are refused rather than guessed at.
+ */
+export const parseBackup = (text: string): BackupArchive => {
+  let parsed: Partial<BackupArchive>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new BackupFormatError('The file is not a backup archive');
+  }
+
+  if (!parsed || parsed.format !== BACKUP_FORMAT) {
+    throw new BackupFormatError('The file is not a backup archive');
+  }
+  if (parsed.version !== BACKUP_VERSION) {
+    throw new BackupFormatError(
+      `Backup format v${parsed.version} is not supported by this app`
+    );
+  }
+  if (typeof parsed.schemaVersion !== 'number') {
+    throw new BackupFormatError('The backup has no schema version');
+  }
+  if (parsed.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new BackupFormatError(
+      'This backup was made by a newer version of the app. Update the app to restore it.'
+    );
+  }
+  if (parsed.schemaVersion < OLDEST_RESTORABLE_SCHEMA_VERSION) {
+    throw new BackupFormatError(
+      `This backup uses schema v${parsed.schemaVersion}, which can no longer be restored`
+    );
+  }
+  if (!parsed.tables || typeof parsed.tables !== 'object') {
+    throw new BackupFormatError('The backup contains no data');
+  }
+  for (const table of BACKUP_TABLES) {
+    const rows = parsed.tables[table.name] ?? [];
+    if (!Array.isArray(rows) || !rows.every(row => isValidRow(table, row))) {
+      throw new BackupFormatError(`Table "${table.name}" is malformed`);
+    }
+    parsed.tables[table.name] = rows;
+  }
+  parsed.settings = parseSettings(parsed.settings);
+
+  return parsed as BackupArchive;
+};
+
+/** Row counts per table, to show before anything is overwritten. */
+export const previewRestore = async (
+  archive: BackupArchive
+): Promise<TableRestorePreview[]> => {
+  const storage = await getStorage();
+  const previews: TableRestorePreview[] = [];
+  for (const table of BACKUP_TABLES) {
+    const existing = await storage.find<object>(table.name);
+    const existingKeys = new Set(existing.map(row => keyOf(table, row)));
+    const incoming = archive.tables[table.name];
+    previews.push({
+      table: table.name,
+      incoming: incoming.length,
+      existing: existing.length,
+      conflicts: incoming.filter(row => existingKeys.has(keyOf(table, row)))
+        .length,
+    });
+  }
+  return previews;
+};
+
+/**
+ * Writes the archive in one transaction. `replace` wipes the device first
+ * and restores the archived settings; `merge` only adds rows whose key isn't
+ * on the device yet and leaves settings alone. Either way the device keeps
+ * its own secrets. `archive` must have come from `parseBackup`, which checks
+ * everything that's written, so nothing fails halfway.
+ */
+export const restoreBackup = async (
+  archive: BackupArchive,
+  mode: RestoreMode
+): Promise<RestoreSummary> => {
+  const storage = await getStorage();
+  const writes: WriteOp[] = [];
+  const eventIds = new Set<string>();
+  const webhooksNeedingSecret: string[] = [];
+  const settings =
+    mode === 'replace'
+      ? restoredSettings(archive.settings, await getSettings())
+      : null;
+
+  for (const table of BACKUP_TABLES) {
+    let rows = archive.tables[table.name];
+    const existing = await storage.find<{ eventId?: string }>(table.name);
+    existing.forEach(row => row.eventId && eventIds.add(row.eventId));
+
+    if (mode === 'replace') {
+      writes.push({ type: 'clear', table: table.name });
+    } else {
+      const existingKeys = new Set(existing.map(row => keyOf(table, row)));
+      rows = rows.filter(row => !existingKeys.has(keyOf(table, row)));
+    }
+    // Archives made before secrets were left out still carry them
+    if (table === WEBHOOKS_TABLE) {
+      const secrets = new Map(
+        (existing as WebhookEndpoint[]).map(endpoint => [
+          endpoint.id,
+          endpoint.secret,
+        ])
+      );
+      const endpoints = withSecrets(rows, secrets);
+      endpoints.forEach(
+        endpoint =>
+          endpoint.secretRequired && webhooksNeedingSecret.push(endpoint.name)
+      );
+      rows = endpoints;
+    }
+    rows.forEach(row => {
+      const { eventId } = row as { eventId?: string };
+      if (eventId) eventIds.add(eventId);
+      writes.push({ type: 'put', table: table.name, value: row });
+    });
+  }
+
+  await applyRecordWrites(writes, 'backup');
+  if (settings) await updateSettings(settings);
+  reloadEvents();
+  reloadGuests([...eventIds]);
+  reloadBadges([...eventIds]);
+  notifyWebhookListeners();
+  return { webhooksNeedingSecret };
+};
@@ -0,0 +1,77 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system/legacy';
+import { createBackup, serializeBackup } from './archive';
+import { LocalBackup } from './types';
+
+const BACKUP_DIRECTORY = 'backups/';
+const AUTO_BACKUP_PREFIX = 'auto-backup-';
+const AUTO_BACKUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+export const MAX_AUTO_BACKUPS = 7;
+
+const backupDirectory = () =>
+  FileSystem.documentDirectory
+    ? FileSystem.documentDirectory + BACKUP_DIRECTORY
+    : null;
+
+// File names carry the creation time, e.g. auto-backup-2026-10-19T08-30-00Z.json
+const toFilename = (date: Date) =>
+  `${AUTO_BACKUP_PREFIX}${date.toISOString().slice(0, 19).replace(/:/g, '-')}Z.json`;
+
+const fromFilename = (name: string) => {
+  const match = name.match(
+    /^auto-backup-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})Z\.json$/
+  );
+  return match ? `${match[1]}T${match[2]}:${match[3]}:${match[4]}.000Z` : null;
+};
+
+/** Automatic backups on this device, newest first. */
+export const listLocalBackups = async (): Promise<LocalBackup[]> => {
+  const directory = backupDirectory();
+  if (!directory) return [];
+  const info = await FileSystem.getInfoAsync(directory);
+  if (!info.exists) return [];
+
+  const names = await FileSystem.readDirectoryAsync(directory);
+  return names
+    .map(name => ({
+      uri: directory + name,
+      name,
+      createdAt: fromFilename(name),
+    }))
+    .filter((backup): backup is LocalBackup => backup.createdAt !== null)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const readLocalBackup = (backup: LocalBackup) =>
+  FileSystem.readAsStringAsync(backup.uri);
+
+/**
+ * Writes a backup if the newest one is more than a day old, then deletes
+ * all but the latest MAX_AUTO_BACKUPS. Does nothing on the web, which has no
+ * documents directory.
+ */
+export const runAutoBackup = async () => {
+  const directory = backupDirectory();
+  if (Platform.OS === 'web' || !directory) return;
+
+  const existing = await listLocalBackups();
+  const newest = existing[0];
+  if (
+    newest &&
+    Date.now() - new Date(newest.createdAt).getTime() < AUTO_BACKUP_INTERVAL_MS
+  ) {
+    return;
+  }
+
+  await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+  const content = serializeBackup(await createBackup());
+  await FileSystem.writeAsStringAsync(
+    directory + toFilename(new Date()),
+    content
+  );
+
+  const stale = (await listLocalBackups()).slice(MAX_AUTO_BACKUPS);
+  for (const backup of stale) {
+    await FileSystem.deleteAsync(backup.uri, { idempotent: true });
+  }
+};
@@ -0,0 +1,41 @@
+import { AppSettings } from '@/lib/settings';
+
+export interface BackupArchive {
+  format: string;
+  /** Layout of this file; bumped if the archive itself changes shape. */
+  version: number;
+  /** Storage schema the table rows were written with. */
+  schemaVersion: number;
+  createdAt: string;
+  settings: AppSettings;
+  /** Every row of every data table, keyed by table name. */
+  tables: Record<string, object[]>;
+}
+
+/** How restored rows combine with what is already on the device. */
+export type RestoreMode = 'replace' | 'merge';
+
+/** What a restore left for the user to finish. */
+export interface RestoreSummary {
+  /**
+   * Names of the webhooks turned off because the secret they were signed
+   * with stayed on the device the backup came from.
+   */
+  webhooksNeedingSecret: string[];
+}
+
+export interface TableRestorePreview {
+  table: string;
+  /** Rows in the archive. */
+  incoming: number;
+  /** Rows currently on the device. */
+  existing: number;
+  /** Archive rows whose key is already on the device. */
+  conflicts: number;
+}
+
+export interface LocalBackup {
+  uri: string;
+  name: string;
+  createdAt: string;
+}
@@ -0,0 +1,4 @@
+export * from './types';
+export * from './qr';
+export * from './sheet';
+export * from './repository';
@@ -0,0 +1,43 @@
+import qrcode from 'qrcode-generator';
+import { utf8ToBytes } from '@noble/hashes/utils';
+
+/**
+ * Dark modules of the QR code for `text`, row by row. Medium error
+ * correction survives a crease or smudge on a printed badge.
+ */
+export const encodeQR = (text: string): boolean[][] => {
+  const qr = qrcode(0, 'M');
+  // The encoder takes one character per byte; give it UTF-8 so names and
+  // codes outside Latin-1 scan back unchanged
+  qr.addData(String.fromCharCode(...utf8ToBytes(text)), 'Byte');
+  qr.make();
+  const size = qr.getModuleCount();
+  return Array.from({ length: size }, (_, row) =>
+    Array.from({ length: size }, (_, column) => qr.isDark(row, column))
+  );
+};
+
+/**
+ * SVG path drawing the dark modules of a QR matrix as unit squares, with
+ * runs along a row merged. Scale it to size with a viewBox of the matrix
+ * size; scanners also need a light margin of 4 modules around it.
+ */
+export const qrPath = (modules: boolean[][]) => {
+  const commands: string[] = [];
+  modules.forEach((row, y) => {
+    let x = 0;
+    while (x < row.length) {
+      if (!row[x]) {
+        x++;
+        continue;
+      }
+      const start = x;
+      while (x < row.length && row[x]) x++;
+      commands.push(`M${start} ${y}h${x - start}v1h${start - x}z`);
+    }
+  });
+  return commands.join('');
+};
+
+/** Number of light modules scanners expect around a code. */
+export const QR_QUIET_ZONE = 4;
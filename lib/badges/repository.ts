@@ -0,0 +1,94 @@
+import { getRandomBytes } from 'expo-crypto';
+import { getGuest } from '@/lib/guests';
+import { getRecord } from '@/lib/records';
+import { BADGES_TABLE, getStorage } from '@/lib/storage';
+import { BadgesListener, IssuedBadge } from './types';
+
+// No 0/O or 1/I, so a code printed under the QR can be typed back in
+const CODE_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+const CODE_LENGTH = 8;
+
+const listeners = new Set<BadgesListener>();
+
+const notify = (eventId: string) => {
+  listeners.forEach(listener => {
+    try {
+      listener(eventId);
+    } catch (error) {
+      console.error('Badges listener failed:', error);
+    }
+  });
+};
+
+const randomCode = () =>
+  `WALK-${Array.from(
+    getRandomBytes(CODE_LENGTH),
+    byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]
+  ).join('')}`;
+
+/** Walk-in badges of an event, sorted by name. */
+export const listBadges = async (eventId: string): Promise<IssuedBadge[]> => {
+  const storage = await getStorage();
+  return storage.find<IssuedBadge>(BADGES_TABLE.name, {
+    where: { eventId },
+    orderBy: 'name',
+  });
+};
+
+export const getBadge = async (
+  eventId: string,
+  qrcode: string
+): Promise<IssuedBadge | null> => {
+  const storage = await getStorage();
+  return storage.get<IssuedBadge>(BADGES_TABLE.name, [eventId, qrcode]);
+};
+
+/**
+ * Issues a badge with a new code for someone not on the guest list. The code
+ * is kept with their name, so scanning the badge fills the name in.
+ */
+export const issueBadge = async (
+  eventId: string,
+  name: string
+): Promise<IssuedBadge> => {
+  let qrcode = randomCode();
+  // Collisions are vanishingly rare, but a clash would register the wrong person
+  while (
+    (await getBadge(eventId, qrcode)) ||
+    (await getGuest(eventId, qrcode)) ||
+    (await getRecord(eventId, qrcode))
+  ) {
+    qrcode = randomCode();
+  }
+  const badge: IssuedBadge = {
+    eventId,
+    qrcode,
+    name: name.trim(),
+    issuedAt: new Date().toISOString(),
+  };
+  const storage = await getStorage();
+  await storage.write([
+    { type: 'put', table: BADGES_TABLE.name, value: badge },
+  ]);
+  notify(eventId);
+  return badge;
+};
+
+/** Forgets a walk-in badge. Records already registered with it are kept. */
+export const deleteBadge = async (eventId: string, qrcode: string) => {
+  const storage = await getStorage();
+  await storage.write([
+    { type: 'delete', table: BADGES_TABLE.name, key: [eventId, qrcode] },
+  ]);
+  notify(eventId);
+};
+
+/** For writes made outside this module, such as restoring a backup. */
+export const reloadBadges = (eventIds: string[]) => eventIds.forEach(notify);
+
+export const subscribeToBadges = (listener: BadgesListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
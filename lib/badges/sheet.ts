@@ -0,0 +1,140 @@
+import { Badge, BadgeLayout } from './types';
+import { QR_QUIET_ZONE, encodeQR, qrPath } from './qr';
+
+export const BADGE_LAYOUTS: BadgeLayout[] = [
+  { id: '1', label: '1 per page', columns: 1, rows: 1 },
+  { id: '4', label: '4 per page', columns: 2, rows: 2 },
+  { id: '8', label: '8 per page', columns: 2, rows: 4 },
+  { id: '12', label: '12 per page', columns: 3, rows: 4 },
+];
+
+// A4 in millimetres, with a margin printers can reach
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const PAGE_MARGIN = 10;
+
+const escapeXML = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/** The inside of an SVG element drawing a QR code with its quiet zone. */
+const qrContent = (text: string) => {
+  const modules = encodeQR(text);
+  const extent = modules.length + QR_QUIET_ZONE * 2;
+  return {
+    viewBox: `${-QR_QUIET_ZONE} ${-QR_QUIET_ZONE} ${extent} ${extent}`,
+    body: `<rect x="${-QR_QUIET_ZONE}" y="${-QR_QUIET_ZONE}" width="${extent}" height="${extent}" fill="#fff"/><path d="${qrPath(modules)}" fill="#000"/>`,
+  };
+};
+
+/** A QR code as a standalone SVG element. */
+export const qrSVG = (text: string, size: string) => {
+  const { viewBox, body } = qrContent(text);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="${viewBox}" shape-rendering="crispEdges">${body}</svg>`;
+};
+
+const paginate = <T>(items: T[], perPage: number) =>
+  Array.from({ length: Math.ceil(items.length / perPage) }, (_, page) =>
+    items.slice(page * perPage, (page + 1) * perPage)
+  );
+
+/**
+ * Badges laid out on A4 pages for printing to PDF, each a cut-out card with
+ * the event name, the person's name, the QR code and the code as text.
+ */
+export const badgeSheetHTML = (
+  eventName: string,
+  badges: Badge[],
+  layout: BadgeLayout
+) => {
+  const cardWidth = (PAGE_WIDTH - PAGE_MARGIN * 2) / layout.columns;
+  const cardHeight = (PAGE_HEIGHT - PAGE_MARGIN * 2) / layout.rows;
+  const qrSize = Math.min(cardWidth, cardHeight) * 0.55;
+
+  const pages = paginate(badges, layout.columns * layout.rows)
+    .map(
+      page => `
+    <div class="page">
+      ${page
+        .map(
+          badge => `
+        <div class="badge">
+          <div class="event">${escapeXML(eventName)}</div>
+          <div class="name">${escapeXML(badge.name)}</div>
+          ${qrSVG(badge.qrcode, `${qrSize}mm`)}
+          <div class="code">${escapeXML(badge.qrcode)}</div>
+        </div>`
+        )
+        .join('')}
+    </div>`
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <style>
+      @page { size: A4; margin: 0; }
+      body { margin: 0; font-family: -apple-system, Helvetica, Arial, sans-serif; color: #333; }
+      .page { width: ${PAGE_WIDTH}mm; height: ${PAGE_HEIGHT}mm; padding: ${PAGE_MARGIN}mm; box-sizing: border-box; display: grid; grid-template-columns: repeat(${layout.columns}, 1fr); grid-template-rows: repeat(${layout.rows}, 1fr); page-break-after: always; }
+      .page:last-child { page-break-after: auto; }
+      .badge { border: 1px dashed #bbb; display: flex; flex-direction: column; align-items: center; justify-content: center; text-align: center; padding: 4mm; overflow: hidden; height: ${cardHeight}mm; box-sizing: border-box; }
+      .event { font-size: 10pt; color: #667eea; font-weight: 600; text-transform: uppercase; letter-spacing: 1px; }
+      .name { font-size: ${layout.columns > 2 ? 14 : 20}pt; font-weight: 700; margin: 2mm 0 3mm; }
+      .code { font-family: monospace; font-size: 8pt; color: #888; margin-top: 2mm; word-break: break-all; }
+    </style>
+  </head>
+  <body>${pages}
+  </body>
+</html>`;
+};
+
+/**
+ * The same sheet as a single SVG, with the A4 pages stacked top to bottom,
+ * for print shops and design tools.
+ */
+export const badgeSheetSVG = (
+  eventName: string,
+  badges: Badge[],
+  layout: BadgeLayout
+) => {
+  const pages = paginate(badges, layout.columns * layout.rows);
+  const cardWidth = (PAGE_WIDTH - PAGE_MARGIN * 2) / layout.columns;
+  const cardHeight = (PAGE_HEIGHT - PAGE_MARGIN * 2) / layout.rows;
+  const qrSize = Math.min(cardWidth, cardHeight) * 0.55;
+  const nameSize = layout.columns > 2 ? 5 : 7;
+
+  const content = pages
+    .map((page, pageIndex) => {
+      const top = pageIndex * PAGE_HEIGHT;
+      const cards = page.map((badge, index) => {
+        const x = PAGE_MARGIN + (index % layout.columns) * cardWidth;
+        const y =
+          top + PAGE_MARGIN + Math.floor(index / layout.columns) * cardHeight;
+        const centre = x + cardWidth / 2;
+        const qrTop = y + (cardHeight - qrSize) / 2 + 3;
+        const qr = qrContent(badge.qrcode);
+        return `
+    <g>
+      <rect x="${x}" y="${y}" width="${cardWidth}" height="${cardHeight}" fill="none" stroke="#bbb" stroke-width="0.3" stroke-dasharray="2 1"/>
+      <text x="${centre}" y="${qrTop - nameSize - 4}" font-size="3.5" fill="#667eea" font-weight="600">${escapeXML(eventName.toUpperCase())}</text>
+      <text x="${centre}" y="${qrTop - 3}" font-size="${nameSize}" font-weight="700">${escapeXML(badge.name)}</text>
+      <svg x="${centre - qrSize / 2}" y="${qrTop}" width="${qrSize}" height="${qrSize}" viewBox="${qr.viewBox}" shape-rendering="crispEdges">${qr.body}</svg>
+      <text x="${centre}" y="${qrTop + qrSize + 4}" font-size="2.8" font-family="monospace" fill="#888">${escapeXML(badge.qrcode)}</text>
+    </g>`;
+      });
+      return `
+  <rect x="0" y="${top}" width="${PAGE_WIDTH}" height="${PAGE_HEIGHT}" fill="#fff" stroke="#eee" stroke-width="0.5"/>${cards.join('')}`;
+    })
+    .join('');
+
+  const height = Math.max(pages.length, 1) * PAGE_HEIGHT;
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${PAGE_WIDTH}mm" height="${height}mm" viewBox="0 0 ${PAGE_WIDTH} ${height}" font-family="Helvetica, Arial, sans-serif" text-anchor="middle" fill="#333">${content}
+</svg>
+`;
+};
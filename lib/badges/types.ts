@@ -0,0 +1,22 @@
+/** A badge printed for a walk-in, so the first scan of it finds their name. */
+export interface IssuedBadge {
+  eventId: string;
+  qrcode: string;
+  name: string;
+  issuedAt: string;
+}
+
+/** What goes on one printed badge. */
+export interface Badge {
+  qrcode: string;
+  name: string;
+}
+
+export interface BadgeLayout {
+  id: string;
+  label: string;
+  columns: number;
+  rows: number;
+}
+
+export type BadgesListener = (eventId: string) => void;
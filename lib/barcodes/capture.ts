@@ -0,0 +1,36 @@
+import { CaptureMethod } from './types';
+
+export const CAPTURE_METHOD_LABELS: Record<CaptureMethod, string> = {
+  camera: 'Camera',
+  manual: 'Typed in',
+  wedge: 'Handheld scanner',
+  image: 'Image',
+};
+
+// Longer than any code a person would type, or a 1D barcode could hold
+const MAX_MANUAL_CODE_LENGTH = 512;
+
+export class ManualCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ManualCodeError';
+  }
+}
+
+/**
+ * Tidies a code typed in by hand, throwing a ManualCodeError if it can't be
+ * registered.
+ */
+export const checkManualCode = (input: string): string => {
+  const code = input.trim();
+  if (!code) throw new ManualCodeError('Enter the code printed on the ticket');
+  if (code.length > MAX_MANUAL_CODE_LENGTH) {
+    throw new ManualCodeError(
+      `Codes can be at most ${MAX_MANUAL_CODE_LENGTH} characters`
+    );
+  }
+  if ([...code].some(char => char < ' ' || char === '\u007f')) {
+    throw new ManualCodeError("Codes can't contain line breaks or tabs");
+  }
+  return code;
+};
@@ -0,0 +1,38 @@
+import { scanFromURLAsync } from 'expo-camera';
+import { normalizeSymbology } from './symbologies';
+import { ImageScan, Symbology } from './types';
+
+// Android reports codes read from images by their ML Kit format number
+const ML_KIT_FORMATS: Record<number, Symbology> = {
+  1: 'code128',
+  2: 'code39',
+  4: 'code93',
+  8: 'codabar',
+  16: 'datamatrix',
+  32: 'ean13',
+  64: 'ean8',
+  128: 'itf14',
+  256: 'qr',
+  512: 'upc_a',
+  1024: 'upc_e',
+  2048: 'pdf417',
+  4096: 'aztec',
+};
+
+/**
+ * Reads every barcode of the given types in the image at `uri`, e.g. a
+ * screenshot of a ticket. iOS only finds QR codes.
+ */
+export const scanImage = async (
+  uri: string,
+  barcodeTypes: Symbology[]
+): Promise<ImageScan[]> => {
+  const results = await scanFromURLAsync(uri, barcodeTypes);
+  return results.map(({ data, type }) => ({
+    data,
+    symbology:
+      (typeof type === 'number'
+        ? ML_KIT_FORMATS[type]
+        : normalizeSymbology(type)) ?? 'qr',
+  }));
+};
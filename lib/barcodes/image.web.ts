@@ -0,0 +1,160 @@
+import jsQR from 'jsqr';
+import { normalizeSymbology } from './symbologies';
+import { ImageScan, Symbology } from './types';
+
+declare global {
+  // The Barcode Detection API, not yet in TypeScript's DOM types
+  interface DetectedBarcode {
+    rawValue: string;
+    format: string;
+  }
+
+  interface BarcodeDetector {
+    detect(image: ImageBitmapSource): Promise<DetectedBarcode[]>;
+  }
+
+  interface Window {
+    BarcodeDetector?: {
+      new (options?: { formats: string[] }): BarcodeDetector;
+      getSupportedFormats(): Promise<string[]>;
+    };
+  }
+}
+
+const DETECTOR_FORMATS: Record<Symbology, string> = {
+  qr: 'qr_code',
+  aztec: 'aztec',
+  datamatrix: 'data_matrix',
+  pdf417: 'pdf417',
+  code128: 'code_128',
+  code39: 'code_39',
+  code93: 'code_93',
+  codabar: 'codabar',
+  ean13: 'ean_13',
+  ean8: 'ean_8',
+  upc_a: 'upc_a',
+  upc_e: 'upc_e',
+  itf14: 'itf',
+};
+
+// Larger images are scaled down before decoding; phone screenshots are
+// well within this
+const MAX_DECODE_SIZE = 2000;
+// jsQR finds one code at a time, so stop looking after this many
+const MAX_CODES = 20;
+
+const loadImage = (uri: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The image could not be opened'));
+    image.src = uri;
+  });
+
+const detectBarcodes = async (
+  image: HTMLImageElement,
+  barcodeTypes: Symbology[]
+): Promise<ImageScan[] | null> => {
+  const Detector = window.BarcodeDetector;
+  if (!Detector) return null;
+  const supported = await Detector.getSupportedFormats();
+  const formats = barcodeTypes
+    .map(type => DETECTOR_FORMATS[type])
+    .filter(format => supported.includes(format));
+  if (formats.length === 0) return null;
+  const barcodes = await new Detector({ formats }).detect(image);
+  return barcodes.map(barcode => ({
+    data: barcode.rawValue,
+    symbology: normalizeSymbology(barcode.format) ?? 'qr',
+  }));
+};
+
+/**
+ * Where to look for a QR code: the whole image, then each half and corner.
+ * jsQR can mistake finder patterns of codes side by side for one code.
+ */
+const searchRegions = (width: number, height: number) => {
+  const w = Math.ceil(width * 0.6);
+  const h = Math.ceil(height * 0.6);
+  return [
+    [0, 0, width, height],
+    [0, 0, w, height],
+    [width - w, 0, w, height],
+    [0, 0, width, h],
+    [0, height - h, width, h],
+    [0, 0, w, h],
+    [width - w, 0, w, h],
+    [0, height - h, w, h],
+    [width - w, height - h, w, h],
+  ];
+};
+
+const findQRCode = (
+  context: CanvasRenderingContext2D,
+  width: number,
+  height: number
+) => {
+  for (const [x, y, w, h] of searchRegions(width, height)) {
+    const { data } = context.getImageData(x, y, w, h);
+    const code = jsQR(data, w, h, { inversionAttempts: 'attemptBoth' });
+    if (code) return { code, x, y };
+  }
+  return null;
+};
+
+/**
+ * Finds QR codes with jsQR, painting over each one found so the next pass
+ * finds another.
+ */
+const decodeQRCodes = (image: HTMLImageElement): ImageScan[] => {
+  const scale = Math.min(
+    1,
+    MAX_DECODE_SIZE / Math.max(image.naturalWidth, image.naturalHeight)
+  );
+  const width = Math.round(image.naturalWidth * scale);
+  const height = Math.round(image.naturalHeight * scale);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Images can’t be read in this browser');
+  context.drawImage(image, 0, 0, width, height);
+
+  const scans: ImageScan[] = [];
+  for (let found = 0; found < MAX_CODES; found++) {
+    const match = findQRCode(context, width, height);
+    if (!match) break;
+    const { code, x, y } = match;
+    scans.push({ data: code.data, symbology: 'qr' });
+
+    const { location } = code;
+    context.fillStyle = 'white';
+    context.strokeStyle = 'white';
+    // The outline can be left behind by the fill's antialiasing
+    context.lineWidth = 4;
+    context.beginPath();
+    [
+      location.topLeftCorner,
+      location.topRightCorner,
+      location.bottomRightCorner,
+      location.bottomLeftCorner,
+    ].forEach(corner => context.lineTo(corner.x + x, corner.y + y));
+    context.closePath();
+    context.fill();
+    context.stroke();
+  }
+  return scans;
+};
+
+/**
+ * Reads every barcode of the given types in the image at `uri`, e.g. a
+ * dropped screenshot of a ticket. Browsers without the Barcode Detection API
+ * only find QR codes.
+ */
+export const scanImage = async (
+  uri: string,
+  barcodeTypes: Symbology[]
+): Promise<ImageScan[]> => {
+  const image = await loadImage(uri);
+  return (await detectBarcodes(image, barcodeTypes)) ?? decodeQRCodes(image);
+};
@@ -0,0 +1,5 @@
+export * from './types';
+export * from './symbologies';
+export * from './capture';
+export * from './wedge';
+export * from './image';
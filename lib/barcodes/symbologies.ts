@@ -0,0 +1,95 @@
+import {
+  CaptureMethod,
+  Symbology,
+  SymbologyDuplicateRule,
+  SymbologyOption,
+} from './types';
+
+export const SYMBOLOGIES: SymbologyOption[] = [
+  { id: 'qr', label: 'QR Code', description: 'Tickets, badges and vCards' },
+  {
+    id: 'pdf417',
+    label: 'PDF417',
+    description: 'ID cards, boarding passes',
+  },
+  {
+    id: 'datamatrix',
+    label: 'Data Matrix',
+    description: 'Small square codes on cards and labels',
+  },
+  { id: 'aztec', label: 'Aztec', description: 'Transit and airline tickets' },
+  {
+    id: 'code128',
+    label: 'Code 128',
+    description: 'Membership cards, shipping labels',
+  },
+  { id: 'code39', label: 'Code 39', description: 'Staff and library cards' },
+  { id: 'code93', label: 'Code 93', description: 'Compact Code 39 variant' },
+  { id: 'codabar', label: 'Codabar', description: 'Older library cards' },
+  {
+    id: 'ean13',
+    label: 'EAN-13',
+    description: 'Retail products, loyalty cards',
+  },
+  { id: 'ean8', label: 'EAN-8', description: 'Short retail codes' },
+  { id: 'upc_a', label: 'UPC-A', description: 'North American retail' },
+  { id: 'upc_e', label: 'UPC-E', description: 'Short UPC codes' },
+  { id: 'itf14', label: 'ITF-14', description: 'Cartons and cases' },
+];
+
+export const SYMBOLOGY_LABELS = Object.fromEntries(
+  SYMBOLOGIES.map(option => [option.id, option.label])
+) as Record<Symbology, string>;
+
+const squash = (type: string) => type.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Other names platforms report types by, e.g. Apple's "org.iso.Code128" or
+// "org.gs1.EAN-13"
+const ALIASES = new Map<string, Symbology>([
+  ...SYMBOLOGIES.map(({ id }) => [squash(id), id] as const),
+  ['qrcode', 'qr'],
+  ['itf', 'itf14'],
+  ['orgisoqrcode', 'qr'],
+  ['orgisoaztec', 'aztec'],
+  ['orgisodatamatrix', 'datamatrix'],
+  ['orgisopdf417', 'pdf417'],
+  ['orgisocode128', 'code128'],
+  ['orgisocode39', 'code39'],
+  ['orgisocode39mod43', 'code39'],
+  ['comintermeccode93', 'code93'],
+  ['orggs1ean13', 'ean13'],
+  ['orggs1ean8', 'ean8'],
+  ['orggs1upce', 'upc_e'],
+  ['orggs1itf14', 'itf14'],
+  ['organsicodabar', 'codabar'],
+]);
+
+/**
+ * The barcode type a record was read from, for display and exports. Records
+ * from before other barcodes could be read were all QR codes; typed codes
+ * have none.
+ */
+export const barcodeTypeLabel = (record: {
+  barcodeType?: Symbology;
+  capturedBy?: CaptureMethod;
+}) => {
+  if (record.barcodeType) return SYMBOLOGY_LABELS[record.barcodeType];
+  return record.capturedBy ? '' : SYMBOLOGY_LABELS.qr;
+};
+
+/** The symbology a scan was read from, or null if it isn't one we know. */
+export const normalizeSymbology = (type: string): Symbology | null =>
+  ALIASES.get(squash(type)) ?? null;
+
+/**
+ * The code a scanned value is registered under. QR codes always use the
+ * value itself; under the `symbology` rule other symbologies are prefixed
+ * with their name, e.g. "code128:12345", so they don't collide with a QR
+ * code holding the same value.
+ */
+export const recordCode = (
+  value: string,
+  symbology: Symbology,
+  rule: SymbologyDuplicateRule
+) =>
+  rule === 'symbology' && symbology !== 'qr' ? `${symbology}:${value}` : value;
@@ -0,0 +1,40 @@
+/** Barcode formats the camera can read, named as expo-camera names them. */
+export type Symbology =
+  | 'qr'
+  | 'aztec'
+  | 'datamatrix'
+  | 'pdf417'
+  | 'code128'
+  | 'code39'
+  | 'code93'
+  | 'codabar'
+  | 'ean13'
+  | 'ean8'
+  | 'upc_a'
+  | 'upc_e'
+  | 'itf14';
+
+/**
+ * How the same value read from different symbologies is treated: as one
+ * person (`value`), or as different codes that register separately
+ * (`symbology`).
+ */
+export type SymbologyDuplicateRule = 'value' | 'symbology';
+
+/**
+ * How a code got into the app: read by the camera, typed in by hand, typed
+ * by a handheld scanner acting as a keyboard, or read from an image.
+ */
+export type CaptureMethod = 'camera' | 'manual' | 'wedge' | 'image';
+
+/** A code read from a picked or dropped image. */
+export interface ImageScan {
+  data: string;
+  symbology: Symbology;
+}
+
+export interface SymbologyOption {
+  id: Symbology;
+  label: string;
+  description: string;
+}
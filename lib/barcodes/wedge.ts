@@ -0,0 +1,44 @@
+// Handheld scanners type a whole code in a few milliseconds per key; people
+// take far longer
+const MAX_KEY_GAP_MS = 50;
+// Shorter bursts are more likely stray keys than a scan
+const MIN_CODE_LENGTH = 3;
+
+export interface WedgeReader {
+  /** Feeds one key, as named by `KeyboardEvent.key`. */
+  key: (key: string, at?: number) => void;
+  reset: () => void;
+}
+
+/**
+ * Picks scans out of keystrokes from a scanner that types like a keyboard
+ * (a "keyboard wedge"): a fast burst of characters ending in Enter. Slower
+ * typing is ignored.
+ */
+export const createWedgeReader = (
+  onScan: (code: string) => void
+): WedgeReader => {
+  let buffer = '';
+  let lastKeyAt = 0;
+
+  const reset = () => {
+    buffer = '';
+    lastKeyAt = 0;
+  };
+
+  const key = (key: string, at = Date.now()) => {
+    const burst = buffer !== '' && at - lastKeyAt <= MAX_KEY_GAP_MS;
+    if (key === 'Enter') {
+      const code = buffer;
+      reset();
+      if (burst && code.length >= MIN_CODE_LENGTH) onScan(code);
+      return;
+    }
+    // Modifiers and other named keys, e.g. Shift for capitals
+    if (key.length !== 1) return;
+    buffer = burst ? buffer + key : key;
+    lastKeyAt = at;
+  };
+
+  return { key, reset };
+};
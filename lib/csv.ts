@@ -0,0 +1,68 @@
+const escapeCell = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+export const toCSV = (header: string[], rows: string[][]) =>
+  [header, ...rows].map(row => row.map(escapeCell).join(',')).join('\n');
+
+export interface CSVRow {
+  /** 1-based line number the row starts on, for error messages. */
+  line: number;
+  cells: string[];
+}
+
+/**
+ * RFC 4180 parser: quoted cells may contain commas, newlines and doubled
+ * quotes. Accepts CRLF or LF line endings and a leading byte order mark.
+ * Blank lines are skipped.
+ */
+export const parseCSV = (text: string): CSVRow[] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: CSVRow[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0].trim() !== '') {
+      rows.push({ line: rowLine, cells });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || cells.length > 0) endRow();
+
+  return rows;
+};
+
+/** Lower-cased header with punctuation and spacing removed, for matching. */
+export const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, '');
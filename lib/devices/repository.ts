@@ -0,0 +1,36 @@
+import { getSettings } from '@/lib/settings';
+import {
+  DEVICES_TABLE,
+  DEVICE_ID_KEY,
+  META_TABLE,
+  getStorage,
+} from '@/lib/storage';
+import { KnownDevice } from './types';
+
+let deviceId: string | null = null;
+
+/** Stable id of this installation, assigned when storage is first set up. */
+export const getDeviceId = async () => {
+  if (deviceId) return deviceId;
+  const storage = await getStorage();
+  const stored = await storage.get<{ value: string }>(
+    META_TABLE.name,
+    DEVICE_ID_KEY
+  );
+  if (!stored) throw new Error('Storage has no device id');
+  deviceId = stored.value;
+  return deviceId;
+};
+
+/** Fallback label for a device that hasn't been given a name. */
+export const defaultDeviceName = (deviceId: string) =>
+  `Device ${deviceId.slice(-4).toUpperCase()}`;
+
+export const getDeviceName = async () =>
+  (await getSettings()).deviceName ?? defaultDeviceName(await getDeviceId());
+
+/** Other devices seen in imported bundles. */
+export const listKnownDevices = async (): Promise<KnownDevice[]> => {
+  const storage = await getStorage();
+  return storage.find<KnownDevice>(DEVICES_TABLE.name);
+};
@@ -0,0 +1,7 @@
+/** Another phone whose delta bundle has been imported on this one. */
+export interface KnownDevice {
+  id: string;
+  name: string;
+  /** When its latest bundle was created. */
+  lastBundleAt: string;
+}
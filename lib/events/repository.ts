@@ -0,0 +1,127 @@
+import { FormField } from '@/lib/forms';
+import { createId } from '@/lib/ids';
+import { getSettings, updateSettings } from '@/lib/settings';
+import { EVENTS_TABLE, getStorage } from '@/lib/storage';
+import { EventsListener, QREvent } from './types';
+
+export class EventNotFoundError extends Error {
+  constructor(public eventId: string) {
+    super(`No event found with id "${eventId}"`);
+    this.name = 'EventNotFoundError';
+  }
+}
+
+const listeners = new Set<EventsListener>();
+
+const notify = () => {
+  listeners.forEach(listener => {
+    try {
+      listener();
+    } catch (error) {
+      console.error('Events listener failed:', error);
+    }
+  });
+};
+
+const save = async (event: QREvent) => {
+  const storage = await getStorage();
+  await storage.write([
+    { type: 'put', table: EVENTS_TABLE.name, value: event },
+  ]);
+  notify();
+  return event;
+};
+
+const requireEvent = async (id: string) => {
+  const event = await getEvent(id);
+  if (!event) throw new EventNotFoundError(id);
+  return event;
+};
+
+/** All events, newest first. */
+export const listEvents = async (): Promise<QREvent[]> => {
+  const storage = await getStorage();
+  return storage.find<QREvent>(EVENTS_TABLE.name, {
+    orderBy: 'createdAt',
+    descending: true,
+  });
+};
+
+export const getEvent = async (id: string): Promise<QREvent | null> => {
+  const storage = await getStorage();
+  return storage.get<QREvent>(EVENTS_TABLE.name, id);
+};
+
+export const createEvent = (name: string): Promise<QREvent> =>
+  save({
+    id: createId('evt'),
+    name: name.trim(),
+    createdAt: new Date().toISOString(),
+    archived: false,
+    archivedAt: null,
+  });
+
+export const renameEvent = async (id: string, name: string) =>
+  save({ ...(await requireEvent(id)), name: name.trim() });
+
+/** Replaces the custom fields of an event's registration form. */
+export const updateEventFields = async (id: string, fields: FormField[]) =>
+  save({ ...(await requireEvent(id)), fields });
+
+export const archiveEvent = async (id: string) => {
+  const event = await requireEvent(id);
+  const open = (await listEvents()).filter(
+    other => !other.archived && other.id !== id
+  );
+  if (open.length === 0) {
+    throw new Error('At least one event must stay open');
+  }
+  const archived = await save({
+    ...event,
+    archived: true,
+    archivedAt: new Date().toISOString(),
+  });
+  // Never leave registrations pointing at an archived event
+  if ((await getSettings()).activeEventId === id) {
+    await setActiveEvent(open[0].id);
+  }
+  return archived;
+};
+
+export const restoreEvent = async (id: string) =>
+  save({ ...(await requireEvent(id)), archived: false, archivedAt: null });
+
+export const setActiveEvent = async (id: string) => {
+  const event = await requireEvent(id);
+  if (event.archived) {
+    throw new Error('Archived events cannot be made active');
+  }
+  await updateSettings({ activeEventId: id });
+  notify();
+};
+
+/**
+ * The event new registrations go into: the chosen one if it is still open,
+ * otherwise the newest open event. A fresh event is created if none exist.
+ */
+export const getActiveEvent = async (): Promise<QREvent> => {
+  const { activeEventId } = await getSettings();
+  const chosen = activeEventId ? await getEvent(activeEventId) : null;
+  if (chosen && !chosen.archived) return chosen;
+
+  const fallback =
+    (await listEvents()).find(event => !event.archived) ??
+    (await createEvent('New Event'));
+  await updateSettings({ activeEventId: fallback.id });
+  return fallback;
+};
+
+/** For writes made outside this module, such as restoring a backup. */
+export const reloadEvents = () => notify();
+
+export const subscribeToEvents = (listener: EventsListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,13 @@
+import { FormField } from '@/lib/forms/types';
+
+export interface QREvent {
+  id: string;
+  name: string;
+  createdAt: string;
+  archived: boolean;
+  archivedAt: string | null;
+  /** Extra questions on the registration form, in display order. */
+  fields?: FormField[];
+}
+
+export type EventsListener = () => void;
@@ -0,0 +1,82 @@
+import { QRRecord } from '@/lib/records';
+import { BUNDLE_FORMAT, BUNDLE_VERSION, parseBundle } from '../bundle';
+import { mergeRecord } from '../merge';
+
+const record = (changes: Partial<QRRecord>): QRRecord => ({
+  eventId: 'evt_1',
+  qrcode: 'ABC123',
+  name: 'Jane Doe',
+  timestamp: '2025-03-01T08:00:00.000Z',
+  timezone: 'Africa/Nairobi',
+  ...changes,
+});
+
+const bundleText = (changes: object = {}) =>
+  JSON.stringify({
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    deviceId: 'dev_b',
+    deviceName: 'North Door',
+    createdAt: '2025-03-01T12:00:00.000Z',
+    since: null,
+    events: [{ id: 'evt_1', name: 'Gala' }],
+    records: [record({})],
+    deletions: [],
+    ...changes,
+  });
+
+describe('parseBundle', () => {
+  it('reads bundles from other devices', () => {
+    expect(parseBundle(bundleText()).records).toEqual([record({})]);
+  });
+
+  it('refuses records and deletions missing required fields', () => {
+    const records = [record({}), { eventId: 'evt_1', qrcode: 'X' }];
+    expect(() => parseBundle(bundleText({ records }))).toThrow(
+      'The bundle has 1 malformed entry'
+    );
+    const deletions = [{ eventId: 'evt_1' }, null];
+    expect(() => parseBundle(bundleText({ deletions }))).toThrow(
+      'The bundle has 2 malformed entries'
+    );
+  });
+
+  it('refuses incomplete bundles and other files', () => {
+    expect(() => parseBundle(bundleText({ records: undefined }))).toThrow(
+      'The bundle is incomplete'
+    );
+    expect(() => parseBundle('{}')).toThrow('The file is not a device bundle');
+  });
+});
+
+describe('mergeRecord', () => {
+  it('keeps the newer edit of the same registration', () => {
+    const older = record({
+      deviceId: 'dev_a',
+      updatedAt: '2025-03-01T09:00:00.000Z',
+    });
+    const newer = {
+      ...older,
+      name: 'Jane Smith',
+      updatedAt: '2025-03-01T10:00:00.000Z',
+    };
+    expect(mergeRecord(older, newer)).toEqual(newer);
+    expect(mergeRecord(newer, older)).toEqual(newer);
+  });
+
+  it('gives both devices the same result for independent scans', () => {
+    const first = record({ deviceId: 'dev_a' });
+    const second = record({
+      deviceId: 'dev_b',
+      name: 'J. Doe',
+      timestamp: '2025-03-01T08:05:00.000Z',
+    });
+    const merged = mergeRecord(first, second);
+    expect(mergeRecord(second, first)).toEqual(merged);
+    expect(merged).toMatchObject({
+      deviceId: 'dev_a',
+      timestamp: first.timestamp,
+      duplicateScans: [{ deviceId: 'dev_b', timestamp: second.timestamp }],
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { AuditEntry } from '@/lib/audit';
+import { getDeviceId, getDeviceName } from '@/lib/devices';
+import { QREvent, reloadEvents } from '@/lib/events';
+import {
+  QRRecord,
+  Tombstone,
+  applyRecordWrites,
+  isRecord,
+  isTombstone,
+} from '@/lib/records';
+import {
+  AUDIT_TABLE,
+  EVENTS_TABLE,
+  META_TABLE,
+  RECORDS_TABLE,
+  StorageAdapter,
+  TOMBSTONES_TABLE,
+  encodeKey,
+  getStorage,
+} from '@/lib/storage';
+import { planBundleMerge } from './merge';
+import { BundleMergeSummary, DeltaBundle } from './types';
+
+export const BUNDLE_FORMAT = 'qr-registration-delta';
+export const BUNDLE_VERSION = 1;
+
+const LAST_EXPORT_KEY = 'lastBundleExportAt';
+
+export class BundleFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleFormatError';
+  }
+}
+
+/** When this device last shared a bundle, or null if it never has. */
+export const getLastBundleExport = async () => {
+  const storage = await getStorage();
+  const stored = await storage.get<{ value: string }>(
+    META_TABLE.name,
+    LAST_EXPORT_KEY
+  );
+  return stored?.value ?? null;
+};
+
+/**
+ * Keys of the records stored on this device after `since`, whoever made the
+ * change. Changes merged from other devices keep the time they were made
+ * there, so the audit log is the only record of when they arrived.
+ */
+const storedSince = async (storage: StorageAdapter, since: string) => {
+  const entries = await storage.find<AuditEntry>(AUDIT_TABLE.name, {
+    orderBy: 'timestamp',
+    descending: true,
+  });
+  const keys = new Set<string>();
+  for (const entry of entries) {
+    if (entry.timestamp <= since) break;
+    keys.add(encodeKey([entry.eventId, entry.qrcode]));
+  }
+  return keys;
+};
+
+/**
+ * Collects records changed and deleted since the last exported bundle, or
+ * everything when `full` is set. Changes this device received from others
+ * since then are passed on too, so devices that never exchange directly
+ * still catch up through the ones in between.
+ */
+export const createBundle = async (full: boolean): Promise<DeltaBundle> => {
+  const storage = await getStorage();
+  const since = full ? null : await getLastBundleExport();
+  const stored = since ? await storedSince(storage, since) : new Set<string>();
+  const isNew = (changedAt: string, eventId: string, qrcode: string) =>
+    !since || changedAt > since || stored.has(encodeKey([eventId, qrcode]));
+  const records = (await storage.find<QRRecord>(RECORDS_TABLE.name)).filter(
+    record =>
+      isNew(record.updatedAt ?? record.timestamp, record.eventId, record.qrcode)
+  );
+  const deletions = (
+    await storage.find<Tombstone>(TOMBSTONES_TABLE.name)
+  ).filter(tombstone =>
+    isNew(tombstone.deletedAt, tombstone.eventId, tombstone.qrcode)
+  );
+  const eventIds = new Set(records.map(record => record.eventId));
+  const events = (await storage.find<QREvent>(EVENTS_TABLE.name)).filter(
+    event => eventIds.has(event.id)
+  );
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    deviceId: await getDeviceId(),
+    deviceName: await getDeviceName(),
+    createdAt: new Date().toISOString(),
+    since,
+    events,
+    records,
+    deletions,
+  };
+};
+
+/** Call once a bundle has been handed off, so the next one starts after it. */
+export const markBundleExported = async (bundle: DeltaBundle) => {
+  const storage = await getStorage();
+  await storage.write([
+    {
+      type: 'put',
+      table: META_TABLE.name,
+      value: { key: LAST_EXPORT_KEY, value: bundle.createdAt },
+    },
+  ]);
+};
+
+export const parseBundle = (text: string): DeltaBundle => {
+  let parsed: Partial<DeltaBundle>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new BundleFormatError('The file is not a device bundle');
+  }
+  if (!parsed || parsed.format !== BUNDLE_FORMAT) {
+    throw new BundleFormatError('The file is not a device bundle');
+  }
+  if (parsed.version !== BUNDLE_VERSION) {
+    throw new BundleFormatError(
+      `Bundle format v${parsed.version} is not supported by this app`
+    );
+  }
+  if (
+    typeof parsed.deviceId !== 'string' ||
+    !Array.isArray(parsed.events) ||
+    !Array.isArray(parsed.records) ||
+    !Array.isArray(parsed.deletions)
+  ) {
+    throw new BundleFormatError('The bundle is incomplete');
+  }
+  // A hand-edited file could otherwise store rows missing their key or name
+  const malformed =
+    parsed.records.filter(record => !isRecord(record)).length +
+    parsed.deletions.filter(deletion => !isTombstone(deletion)).length +
+    parsed.events.filter(event => typeof event?.id !== 'string').length;
+  if (malformed > 0) {
+    throw new BundleFormatError(
+      `The bundle has ${malformed} malformed ${malformed === 1 ? 'entry' : 'entries'}`
+    );
+  }
+  return parsed as DeltaBundle;
+};
+
+const requireForeignBundle = async (bundle: DeltaBundle) => {
+  if (bundle.deviceId === (await getDeviceId())) {
+    throw new BundleFormatError('This bundle was exported from this device');
+  }
+};
+
+/** What merging the bundle would do, without changing anything. */
+export const previewBundle = async (
+  bundle: DeltaBundle
+): Promise<BundleMergeSummary> => {
+  await requireForeignBundle(bundle);
+  const { summary } = await planBundleMerge(await getStorage(), bundle);
+  return summary;
+};
+
+/** Merges another device's bundle in one transaction. */
+export const importBundle = async (
+  bundle: DeltaBundle
+): Promise<BundleMergeSummary> => {
+  await requireForeignBundle(bundle);
+  let summary: BundleMergeSummary | null = null;
+  await applyRecordWrites(async storage => {
+    const plan = await planBundleMerge(storage, bundle);
+    summary = plan.summary;
+    return plan.writes;
+  }, 'exchange');
+  reloadEvents();
+  return summary!;
+};
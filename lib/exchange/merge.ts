@@ -0,0 +1,180 @@
+import { QREvent } from '@/lib/events';
+import {
+  DuplicateScan,
+  QRRecord,
+  Tombstone,
+  deleteRecordWrites,
+} from '@/lib/records';
+import {
+  DEVICES_TABLE,
+  EVENTS_TABLE,
+  RECORDS_TABLE,
+  StorageAdapter,
+  TOMBSTONES_TABLE,
+  WriteOp,
+} from '@/lib/storage';
+import { BundleMergeSummary, DeltaBundle } from './types';
+
+const changedAt = (record: QRRecord) => record.updatedAt ?? record.timestamp;
+
+// Ties are broken by device id so every device picks the same copy
+const isBefore = (a: string, b: string, aDevice = '', bDevice = '') =>
+  a < b || (a === b && aDevice < bDevice);
+
+/** Whether two copies are separate registrations made on different devices. */
+export const isIndependentScan = (a: QRRecord, b: QRRecord) =>
+  !!a.deviceId && !!b.deviceId && a.deviceId !== b.deviceId;
+
+/** Every device's earliest scan, leaving out `firstDevice`. */
+const mergeScans = (
+  firstDevice: string | undefined,
+  scans: DuplicateScan[]
+) => {
+  const earliest = new Map<string, DuplicateScan>();
+  scans.forEach(scan => {
+    const current = earliest.get(scan.deviceId);
+    if (!current || scan.timestamp < current.timestamp) {
+      earliest.set(scan.deviceId, scan);
+    }
+  });
+  if (firstDevice) earliest.delete(firstDevice);
+  return [...earliest.values()].sort((a, b) =>
+    a.timestamp.localeCompare(b.timestamp)
+  );
+};
+
+/**
+ * Combines two copies of a record. Copies of the same registration keep the
+ * newer edit. Registrations made independently on two devices become one
+ * record owned by whichever device scanned first, with the other listed in
+ * `duplicateScans`. Both sides get the same result whatever the order.
+ */
+export const mergeRecord = (local: QRRecord, incoming: QRRecord): QRRecord => {
+  const newer = isBefore(
+    changedAt(local),
+    changedAt(incoming),
+    local.deviceId,
+    incoming.deviceId
+  )
+    ? incoming
+    : local;
+  const [first, second] = isBefore(
+    incoming.timestamp,
+    local.timestamp,
+    incoming.deviceId,
+    local.deviceId
+  )
+    ? [incoming, local]
+    : [local, incoming];
+  const independent = isIndependentScan(local, incoming);
+
+  const scans = [
+    ...(local.duplicateScans ?? []),
+    ...(incoming.duplicateScans ?? []),
+    ...(independent
+      ? [{ deviceId: second.deviceId!, timestamp: second.timestamp }]
+      : []),
+  ];
+  const duplicateScans = mergeScans(
+    independent ? first.deviceId : newer.deviceId,
+    scans
+  );
+
+  const merged: QRRecord = independent
+    ? {
+        ...newer,
+        timestamp: first.timestamp,
+        timezone: first.timezone,
+        deviceId: first.deviceId,
+        updatedAt: changedAt(newer),
+      }
+    : { ...newer };
+  if (duplicateScans.length > 0) {
+    merged.duplicateScans = duplicateScans;
+  } else {
+    delete merged.duplicateScans;
+  }
+  return merged;
+};
+
+/**
+ * Works out the writes that merge a bundle into local storage: its events
+ * (local names win), records merged by event and QR code, and deletions that
+ * are newer than the local copy.
+ */
+export const planBundleMerge = async (
+  storage: StorageAdapter,
+  bundle: DeltaBundle
+): Promise<{ writes: WriteOp[]; summary: BundleMergeSummary }> => {
+  const writes: WriteOp[] = [];
+  const summary: BundleMergeSummary = {
+    added: 0,
+    updated: 0,
+    duplicates: 0,
+    deleted: 0,
+    unchanged: 0,
+  };
+
+  for (const event of bundle.events) {
+    if (!(await storage.get<QREvent>(EVENTS_TABLE.name, event.id))) {
+      writes.push({ type: 'put', table: EVENTS_TABLE.name, value: event });
+    }
+  }
+
+  for (const incoming of bundle.records) {
+    const key = [incoming.eventId, incoming.qrcode];
+    const local = await storage.get<QRRecord>(RECORDS_TABLE.name, key);
+    const tombstone = await storage.get<Tombstone>(TOMBSTONES_TABLE.name, key);
+
+    if (!local) {
+      // Deleted here after the other device last changed it
+      if (tombstone && tombstone.deletedAt >= changedAt(incoming)) {
+        summary.unchanged++;
+        continue;
+      }
+      writes.push({ type: 'put', table: RECORDS_TABLE.name, value: incoming });
+      summary.added++;
+      continue;
+    }
+
+    const merged = mergeRecord(local, incoming);
+    if (isIndependentScan(local, incoming)) summary.duplicates++;
+    if (JSON.stringify(merged) === JSON.stringify(local)) {
+      summary.unchanged++;
+      continue;
+    }
+    writes.push({ type: 'put', table: RECORDS_TABLE.name, value: merged });
+    summary.updated++;
+  }
+
+  for (const deletion of bundle.deletions) {
+    const local = await storage.get<QRRecord>(RECORDS_TABLE.name, [
+      deletion.eventId,
+      deletion.qrcode,
+    ]);
+    if (!local || changedAt(local) > deletion.deletedAt) {
+      summary.unchanged++;
+      continue;
+    }
+    writes.push(
+      ...(await deleteRecordWrites(
+        storage,
+        deletion.eventId,
+        deletion.qrcode,
+        deletion
+      ))
+    );
+    summary.deleted++;
+  }
+
+  writes.push({
+    type: 'put',
+    table: DEVICES_TABLE.name,
+    value: {
+      id: bundle.deviceId,
+      name: bundle.deviceName,
+      lastBundleAt: bundle.createdAt,
+    },
+  });
+  return { writes, summary };
+};
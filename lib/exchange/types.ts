@@ -0,0 +1,25 @@
+import { QREvent } from '@/lib/events';
+import { QRRecord, Tombstone } from '@/lib/records';
+
+/** Changes one device made, for merging on the others without a server. */
+export interface DeltaBundle {
+  format: string;
+  version: number;
+  deviceId: string;
+  deviceName: string;
+  createdAt: string;
+  /** Only changes after this time are included; null for everything. */
+  since: string | null;
+  events: QREvent[];
+  records: QRRecord[];
+  deletions: Tombstone[];
+}
+
+export interface BundleMergeSummary {
+  added: number;
+  updated: number;
+  /** Codes this device and the bundle's device both registered. */
+  duplicates: number;
+  deleted: number;
+  unchanged: number;
+}
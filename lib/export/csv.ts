@@ -0,0 +1,106 @@
+import { Visit, visitDurationMinutes } from '@/lib/attendance';
+import { AuditEntry, formatAuditValue } from '@/lib/audit';
+import { barcodeTypeLabel } from '@/lib/barcodes';
+import { toCSV } from '@/lib/csv';
+import { FormField, formatFieldValue } from '@/lib/forms';
+import { QRRecord } from '@/lib/records';
+import { formatExportTime, getTimeZoneLabel } from '@/lib/time';
+
+/**
+ * One row per registration: `Name,QR Code,Registration Date (<zone>),Barcode
+ * Type`, followed by a column per custom form field.
+ */
+export const recordsToCSV = (
+  records: QRRecord[],
+  timeZone: string,
+  fields: FormField[] = []
+) =>
+  toCSV(
+    [
+      'Name',
+      'QR Code',
+      `Registration Date (${getTimeZoneLabel(timeZone)})`,
+      'Barcode Type',
+      ...fields.map(field => field.label),
+    ],
+    records.map(record => [
+      record.name || '',
+      record.qrcode || '',
+      formatExportTime(record.timestamp, timeZone),
+      barcodeTypeLabel(record),
+      ...fields.map(field =>
+        formatFieldValue(field, record.fields?.[field.id])
+      ),
+    ])
+  );
+
+/** One row per visit, with the person's name looked up from the records. */
+export const visitsToCSV = (
+  visits: Visit[],
+  records: QRRecord[],
+  timeZone: string
+) => {
+  const names = new Map(records.map(record => [record.qrcode, record.name]));
+  const zone = getTimeZoneLabel(timeZone);
+  return toCSV(
+    [
+      'Name',
+      'QR Code',
+      `Check In (${zone})`,
+      `Check Out (${zone})`,
+      'Duration (min)',
+    ],
+    visits.map(visit => [
+      names.get(visit.qrcode) ?? '',
+      visit.qrcode,
+      formatExportTime(visit.checkIn, timeZone),
+      visit.checkOut ? formatExportTime(visit.checkOut, timeZone) : '',
+      String(visitDurationMinutes(visit) ?? ''),
+    ])
+  );
+};
+
+/**
+ * One row per changed field of each audit entry. Names of deleted records
+ * are the last ones found in the entries themselves.
+ */
+export const auditToCSV = (
+  entries: AuditEntry[],
+  records: QRRecord[],
+  timeZone: string
+) => {
+  const names = new Map<string, string>();
+  entries.forEach(entry => {
+    const name = entry.changes.find(change => change.field === 'name');
+    if (name) names.set(entry.qrcode, formatAuditValue(name.to ?? name.from));
+  });
+  records.forEach(record => names.set(record.qrcode, record.name));
+  return toCSV(
+    [
+      `Time (${getTimeZoneLabel(timeZone)})`,
+      'Name',
+      'QR Code',
+      'Action',
+      'Source',
+      'Field',
+      'Old Value',
+      'New Value',
+      'Device',
+      'Operator',
+    ],
+    entries.flatMap(entry =>
+      (entry.changes.length > 0 ? entry.changes : [null]).map(change => [
+        formatExportTime(entry.timestamp, timeZone),
+        names.get(entry.qrcode) ?? '',
+        entry.qrcode,
+        entry.action,
+        entry.source,
+        change?.field ?? '',
+        formatAuditValue(change?.from),
+        formatAuditValue(change?.to),
+        entry.deviceId,
+        entry.operator ?? '',
+      ])
+    )
+  );
+};
@@ -0,0 +1,41 @@
+export type ExportFormat = 'csv' | 'json' | 'xlsx' | 'pdf';
+
+export interface ExportFormatOption {
+  id: ExportFormat;
+  label: string;
+  description: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: ExportFormatOption[] = [
+  {
+    id: 'csv',
+    label: '📄 CSV',
+    description: 'Spreadsheet-friendly text, can be imported back',
+    extension: 'csv',
+    mimeType: 'text/csv',
+  },
+  {
+    id: 'xlsx',
+    label: '📗 Excel Workbook',
+    description: 'XLSX with real date cells',
+    extension: 'xlsx',
+    mimeType:
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  },
+  {
+    id: 'json',
+    label: '🧩 JSON',
+    description: 'Machine-readable, UTC timestamps',
+    extension: 'json',
+    mimeType: 'application/json',
+  },
+  {
+    id: 'pdf',
+    label: '🧾 PDF Report',
+    description: 'Printable summary with totals',
+    extension: 'pdf',
+    mimeType: 'application/pdf',
+  },
+];
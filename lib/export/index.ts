@@ -0,0 +1,6 @@
+export * from './csv';
+export * from './formats';
+export * from './json';
+export * from './pdf';
+export * from './share';
+export * from './xlsx';
@@ -0,0 +1,44 @@
+import { QREvent } from '@/lib/events';
+import { QRRecord } from '@/lib/records';
+
+export const RECORDS_JSON_FORMAT = 'qr-registration-records';
+export const RECORDS_JSON_VERSION = 1;
+
+/**
+ * Machine-readable export. Timestamps stay in UTC ISO 8601 with the zone
+ * they were captured in, so scripts don't have to parse display formats.
+ * Form answers keep their stored type, keyed by field id; the event lists
+ * the fields with their labels.
+ */
+export const recordsToJSON = (event: QREvent, records: QRRecord[]) =>
+  JSON.stringify(
+    {
+      format: RECORDS_JSON_FORMAT,
+      version: RECORDS_JSON_VERSION,
+      exportedAt: new Date().toISOString(),
+      event: {
+        id: event.id,
+        name: event.name,
+        fields: (event.fields ?? []).map(({ id, label, type }) => ({
+          id,
+          label,
+          type,
+        })),
+      },
+      count: records.length,
+      records: records.map(record => ({
+        qrcode: record.qrcode,
+        name: record.name,
+        timestamp: record.timestamp,
+        timezone: record.timezone,
+        barcodeType: record.barcodeType ?? (record.capturedBy ? null : 'qr'),
+        capturedBy: record.capturedBy ?? 'camera',
+        onSite: record.onSite ?? false,
+        lastSeenAt: record.lastSeenAt ?? null,
+        tags: record.tags ?? [],
+        fields: record.fields ?? {},
+      })),
+    },
+    null,
+    2
+  );
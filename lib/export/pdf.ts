@@ -0,0 +1,99 @@
+import { barcodeTypeLabel } from '@/lib/barcodes';
+import { QRRecord } from '@/lib/records';
+import { formatDisplayTime, formatExportTime } from '@/lib/time';
+
+const escapeHTML = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export interface RecordsReport {
+  eventName: string;
+  records: QRRecord[];
+  timeZone: string;
+  locale: string | null;
+  /** Size of the guest list, if one was imported. */
+  expectedGuests: number | null;
+  /** Include the on-site column and total. */
+  attendanceMode: boolean;
+}
+
+/** Printable summary of an event: totals followed by one row per attendee. */
+export const recordsToReportHTML = ({
+  eventName,
+  records,
+  timeZone,
+  locale,
+  expectedGuests,
+  attendanceMode,
+}: RecordsReport) => {
+  const totals: [string, string | number][] = [['Registered', records.length]];
+  if (expectedGuests !== null) {
+    totals.push(['Expected', expectedGuests]);
+  }
+  if (attendanceMode) {
+    totals.push(['On site', records.filter(record => record.onSite).length]);
+  }
+
+  const rows = records
+    .map(
+      (record, index) => `
+        <tr>
+          <td>${index + 1}</td>
+          <td>${escapeHTML(record.name)}</td>
+          <td class="code">${escapeHTML(record.qrcode)}</td>
+          <td>${barcodeTypeLabel(record)}</td>
+          <td>${escapeHTML(formatExportTime(record.timestamp, timeZone))}</td>
+          ${attendanceMode ? `<td>${record.onSite ? 'Yes' : 'No'}</td>` : ''}
+        </tr>`
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <style>
+      body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #333; padding: 24px; }
+      h1 { margin: 0 0 4px; font-size: 22px; }
+      .generated { color: #888; font-size: 12px; margin-bottom: 16px; }
+      .totals { display: flex; gap: 12px; margin-bottom: 20px; }
+      .total { border: 1px solid #e9ecef; border-radius: 8px; padding: 8px 16px; }
+      .total strong { display: block; font-size: 20px; color: #4CAF50; }
+      table { width: 100%; border-collapse: collapse; font-size: 12px; }
+      th { background: #667eea; color: white; text-align: left; padding: 6px; }
+      td { border-bottom: 1px solid #e9ecef; padding: 6px; }
+      .code { font-family: monospace; word-break: break-all; }
+    </style>
+  </head>
+  <body>
+    <h1>${escapeHTML(eventName)}</h1>
+    <div class="generated">
+      Generated ${escapeHTML(formatDisplayTime(new Date().toISOString(), timeZone, locale))}
+    </div>
+    <div class="totals">
+      ${totals
+        .map(
+          ([label, value]) =>
+            `<div class="total"><strong>${value}</strong>${label}</div>`
+        )
+        .join('')}
+    </div>
+    <table>
+      <thead>
+        <tr>
+          <th>#</th>
+          <th>Name</th>
+          <th>QR Code</th>
+          <th>Type</th>
+          <th>Registered</th>
+          ${attendanceMode ? '<th>On site</th>' : ''}
+        </tr>
+      </thead>
+      <tbody>${rows}</tbody>
+    </table>
+  </body>
+</html>`;
+};
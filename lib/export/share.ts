@@ -0,0 +1,130 @@
+import { Platform, Share } from 'react-native';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { downloadFile } from '@/lib/files';
+
+export const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+
+/** e.g. "qr-registration-day-1-2026-10-19T08-30-00.csv" */
+export const exportFilename = (
+  prefix: string,
+  eventName: string | null,
+  extension: string
+) => {
+  const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
+  const parts = [prefix, eventName ? slugify(eventName) : null, timestamp];
+  return `${parts.filter(Boolean).join('-')}.${extension}`;
+};
+
+/**
+ * Opens the share sheet for a file that's already on disk. Where file
+ * sharing isn't available the `fallbackMessage` is shared as text instead.
+ */
+export const shareFile = async ({
+  fileUri,
+  mimeType,
+  title,
+  fallbackMessage,
+}: {
+  fileUri: string;
+  mimeType: string;
+  title: string;
+  fallbackMessage: string;
+}) => {
+  if (await Sharing.isAvailableAsync()) {
+    await Sharing.shareAsync(fileUri, { mimeType, dialogTitle: title });
+  } else {
+    await Share.share({ message: fallbackMessage, title });
+  }
+};
+
+/**
+ * Writes text to the documents directory and opens the share sheet, falling
+ * back to sharing the text itself where file sharing isn't available. Web
+ * builds download the file instead.
+ */
+export const shareTextFile = async ({
+  filename,
+  content,
+  mimeType,
+  title,
+}: {
+  filename: string;
+  content: string;
+  mimeType: string;
+  title: string;
+}) => {
+  if (Platform.OS === 'web') {
+    downloadFile({ filename, content, mimeType });
+    return;
+  }
+
+  const fileUri = FileSystem.documentDirectory + filename;
+  await FileSystem.writeAsStringAsync(fileUri, content, {
+    encoding: FileSystem.EncodingType.UTF8,
+  });
+  await shareFile({ fileUri, mimeType, title, fallbackMessage: content });
+};
+
+/** Like shareTextFile, for binary content such as workbooks. */
+export const shareBase64File = async ({
+  filename,
+  base64,
+  mimeType,
+  title,
+  fallbackMessage,
+}: {
+  filename: string;
+  base64: string;
+  mimeType: string;
+  title: string;
+  fallbackMessage: string;
+}) => {
+  if (Platform.OS === 'web') {
+    const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+    downloadFile({ filename, content: bytes, mimeType });
+    return;
+  }
+
+  const fileUri = FileSystem.documentDirectory + filename;
+  await FileSystem.writeAsStringAsync(fileUri, base64, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  await shareFile({ fileUri, mimeType, title, fallbackMessage });
+};
+
+/**
+ * Renders HTML to a PDF and shares it. The web has no PDF renderer, so the
+ * browser's print dialog (which can save as PDF) is opened instead.
+ */
+export const sharePDF = async ({
+  filename,
+  html,
+  title,
+  fallbackMessage,
+}: {
+  filename: string;
+  html: string;
+  title: string;
+  fallbackMessage: string;
+}) => {
+  if (Platform.OS === 'web') {
+    await Print.printAsync({ html });
+    return;
+  }
+
+  const { uri } = await Print.printToFileAsync({ html });
+  const fileUri = FileSystem.documentDirectory + filename;
+  await FileSystem.moveAsync({ from: uri, to: fileUri });
+  await shareFile({
+    fileUri,
+    mimeType: 'application/pdf',
+    title,
+    fallbackMessage,
+  });
+};
@@ -0,0 +1,84 @@
+import * as XLSX from 'xlsx';
+import { barcodeTypeLabel } from '@/lib/barcodes';
+import { FormField, formatFieldValue } from '@/lib/forms';
+import { QRRecord } from '@/lib/records';
+import { getTimeZoneLabel, getZonedParts } from '@/lib/time';
+
+const DATE_FORMAT = 'yyyy-mm-dd hh:mm:ss';
+const EXCEL_EPOCH_OFFSET_DAYS = 25569; // 1970-01-01 as an Excel serial
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Excel date cells have no zone, so the serial holds the wall-clock time in
+ * `timeZone`; the column header names the zone.
+ */
+const toDateCell = (timestamp: string, timeZone: string): XLSX.CellObject => {
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) return { t: 's', v: '' };
+  const { year, month, day, hour, minute, second } = getZonedParts(
+    date,
+    timeZone
+  );
+  const wallClock = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  return {
+    t: 'n',
+    v: wallClock / MS_PER_DAY + EXCEL_EPOCH_OFFSET_DAYS,
+    z: DATE_FORMAT,
+  };
+};
+
+/**
+ * A single-sheet workbook of registrations, base64-encoded, with a column
+ * per custom form field after the registration date and barcode type.
+ */
+export const recordsToXLSX = (
+  records: QRRecord[],
+  timeZone: string,
+  sheetName = 'Registrations',
+  fields: FormField[] = []
+) => {
+  const zone = getTimeZoneLabel(timeZone);
+  const sheet = XLSX.utils.aoa_to_sheet([
+    [
+      'Name',
+      'QR Code',
+      `Registration Date (${zone})`,
+      'Barcode Type',
+      ...fields.map(field => field.label),
+    ],
+    ...records.map(record => [
+      record.name || '',
+      record.qrcode || '',
+      '',
+      barcodeTypeLabel(record),
+      ...fields.map(field => {
+        const value = record.fields?.[field.id];
+        // Numbers stay numeric so they can be summed in Excel
+        return field.type === 'number' && typeof value === 'number'
+          ? value
+          : formatFieldValue(field, value);
+      }),
+    ]),
+  ]);
+
+  records.forEach((record, index) => {
+    const address = XLSX.utils.encode_cell({ r: index + 1, c: 2 });
+    sheet[address] = toDateCell(record.timestamp, timeZone);
+  });
+  sheet['!ref'] = XLSX.utils.encode_range({
+    s: { r: 0, c: 0 },
+    e: { r: records.length, c: 3 + fields.length },
+  });
+  sheet['!cols'] = [
+    { wch: 28 },
+    { wch: 32 },
+    { wch: 22 },
+    { wch: 14 },
+    ...fields.map(() => ({ wch: 20 })),
+  ];
+
+  const workbook = XLSX.utils.book_new();
+  // Sheet names are limited to 31 characters
+  XLSX.utils.book_append_sheet(workbook, sheet, sheetName.slice(0, 31));
+  return XLSX.write(workbook, { type: 'base64', bookType: 'xlsx' }) as string;
+};
@@ -0,0 +1,43 @@
+declare global {
+  interface Window {
+    /** Bridge injected by the Android WebView wrapper around the web build. */
+    Android?: {
+      saveFile?: (
+        filename: string,
+        content: string,
+        mimeType: string
+      ) => boolean;
+    };
+  }
+}
+
+/**
+ * Saves a file from a web build. Inside the Android WebView wrapper, text is
+ * handed to its `saveFile` bridge; everywhere else the browser downloads it.
+ */
+export const downloadFile = ({
+  filename,
+  content,
+  mimeType,
+}: {
+  filename: string;
+  content: string | Uint8Array;
+  mimeType: string;
+}) => {
+  if (typeof content === 'string' && window.Android?.saveFile) {
+    try {
+      if (window.Android.saveFile(filename, content, mimeType)) return;
+    } catch (error) {
+      console.error('Android file bridge failed:', error);
+    }
+  }
+
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,3 @@
+export * from './pickFile';
+export * from './pickImages';
+export * from './download';
@@ -0,0 +1,31 @@
+import { File } from 'expo-file-system';
+
+export interface PickedFile {
+  name: string;
+  text(): Promise<string>;
+  bytes(): Promise<Uint8Array>;
+}
+
+/**
+ * Opens the system file picker. Resolves to null if the user backs out
+ * without choosing a file.
+ */
+export const pickFile = async (
+  mimeType?: string
+): Promise<PickedFile | null> => {
+  let picked: Awaited<ReturnType<typeof File.pickFileAsync>>;
+  try {
+    picked = await File.pickFileAsync(undefined, mimeType);
+  } catch (error) {
+    if (error instanceof Error && /cancel/i.test(error.message)) return null;
+    throw error;
+  }
+
+  const file = Array.isArray(picked) ? picked[0] : picked;
+  if (!file) return null;
+  return {
+    name: decodeURIComponent(file.uri.split('/').pop() ?? 'file'),
+    text: () => file.text(),
+    bytes: () => file.bytes(),
+  };
+};
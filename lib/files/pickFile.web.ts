@@ -0,0 +1,27 @@
+export interface PickedFile {
+  name: string;
+  text(): Promise<string>;
+  bytes(): Promise<Uint8Array>;
+}
+
+/**
+ * Opens the browser's file dialog. Resolves to null if the user cancels.
+ */
+export const pickFile = (mimeType?: string): Promise<PickedFile | null> =>
+  new Promise(resolve => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    if (mimeType) input.accept = mimeType;
+    input.onchange = () => {
+      const file = input.files?.[0];
+      resolve(file ? fromBrowserFile(file) : null);
+    };
+    input.addEventListener('cancel', () => resolve(null));
+    input.click();
+  });
+
+export const fromBrowserFile = (file: Blob & { name: string }): PickedFile => ({
+  name: file.name,
+  text: () => file.text(),
+  bytes: async () => new Uint8Array(await file.arrayBuffer()),
+});
@@ -0,0 +1,15 @@
+import { launchImageLibraryAsync } from 'expo-image-picker';
+
+/**
+ * Opens the photo library, or the browser's file dialog on the web, to
+ * choose one or more images. Resolves to their URIs, or null if the user
+ * backs out.
+ */
+export const pickImages = async (): Promise<string[] | null> => {
+  const result = await launchImageLibraryAsync({
+    mediaTypes: ['images'],
+    allowsMultipleSelection: true,
+    quality: 1,
+  });
+  return result.canceled ? null : result.assets.map(asset => asset.uri);
+};
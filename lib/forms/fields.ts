@@ -0,0 +1,192 @@
+import { createId } from '@/lib/ids';
+import {
+  FieldInputs,
+  FieldValue,
+  FieldValues,
+  FormField,
+  FormFieldInput,
+  FormFieldType,
+} from './types';
+
+export const FIELD_TYPES: { id: FormFieldType; label: string }[] = [
+  { id: 'text', label: 'Text' },
+  { id: 'number', label: 'Number' },
+  { id: 'phone', label: 'Phone' },
+  { id: 'select', label: 'Select' },
+  { id: 'checkbox', label: 'Checkbox' },
+];
+
+// Digits with optional leading +, spaces, dashes, dots and brackets
+const PHONE_PATTERN = /^\+?[\d\s().-]+$/;
+const MIN_PHONE_DIGITS = 6;
+const MAX_PHONE_DIGITS = 15;
+
+export class FormFieldError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormFieldError';
+  }
+}
+
+export const createFormField = (input: FormFieldInput): FormField => ({
+  ...checkFormField(input),
+  id: createId('fld'),
+});
+
+/**
+ * Tidies a field definition from the form builder, throwing a
+ * FormFieldError if it can't be used.
+ */
+export const checkFormField = (input: FormFieldInput): FormFieldInput => {
+  const label = input.label.trim();
+  if (!label) throw new FormFieldError('Every field needs a label');
+
+  const options =
+    input.type === 'select'
+      ? [...new Set(input.options.map(option => option.trim()))].filter(Boolean)
+      : [];
+  if (input.type === 'select' && options.length === 0) {
+    throw new FormFieldError(`Add at least one choice to "${label}"`);
+  }
+
+  const pattern =
+    input.type === 'text' && input.pattern?.trim()
+      ? input.pattern.trim()
+      : null;
+  if (pattern) {
+    try {
+      new RegExp(pattern);
+    } catch {
+      throw new FormFieldError(`The pattern for "${label}" isn't valid`);
+    }
+  }
+
+  const isNumber = input.type === 'number';
+  const min = isNumber ? input.min : null;
+  const max = isNumber ? input.max : null;
+  if (min !== null && max !== null && min > max) {
+    throw new FormFieldError(`The minimum for "${label}" is above the maximum`);
+  }
+
+  return { ...input, label, options, pattern, min, max };
+};
+
+/** Form inputs pre-filled with a record's answers, e.g. for editing it. */
+export const toFieldInputs = (
+  fields: FormField[],
+  values: FieldValues = {}
+): FieldInputs =>
+  Object.fromEntries(
+    fields.map(field => {
+      const value = values[field.id];
+      return [
+        field.id,
+        field.type === 'checkbox'
+          ? value === true
+          : value === undefined
+            ? ''
+            : String(value),
+      ];
+    })
+  );
+
+/** Checks one answer, returning the value to store or an error message. */
+const parseFieldInput = (
+  field: FormField,
+  input: string | boolean | undefined
+): { value?: FieldValue; error?: string } => {
+  if (field.type === 'checkbox') {
+    const checked = input === true;
+    if (field.required && !checked) return { error: 'Must be ticked' };
+    return { value: checked };
+  }
+
+  const text = typeof input === 'string' ? input.trim() : '';
+  if (!text) return field.required ? { error: 'Required' } : {};
+
+  switch (field.type) {
+    case 'number': {
+      const number = Number(text.replace(',', '.'));
+      if (!Number.isFinite(number)) return { error: 'Enter a number' };
+      if (field.min !== null && number < field.min) {
+        return { error: `Must be at least ${field.min}` };
+      }
+      if (field.max !== null && number > field.max) {
+        return { error: `Must be at most ${field.max}` };
+      }
+      return { value: number };
+    }
+    case 'phone': {
+      const digits = text.replace(/\D/g, '').length;
+      if (
+        !PHONE_PATTERN.test(text) ||
+        digits < MIN_PHONE_DIGITS ||
+        digits > MAX_PHONE_DIGITS
+      ) {
+        return { error: 'Enter a valid phone number' };
+      }
+      return { value: text };
+    }
+    case 'select':
+      return field.options.includes(text)
+        ? { value: text }
+        : { error: 'Pick one of the choices' };
+    default:
+      if (field.pattern && !new RegExp(field.pattern).test(text)) {
+        return { error: "Doesn't match the expected format" };
+      }
+      return { value: text };
+  }
+};
+
+/**
+ * Validates form inputs against the fields. `values` holds the answers to
+ * store and `errors` a message per invalid field id; the form can be saved
+ * when `errors` is empty.
+ */
+export const parseFieldInputs = (fields: FormField[], inputs: FieldInputs) => {
+  const values: FieldValues = {};
+  const errors: Record<string, string> = {};
+  fields.forEach(field => {
+    const { value, error } = parseFieldInput(field, inputs[field.id]);
+    if (error) errors[field.id] = error;
+    else if (value !== undefined) values[field.id] = value;
+  });
+  return { values, errors };
+};
+
+/** An answer as text for cards and exports. */
+export const formatFieldValue = (
+  field: FormField,
+  value: FieldValue | undefined
+) => {
+  if (value === undefined) return '';
+  if (field.type === 'checkbox') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+/**
+ * Reads an answer back from the text `formatFieldValue` writes, e.g. an
+ * imported CSV cell. Blank text is unanswered; a number field that doesn't
+ * hold a number throws a FormFieldError.
+ */
+export const parseFieldText = (
+  field: FormField,
+  text: string
+): FieldValue | undefined => {
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+  switch (field.type) {
+    case 'checkbox':
+      return ['yes', 'true', '1'].includes(trimmed.toLowerCase());
+    case 'number': {
+      const number = Number(trimmed.replace(',', '.'));
+      if (!Number.isFinite(number)) {
+        throw new FormFieldError(`"${trimmed}" isn't a number`);
+      }
+      return number;
+    }
+    default:
+      return trimmed;
+  }
+};
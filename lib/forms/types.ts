@@ -0,0 +1,28 @@
+export type FormFieldType = 'text' | 'number' | 'phone' | 'select' | 'checkbox';
+
+/** An extra question on an event's registration form. */
+export interface FormField {
+  /** Key the answer is stored under; stays the same when the field is renamed. */
+  id: string;
+  label: string;
+  type: FormFieldType;
+  /** Required checkboxes must be ticked, e.g. for consent. */
+  required: boolean;
+  /** Choices for select fields. */
+  options: string[];
+  /** Regular expression text answers must match, or null for any text. */
+  pattern: string | null;
+  /** Bounds for number fields, or null for none. */
+  min: number | null;
+  max: number | null;
+}
+
+export type FormFieldInput = Omit<FormField, 'id'>;
+
+export type FieldValue = string | number | boolean;
+
+/** Answers stored on a record, keyed by field id. Unanswered fields are left out. */
+export type FieldValues = Record<string, FieldValue>;
+
+/** What the form inputs hold while being filled in: text, or a checkbox state. */
+export type FieldInputs = Record<string, string | boolean>;
@@ -0,0 +1,92 @@
+import { normalizeHeader, parseCSV } from '@/lib/csv';
+import { GuestListParseResult } from './types';
+
+const CODE_HEADERS = ['qrcode', 'code', 'qr', 'ticket', 'ticketid', 'id'];
+const NAME_HEADERS = ['name', 'fullname', 'personname', 'attendee', 'guest'];
+
+const findColumn = (headers: string[], candidates: string[]) => {
+  const normalized = headers.map(normalizeHeader);
+  for (const candidate of candidates) {
+    const index = normalized.indexOf(candidate);
+    if (index !== -1) return index;
+  }
+  return -1;
+};
+
+export class GuestListFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GuestListFormatError';
+  }
+}
+
+/**
+ * Parses an expected-attendee CSV. The first row must be a header with a
+ * QR code column and a name column; any other columns are kept as extras.
+ * Throws GuestListFormatError if the file can't be used at all, otherwise
+ * reports per-row problems alongside the usable guests.
+ */
+export const parseGuestList = (text: string): GuestListParseResult => {
+  const [header, ...rows] = parseCSV(text);
+  if (!header) {
+    throw new GuestListFormatError('The file is empty');
+  }
+
+  const headers = header.cells.map(cell => cell.trim());
+  const codeColumn = findColumn(headers, CODE_HEADERS);
+  const nameColumn = findColumn(headers, NAME_HEADERS);
+  if (codeColumn === -1) {
+    throw new GuestListFormatError(
+      'No QR code column found. Add a header named "qrcode".'
+    );
+  }
+  if (nameColumn === -1) {
+    throw new GuestListFormatError(
+      'No name column found. Add a header named "name".'
+    );
+  }
+
+  const result: GuestListParseResult = {
+    guests: [],
+    errors: [],
+    duplicates: [],
+  };
+  const seen = new Map<string, number>();
+
+  rows.forEach(({ line, cells }) => {
+    if (cells.length !== headers.length) {
+      result.errors.push({
+        line,
+        message: `Expected ${headers.length} columns but found ${cells.length}`,
+      });
+      return;
+    }
+
+    const qrcode = cells[codeColumn].trim();
+    const name = cells[nameColumn].trim();
+    if (!qrcode) {
+      result.errors.push({ line, message: 'Missing QR code' });
+      return;
+    }
+
+    const firstLine = seen.get(qrcode);
+    if (firstLine !== undefined) {
+      result.duplicates.push({
+        line,
+        message: `"${qrcode}" already appears on line ${firstLine}`,
+      });
+      return;
+    }
+    seen.set(qrcode, line);
+
+    const extra: Record<string, string> = {};
+    headers.forEach((column, index) => {
+      if (index !== codeColumn && index !== nameColumn && column) {
+        extra[column] = cells[index].trim();
+      }
+    });
+    result.guests.push({ qrcode, name: name || 'Unnamed', extra });
+  });
+
+  return result;
+};
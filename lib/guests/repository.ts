@@ -0,0 +1,77 @@
+import { GUESTS_TABLE, WriteOp, getStorage } from '@/lib/storage';
+import { Guest, GuestListParseResult, GuestsListener } from './types';
+
+const listeners = new Set<GuestsListener>();
+
+const notify = (eventId: string) => {
+  listeners.forEach(listener => {
+    try {
+      listener(eventId);
+    } catch (error) {
+      console.error('Guests listener failed:', error);
+    }
+  });
+};
+
+/** Guest list of an event, sorted by name. */
+export const listGuests = async (eventId: string): Promise<Guest[]> => {
+  const storage = await getStorage();
+  return storage.find<Guest>(GUESTS_TABLE.name, {
+    where: { eventId },
+    orderBy: 'name',
+  });
+};
+
+export const countGuests = async (eventId: string): Promise<number> => {
+  const storage = await getStorage();
+  return storage.count(GUESTS_TABLE.name, { eventId });
+};
+
+export const getGuest = async (
+  eventId: string,
+  qrcode: string
+): Promise<Guest | null> => {
+  const storage = await getStorage();
+  return storage.get<Guest>(GUESTS_TABLE.name, [eventId, qrcode]);
+};
+
+const deleteGuestsOps = async (eventId: string): Promise<WriteOp[]> =>
+  (await listGuests(eventId)).map(guest => ({
+    type: 'delete',
+    table: GUESTS_TABLE.name,
+    key: [eventId, guest.qrcode],
+  }));
+
+/** Replaces the event's guest list with the parsed guests in one write. */
+export const replaceGuestList = async (
+  eventId: string,
+  guests: GuestListParseResult['guests']
+) => {
+  const storage = await getStorage();
+  const importedAt = new Date().toISOString();
+  await storage.write([
+    ...(await deleteGuestsOps(eventId)),
+    ...guests.map((guest): WriteOp => ({
+      type: 'put',
+      table: GUESTS_TABLE.name,
+      value: { ...guest, eventId, importedAt },
+    })),
+  ]);
+  notify(eventId);
+};
+
+export const clearGuestList = async (eventId: string) => {
+  const storage = await getStorage();
+  await storage.write(await deleteGuestsOps(eventId));
+  notify(eventId);
+};
+
+/** For writes made outside this module, such as restoring a backup. */
+export const reloadGuests = (eventIds: string[]) => eventIds.forEach(notify);
+
+export const subscribeToGuests = (listener: GuestsListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,24 @@
+export interface Guest {
+  eventId: string;
+  qrcode: string;
+  name: string;
+  /** Any other columns from the imported file, keyed by header. */
+  extra: Record<string, string>;
+  importedAt: string;
+}
+
+export interface GuestListIssue {
+  /** Line in the source file, counting the header as line 1. */
+  line: number;
+  message: string;
+}
+
+export interface GuestListParseResult {
+  guests: Omit<Guest, 'eventId' | 'importedAt'>[];
+  /** Rows that could not be used at all. */
+  errors: GuestListIssue[];
+  /** Rows whose code already appeared earlier in the file; the first wins. */
+  duplicates: GuestListIssue[];
+}
+
+export type GuestsListener = (eventId: string) => void;
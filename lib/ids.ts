@@ -0,0 +1,6 @@
+/**
+ * Short, sortable, collision-resistant id for rows created on this device,
+ * e.g. "evt_m1x2k3_8f3a".
+ */
+export const createId = (prefix: string) =>
+  `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
@@ -0,0 +1,161 @@
+import { recordsToCSV } from '@/lib/export/csv';
+import { FormField } from '@/lib/forms';
+import { QRRecord } from '@/lib/records';
+import { parseRecordsCSV, planImport } from '../records';
+
+const field = (changes: Partial<FormField>): FormField => ({
+  id: 'fld_1',
+  label: 'Field',
+  type: 'text',
+  required: false,
+  options: [],
+  pattern: null,
+  min: null,
+  max: null,
+  ...changes,
+});
+
+const FIELDS = [
+  field({ id: 'fld_company', label: 'Company' }),
+  field({ id: 'fld_guests', label: 'Guests', type: 'number' }),
+  field({ id: 'fld_consent', label: 'Consent', type: 'checkbox' }),
+];
+
+const record = (changes: Partial<QRRecord>): QRRecord => ({
+  eventId: 'evt_1',
+  qrcode: 'ABC123',
+  name: 'Jane Doe',
+  timestamp: '2025-03-01T06:30:00.000Z',
+  timezone: 'Africa/Nairobi',
+  ...changes,
+});
+
+describe('parseRecordsCSV', () => {
+  it('reads back everything the Records export writes', () => {
+    const exported = [
+      record({
+        barcodeType: 'code128',
+        fields: { fld_company: 'Acme', fld_guests: 2, fld_consent: true },
+      }),
+      record({
+        qrcode: 'T-7',
+        name: 'Sam',
+        capturedBy: 'manual',
+        fields: { fld_consent: false },
+      }),
+      record({ qrcode: 'OLD', name: 'Legacy' }),
+    ];
+    const csv = recordsToCSV(exported, 'Africa/Nairobi', FIELDS);
+    const { rows, rejected } = parseRecordsCSV(csv, 'UTC', FIELDS);
+
+    expect(rejected).toEqual([]);
+    expect(rows[0]).toMatchObject({
+      qrcode: 'ABC123',
+      name: 'Jane Doe',
+      timestamp: '2025-03-01T06:30:00.000Z',
+      barcodeType: 'code128',
+      fields: { fld_company: 'Acme', fld_guests: 2, fld_consent: true },
+    });
+    expect(rows[1]).toMatchObject({
+      qrcode: 'T-7',
+      capturedBy: 'manual',
+      fields: { fld_consent: false },
+    });
+    expect(rows[2]).toMatchObject({ qrcode: 'OLD', barcodeType: 'qr' });
+    // Unanswered fields are exported blank
+    expect(rows[2].fields).toBeUndefined();
+  });
+
+  it('reads files with only a code column', () => {
+    const { rows } = parseRecordsCSV('Code\nABC123\n', 'UTC');
+    expect(rows).toEqual([
+      expect.objectContaining({ line: 2, qrcode: 'ABC123', name: 'Unnamed' }),
+    ]);
+  });
+
+  it('rejects rows without a code or with an unreadable date or number', () => {
+    const csv = [
+      'Name,QR Code,Registration Date (EAT),Guests',
+      'Jane,,03/01/2025 09:30:00 EAT,',
+      'Sam,T-7,yesterday,',
+      'Ada,T-8,03/01/2025 09:30:00 EAT,two',
+    ].join('\n');
+    const { rows, rejected } = parseRecordsCSV(csv, 'UTC', FIELDS);
+    expect(rows).toEqual([]);
+    expect(rejected).toEqual([
+      { line: 2, reason: 'Missing QR code' },
+      { line: 3, reason: 'Unreadable date "yesterday"' },
+      { line: 4, reason: '"two" isn\'t a number' },
+    ]);
+  });
+
+  it('refuses files without a code column', () => {
+    expect(() => parseRecordsCSV('Name\nJane\n', 'UTC')).toThrow(
+      'No "QR Code" column found'
+    );
+  });
+});
+
+describe('planImport', () => {
+  const parsed = parseRecordsCSV(
+    [
+      'Name,QR Code,Registration Date (EAT),Company',
+      'Jane Imported,ABC123,03/01/2025 08:00:00 EAT,Acme',
+      'New Person,NEW1,03/01/2025 10:00:00 EAT,',
+    ].join('\n'),
+    'UTC',
+    FIELDS
+  );
+  const existing = [
+    record({ onSite: true, fields: { fld_guests: 2, fld_company: 'Old' } }),
+  ];
+
+  it('adds new codes and leaves existing ones by default', () => {
+    const plan = planImport(
+      parsed,
+      existing,
+      'evt_1',
+      'Africa/Nairobi',
+      'keep-existing'
+    );
+    expect(plan).toMatchObject({ added: 1, updated: 0, skipped: 1 });
+    expect(plan.records).toEqual([
+      record({
+        qrcode: 'NEW1',
+        name: 'New Person',
+        timestamp: '2025-03-01T07:00:00.000Z',
+      }),
+    ]);
+  });
+
+  it('overwrites imported fields but keeps local state', () => {
+    const plan = planImport(
+      parsed,
+      existing,
+      'evt_1',
+      'Africa/Nairobi',
+      'overwrite'
+    );
+    expect(plan).toMatchObject({ added: 1, updated: 1 });
+    expect(plan.records[0]).toEqual(
+      record({
+        name: 'Jane Imported',
+        timestamp: '2025-03-01T05:00:00.000Z',
+        onSite: true,
+        fields: { fld_guests: 2, fld_company: 'Acme' },
+      })
+    );
+  });
+
+  it('keeps the earliest registration', () => {
+    const later = record({ timestamp: '2025-03-01T04:00:00.000Z' });
+    const plan = planImport(
+      parsed,
+      [later],
+      'evt_1',
+      'Africa/Nairobi',
+      'keep-earliest'
+    );
+    expect(plan).toMatchObject({ added: 1, updated: 0, skipped: 1 });
+  });
+});
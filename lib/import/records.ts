@@ -0,0 +1,191 @@
+import { normalizeSymbology } from '@/lib/barcodes';
+import { normalizeHeader, parseCSV } from '@/lib/csv';
+import {
+  FieldValues,
+  FormField,
+  FormFieldError,
+  parseFieldText,
+} from '@/lib/forms';
+import { QRRecord } from '@/lib/records';
+import { findTimeZoneByLabel, parseExportTime } from '@/lib/time';
+import { ConflictPolicy, ImportPlan, ImportRow, ParsedImport } from './types';
+
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFormatError';
+  }
+}
+
+const findColumn = (headers: string[], matches: (header: string) => boolean) =>
+  headers.findIndex(header => matches(normalizeHeader(header)));
+
+// The export leaves the type blank for typed codes
+const readBarcodeType = (
+  cell: string
+): Pick<ImportRow, 'barcodeType' | 'capturedBy'> => {
+  const barcodeType = normalizeSymbology(cell);
+  if (barcodeType) return { barcodeType };
+  return cell.trim() ? {} : { capturedBy: 'manual' };
+};
+
+/**
+ * Reads a file written by the Records export (`Name,QR Code,Registration
+ * Date (EAT),Barcode Type` and a column per form field), or any CSV with
+ * equivalent columns. Times are read in the zone named in the date header or
+ * cell, falling back to `timeZone`. Columns are matched to `fields` by label.
+ */
+export const parseRecordsCSV = (
+  text: string,
+  timeZone: string,
+  fields: FormField[] = []
+): ParsedImport => {
+  const [header, ...rows] = parseCSV(text);
+  if (!header) throw new ImportFormatError('The file is empty');
+
+  const headers = header.cells;
+  const nameColumn = findColumn(headers, h =>
+    ['name', 'personname', 'fullname'].includes(h)
+  );
+  const codeColumn = findColumn(headers, h =>
+    ['qrcode', 'code', 'qr'].includes(h)
+  );
+  const dateColumn = findColumn(
+    headers,
+    h => h.startsWith('registrationdate') || h === 'timestamp' || h === 'date'
+  );
+  const typeColumn = findColumn(headers, h => h === 'barcodetype');
+  if (codeColumn === -1) {
+    throw new ImportFormatError('No "QR Code" column found');
+  }
+  const known = [nameColumn, codeColumn, dateColumn, typeColumn];
+  const fieldColumns = fields
+    .map(field => ({
+      field,
+      column: headers.findIndex(
+        (header, index) =>
+          !known.includes(index) &&
+          normalizeHeader(header) === normalizeHeader(field.label)
+      ),
+    }))
+    .filter(({ column }) => column !== -1);
+
+  const headerZone =
+    dateColumn !== -1
+      ? findTimeZoneByLabel(headers[dateColumn].match(/\(([^)]+)\)/)?.[1] ?? '')
+      : null;
+
+  const result: ParsedImport = { rows: [], rejected: [] };
+  rows.forEach(({ line, cells }) => {
+    const qrcode = cells[codeColumn]?.trim();
+    if (!qrcode) {
+      result.rejected.push({ line, reason: 'Missing QR code' });
+      return;
+    }
+
+    let timestamp = new Date().toISOString();
+    if (dateColumn !== -1) {
+      const parsed = parseExportTime(
+        cells[dateColumn] ?? '',
+        headerZone ?? timeZone
+      );
+      if (!parsed) {
+        result.rejected.push({
+          line,
+          reason: `Unreadable date "${cells[dateColumn] ?? ''}"`,
+        });
+        return;
+      }
+      timestamp = parsed;
+    }
+
+    const values: FieldValues = {};
+    try {
+      fieldColumns.forEach(({ field, column }) => {
+        const value = parseFieldText(field, cells[column] ?? '');
+        if (value !== undefined) values[field.id] = value;
+      });
+    } catch (error) {
+      if (!(error instanceof FormFieldError)) throw error;
+      result.rejected.push({ line, reason: error.message });
+      return;
+    }
+
+    result.rows.push({
+      line,
+      qrcode,
+      name: (nameColumn !== -1 ? cells[nameColumn]?.trim() : '') || 'Unnamed',
+      timestamp,
+      ...(typeColumn !== -1 ? readBarcodeType(cells[typeColumn] ?? '') : {}),
+      ...(Object.keys(values).length > 0 ? { fields: values } : {}),
+    });
+  });
+
+  return result;
+};
+
+/**
+ * Decides what each imported row does to the event's records. Rows are
+ * applied in file order, so a code repeated within the file is treated like
+ * a conflict with its earlier row.
+ */
+export const planImport = (
+  parsed: ParsedImport,
+  existing: QRRecord[],
+  eventId: string,
+  timezone: string,
+  policy: ConflictPolicy
+): ImportPlan => {
+  const current = new Map(existing.map(record => [record.qrcode, record]));
+  const changed = new Map<string, QRRecord>();
+  let added = 0;
+  let updated = 0;
+  let skipped = 0;
+
+  parsed.rows.forEach(row => {
+    const previous = changed.get(row.qrcode) ?? current.get(row.qrcode);
+    const imported: Partial<QRRecord> = {};
+    if (row.barcodeType) imported.barcodeType = row.barcodeType;
+    if (row.capturedBy) imported.capturedBy = row.capturedBy;
+    if (!previous) {
+      changed.set(row.qrcode, {
+        eventId,
+        qrcode: row.qrcode,
+        name: row.name,
+        timestamp: row.timestamp,
+        timezone,
+        ...imported,
+        ...(row.fields ? { fields: row.fields } : {}),
+      });
+      added++;
+      return;
+    }
+
+    const replace =
+      policy === 'overwrite' ||
+      (policy === 'keep-earliest' &&
+        new Date(row.timestamp) < new Date(previous.timestamp));
+    if (!replace) {
+      skipped++;
+      return;
+    }
+
+    // Keep attendance and other local state; only the imported fields change
+    changed.set(row.qrcode, {
+      ...previous,
+      ...imported,
+      name: row.name,
+      timestamp: row.timestamp,
+      ...(row.fields ? { fields: { ...previous.fields, ...row.fields } } : {}),
+    });
+    updated++;
+  });
+
+  return {
+    records: [...changed.values()],
+    added,
+    updated,
+    skipped,
+    rejected: parsed.rejected,
+  };
+};
@@ -0,0 +1,38 @@
+import { CaptureMethod, Symbology } from '@/lib/barcodes/types';
+import { FieldValues } from '@/lib/forms/types';
+import { QRRecord } from '@/lib/records';
+
+/** What to do when an imported code is already registered. */
+export type ConflictPolicy = 'keep-existing' | 'overwrite' | 'keep-earliest';
+
+export interface ImportRow {
+  /** Line in the source file, counting the header as line 1. */
+  line: number;
+  qrcode: string;
+  name: string;
+  timestamp: string;
+  /** From the export's Barcode Type column, when the file has one. */
+  barcodeType?: Symbology;
+  capturedBy?: CaptureMethod;
+  /** Answers from columns named after the event's form fields. */
+  fields?: FieldValues;
+}
+
+export interface RejectedRow {
+  line: number;
+  reason: string;
+}
+
+export interface ParsedImport {
+  rows: ImportRow[];
+  rejected: RejectedRow[];
+}
+
+export interface ImportPlan {
+  /** Records to write, already merged with what is stored. */
+  records: QRRecord[];
+  added: number;
+  updated: number;
+  skipped: number;
+  rejected: RejectedRow[];
+}
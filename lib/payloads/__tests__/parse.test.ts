@@ -0,0 +1,117 @@
+import { parsePayload } from '../parse';
+
+describe('parsePayload', () => {
+  it('uses plain codes as they are, trimmed', () => {
+    expect(parsePayload(' ABC123 \n')).toEqual({
+      format: 'plain',
+      id: 'ABC123',
+      name: null,
+      details: {},
+      raw: ' ABC123 \n',
+    });
+  });
+
+  it('reads the name and contact details of a vCard', () => {
+    const parsed = parsePayload(
+      [
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        'N:Doe;Jane;;;',
+        'FN:Jane Doe',
+        'EMAIL:jane@example.com',
+        'TEL;TYPE=CELL:+254 700 000000',
+        'ORG:Acme;Events',
+        'END:VCARD',
+      ].join('\r\n')
+    );
+    expect(parsed.format).toBe('vcard');
+    expect(parsed.name).toBe('Jane Doe');
+    // Without a UID the email identifies the person
+    expect(parsed.id).toBe('jane@example.com');
+    expect(parsed.details).toMatchObject({
+      phone: '+254 700 000000',
+      organization: 'Acme, Events',
+    });
+  });
+
+  it('prefers a vCard UID as the code', () => {
+    const parsed = parsePayload(
+      'BEGIN:VCARD\nUID:P-7\nFN:Jane Doe\nEMAIL:jane@example.com\nEND:VCARD'
+    );
+    expect(parsed.id).toBe('P-7');
+  });
+
+  it('reads MECARD contacts, including escaped separators', () => {
+    const parsed = parsePayload(
+      'MECARD:N:Doe,Jane;TEL:123456;NOTE:Row 3\\; seat 4;;'
+    );
+    expect(parsed).toMatchObject({
+      format: 'mecard',
+      id: '123456',
+      name: 'Jane Doe',
+      details: { phone: '123456', note: 'Row 3; seat 4' },
+    });
+  });
+
+  it('picks the id and name keys out of JSON tickets', () => {
+    const parsed = parsePayload(
+      '{"ticketId":"T-1042","name":"Jane Doe","seat":12,"vip":true}'
+    );
+    expect(parsed).toMatchObject({
+      format: 'json',
+      id: 'T-1042',
+      name: 'Jane Doe',
+      details: { seat: '12', vip: 'true' },
+    });
+  });
+
+  it('treats JSON that is not an object as a plain code', () => {
+    expect(parsePayload('{"unterminated').format).toBe('plain');
+  });
+
+  it('reads the id of a link from an id-like query parameter', () => {
+    const parsed = parsePayload(
+      'https://tickets.example.com/t/event?ticket=T-1042&name=Jane+Doe'
+    );
+    expect(parsed).toMatchObject({ id: 'T-1042', name: 'Jane Doe' });
+  });
+
+  it('uses the last path segment when nothing else in the link varies', () => {
+    expect(parsePayload('https://tickets.example.com/t/ABC123').id).toBe(
+      'ABC123'
+    );
+  });
+
+  it('keeps the whole link when the path names a page', () => {
+    const link = 'https://forms.example.com/ticket?ref=ABC123';
+    expect(parsePayload(link)).toMatchObject({
+      format: 'url',
+      id: link,
+      details: { ref: 'ABC123' },
+    });
+  });
+
+  it('tries custom patterns first, using their named groups', () => {
+    const parsed = parsePayload('ACME|0042|Jane Doe|Gold', [
+      {
+        id: 'p1',
+        name: 'Acme badges',
+        pattern: '^ACME\\|(?<id>\\d+)\\|(?<name>[^|]+)\\|(?<tier>.+)$',
+      },
+    ]);
+    expect(parsed).toMatchObject({
+      format: 'custom',
+      id: '0042',
+      name: 'Jane Doe',
+      details: { tier: 'Gold' },
+      patternName: 'Acme badges',
+    });
+  });
+
+  it('skips invalid custom patterns', () => {
+    const parsed = parsePayload('ABC123', [
+      { id: 'p1', name: 'Broken', pattern: '(' },
+    ]);
+    expect(parsed.format).toBe('plain');
+  });
+});
@@ -0,0 +1,316 @@
+import { ParsedPayload, PayloadPattern } from './types';
+
+type Details = Record<string, string>;
+
+// Keys that identify a ticket or person in JSON payloads and URL queries,
+// in order of preference
+const ID_KEYS = [
+  'id',
+  'ticketid',
+  'ticket',
+  'tid',
+  'uid',
+  'code',
+  'qrcode',
+  'badge',
+  'sub',
+  'jti',
+];
+const NAME_KEYS = ['name', 'fullname', 'displayname'];
+
+const normalizeKey = (key: string) =>
+  key.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const joinName = (...parts: (string | undefined)[]) =>
+  parts
+    .map(part => part?.trim())
+    .filter(Boolean)
+    .join(' ') || null;
+
+const pick = (details: Details, keys: string[]) =>
+  keys.map(key => details[key]).find(value => value && value.trim());
+
+/** The code to register when a payload has no explicit id. */
+const fallbackId = (details: Details, raw: string) =>
+  pick(details, ['email', 'phone']) ?? raw.trim();
+
+/**
+ * Matches the code against custom patterns, first match wins. Invalid
+ * patterns are skipped.
+ */
+const parseCustom = (
+  raw: string,
+  patterns: PayloadPattern[]
+): ParsedPayload | null => {
+  for (const pattern of patterns) {
+    let match: RegExpMatchArray | null;
+    try {
+      match = raw.match(new RegExp(pattern.pattern));
+    } catch {
+      continue;
+    }
+    if (!match) continue;
+    const { id, name, ...others } = match.groups ?? {};
+    const details: Details = {};
+    Object.entries(others).forEach(([key, value]) => {
+      if (value) details[normalizeKey(key)] = value;
+    });
+    const code = (id ?? match[1] ?? match[0]).trim();
+    if (!code) continue;
+    return {
+      format: 'custom',
+      id: code,
+      name: name?.trim() || null,
+      details,
+      raw,
+      patternName: pattern.name,
+    };
+  }
+  return null;
+};
+
+/** vCard 2.1 to 4.0, as used by contact QR codes. */
+const parseVCard = (raw: string): ParsedPayload | null => {
+  if (!/^BEGIN:VCARD/i.test(raw.trim())) return null;
+  // Folded lines continue with a leading space or tab
+  const lines = raw.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const details: Details = {};
+  let fullName: string | undefined;
+  let structuredName: string | undefined;
+  let uid: string | undefined;
+
+  lines.forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator < 0) return;
+    // Drop parameters and groups, e.g. "item1.TEL;TYPE=CELL"
+    const property = line
+      .slice(0, separator)
+      .split(';')[0]
+      .split('.')
+      .pop()!
+      .toUpperCase();
+    const value = line
+      .slice(separator + 1)
+      .replace(/\\([,;\\])/g, '$1')
+      .replace(/\\n/gi, ' ')
+      .trim();
+    if (!value) return;
+    switch (property) {
+      case 'FN':
+        fullName = value;
+        break;
+      case 'N': {
+        const [family, given, additional, prefix, suffix] = value.split(';');
+        structuredName =
+          joinName(prefix, given, additional, family, suffix) ?? undefined;
+        break;
+      }
+      case 'UID':
+        uid = value;
+        break;
+      case 'EMAIL':
+        details.email ??= value;
+        break;
+      case 'TEL':
+        details.phone ??= value.replace(/^tel:/i, '');
+        break;
+      case 'ORG':
+        details.organization ??= value.split(';').filter(Boolean).join(', ');
+        break;
+      case 'TITLE':
+        details.title ??= value;
+        break;
+      case 'URL':
+        details.url ??= value;
+        break;
+    }
+  });
+
+  return {
+    format: 'vcard',
+    id: uid ?? fallbackId(details, raw),
+    name: fullName ?? structuredName ?? null,
+    details,
+    raw,
+  };
+};
+
+/** MECARD, the compact contact format, e.g. "MECARD:N:Doe,Jane;TEL:123;;". */
+const parseMECARD = (raw: string): ParsedPayload | null => {
+  const trimmed = raw.trim();
+  if (!/^MECARD:/i.test(trimmed)) return null;
+  const fields: [string, string][] = [];
+  let current = '';
+  const body = trimmed.slice('MECARD:'.length);
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '\\' && i + 1 < body.length) {
+      current += body[++i];
+    } else if (char === ';') {
+      const separator = current.indexOf(':');
+      if (separator > 0) {
+        fields.push([
+          current.slice(0, separator).toUpperCase(),
+          current.slice(separator + 1).trim(),
+        ]);
+      }
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  const details: Details = {};
+  let name: string | null = null;
+  fields.forEach(([key, value]) => {
+    if (!value) return;
+    if (key === 'N') {
+      const [family, given] = value.split(',');
+      name = joinName(given, family);
+    } else if (key === 'EMAIL') {
+      details.email ??= value;
+    } else if (key === 'TEL') {
+      details.phone ??= value;
+    } else if (key === 'ORG') {
+      details.organization ??= value;
+    } else if (key === 'URL') {
+      details.url ??= value;
+    } else if (key === 'NOTE') {
+      details.note ??= value;
+    }
+  });
+
+  return {
+    format: 'mecard',
+    id: fallbackId(details, raw),
+    name,
+    details,
+    raw,
+  };
+};
+
+/**
+ * Reads the id, name and details from the fields of a JSON ticket or of a
+ * verified signed ticket's claims.
+ */
+export const payloadFromObject = (
+  format: 'json' | 'ticket',
+  object: object,
+  raw: string
+): ParsedPayload => {
+  const details: Details = {};
+  Object.entries(object).forEach(([key, value]) => {
+    if (['string', 'number', 'boolean'].includes(typeof value)) {
+      details[normalizeKey(key)] = String(value);
+    }
+  });
+
+  const id = pick(details, ID_KEYS);
+  const name =
+    pick(details, NAME_KEYS) ??
+    joinName(details.firstname ?? details.givenname, details.lastname);
+  [...ID_KEYS, ...NAME_KEYS].forEach(key => delete details[key]);
+
+  return {
+    format,
+    id: id?.trim() ?? fallbackId(details, raw),
+    name: name?.trim() || null,
+    details,
+    raw,
+  };
+};
+
+/** A JSON object, e.g. `{"ticketId":"T-1042","name":"Jane Doe"}`. */
+const parseJSONPayload = (raw: string): ParsedPayload | null => {
+  const trimmed = raw.trim();
+  if (!trimmed.startsWith('{')) return null;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return null;
+  }
+  return payloadFromObject('json', parsed, raw);
+};
+
+const decode = (value: string) => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * A link such as "https://tickets.example.com/t/T-1042?name=Jane". The code is
+ * an id-like query parameter, else the last path segment when nothing else
+ * in the link varies, else the whole link.
+ */
+const parseURLPayload = (raw: string): ParsedPayload | null => {
+  const match = raw
+    .trim()
+    .match(/^https?:\/\/[^/?#\s]+(\/[^?#\s]*)?(?:\?([^#\s]*))?(?:#\S*)?$/i);
+  if (!match) return null;
+  const [, path = '', query = ''] = match;
+
+  const details: Details = {};
+  query
+    .split('&')
+    .filter(Boolean)
+    .forEach(pair => {
+      const [key, value = ''] = pair.split('=');
+      if (value) details[normalizeKey(decode(key))] = decode(value);
+    });
+  const segment = path.split('/').filter(Boolean).pop();
+
+  const queryId = pick(details, ID_KEYS);
+  const name = pick(details, NAME_KEYS) ?? null;
+  [...ID_KEYS, ...NAME_KEYS].forEach(key => delete details[key]);
+  // With other query keys, e.g. ".../ticket?ref=ABC123", the last segment
+  // names the page rather than the person; a custom pattern can pick out
+  // the key instead
+  const id =
+    queryId ??
+    (segment && Object.keys(details).length === 0 ? decode(segment) : null);
+
+  return {
+    format: 'url',
+    id: id?.trim() || raw.trim(),
+    name: name?.trim() || null,
+    details,
+    raw,
+  };
+};
+
+/**
+ * Works out what a scanned code contains. Custom patterns are tried first,
+ * then vCard, MECARD, JSON and links; anything else is used as-is.
+ */
+export const parsePayload = (
+  raw: string,
+  patterns: PayloadPattern[] = []
+): ParsedPayload =>
+  parseCustom(raw, patterns) ??
+  parseVCard(raw) ??
+  parseMECARD(raw) ??
+  parseJSONPayload(raw) ??
+  parseURLPayload(raw) ?? {
+    format: 'plain',
+    id: raw.trim(),
+    name: null,
+    details: {},
+    raw,
+  };
+
+export const PAYLOAD_FORMAT_LABELS: Record<ParsedPayload['format'], string> = {
+  custom: 'Custom format',
+  vcard: 'vCard contact',
+  mecard: 'MECARD contact',
+  json: 'JSON ticket',
+  ticket: 'Signed ticket',
+  url: 'Link',
+  plain: 'Plain text',
+};
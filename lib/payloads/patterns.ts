@@ -0,0 +1,37 @@
+import { createId } from '@/lib/ids';
+import { PayloadPattern, PayloadPatternInput } from './types';
+
+export class PayloadPatternError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PayloadPatternError';
+  }
+}
+
+/**
+ * Tidies a custom pattern from the settings screen, throwing a
+ * PayloadPatternError if it can't be used.
+ */
+export const checkPayloadPattern = (
+  input: PayloadPatternInput
+): PayloadPatternInput => {
+  const name = input.name.trim();
+  const pattern = input.pattern.trim();
+  if (!name) throw new PayloadPatternError('Give the pattern a name');
+  if (!pattern) throw new PayloadPatternError('Enter a regular expression');
+  try {
+    new RegExp(pattern);
+  } catch (error) {
+    throw new PayloadPatternError(
+      `Invalid regular expression: ${error instanceof Error ? error.message : pattern}`
+    );
+  }
+  return { name, pattern };
+};
+
+export const createPayloadPattern = (
+  input: PayloadPatternInput
+): PayloadPattern => ({
+  ...checkPayloadPattern(input),
+  id: createId('pat'),
+});
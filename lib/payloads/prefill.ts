@@ -0,0 +1,40 @@
+import { FieldInputs, FormField } from '@/lib/forms';
+import { ParsedPayload } from './types';
+
+// Field labels and payload keys that mean the same detail, after normalizing
+const DETAIL_ALIASES: Record<string, string[]> = {
+  email: ['email', 'emailaddress', 'mail'],
+  phone: ['phone', 'phonenumber', 'mobile', 'tel', 'telephone'],
+  organization: ['organization', 'organisation', 'company', 'org'],
+  title: ['title', 'jobtitle', 'role', 'position'],
+};
+
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Fills custom form fields from the details of a scanned payload, matching
+ * field labels against detail names. Checkbox fields and answers that don't
+ * fit a select field's choices are left alone.
+ */
+export const prefillFieldInputs = (
+  fields: FormField[],
+  payload: ParsedPayload
+): FieldInputs => {
+  const inputs: FieldInputs = {};
+  fields.forEach(field => {
+    if (field.type === 'checkbox') return;
+    const label = normalize(field.label);
+    // A "Company" field takes an organization, and an "Organization" field
+    // takes a JSON ticket's "company"
+    const aliases =
+      Object.values(DETAIL_ALIASES).find(names => names.includes(label)) ?? [];
+    const value = [label, ...aliases]
+      .map(key => payload.details[key])
+      .find(Boolean);
+    if (!value) return;
+    if (field.type === 'select' && !field.options.includes(value)) return;
+    inputs[field.id] = value;
+  });
+  return inputs;
+};
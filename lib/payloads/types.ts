@@ -0,0 +1,34 @@
+export type PayloadFormat =
+  'custom' | 'vcard' | 'mecard' | 'json' | 'ticket' | 'url' | 'plain';
+
+/** What a scanned code turned out to contain. */
+export interface ParsedPayload {
+  format: PayloadFormat;
+  /** Stable id used as the record's code, e.g. a ticket number or email. */
+  id: string;
+  /** Name of the person, if the payload carries one. */
+  name: string | null;
+  /**
+   * Other values found, keyed by lower-case names such as "email", "phone"
+   * or "organization", for pre-filling form fields.
+   */
+  details: Record<string, string>;
+  /** The code exactly as scanned. */
+  raw: string;
+  /** Name of the custom pattern that matched, for `custom` payloads. */
+  patternName?: string;
+}
+
+/**
+ * A regular expression for codes in a house format, tried before the built-in
+ * formats. Named groups `id` and `name` pick out the record's code and the
+ * person's name, and any other named groups become details. Without an `id`
+ * group the first group, or else the whole match, is the code.
+ */
+export interface PayloadPattern {
+  id: string;
+  name: string;
+  pattern: string;
+}
+
+export type PayloadPatternInput = Omit<PayloadPattern, 'id'>;
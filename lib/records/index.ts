@@ -0,0 +1,6 @@
+export * from './types';
+export * from './repository';
+export * from './query';
+export * from './tags';
+export * from './trash';
+export * from './validate';
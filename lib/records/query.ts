@@ -0,0 +1,91 @@
+import { getZonedParts, parseExportTime } from '@/lib/time';
+import { hasTag } from './tags';
+import { QRRecord } from './types';
+
+export type RecordSort = 'newest' | 'oldest' | 'name' | 'code';
+
+export interface RecordQuery {
+  /** Matched against name and QR code, ignoring case and accents. */
+  search: string;
+  /** UTC bounds on the registration time, inclusive; null is open-ended. */
+  from: string | null;
+  to: string | null;
+  /** Only records carrying this tag; null for any. */
+  tag: string | null;
+  sort: RecordSort;
+}
+
+export const DEFAULT_RECORD_QUERY: RecordQuery = {
+  search: '',
+  from: null,
+  to: null,
+  tag: null,
+  sort: 'newest',
+};
+
+/** Whether the query hides any records, as opposed to only sorting them. */
+export const isFilteredQuery = (query: RecordQuery) =>
+  query.search.trim() !== '' ||
+  query.from !== null ||
+  query.to !== null ||
+  query.tag !== null;
+
+const normalize = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+/** Whether a name or code contains the search text. */
+export const matchesSearch = (
+  { name, qrcode }: { name: string; qrcode: string },
+  search: string
+) => {
+  const needle = normalize(search.trim());
+  return (
+    !needle ||
+    normalize(name).includes(needle) ||
+    normalize(qrcode).includes(needle)
+  );
+};
+
+/** Records matching the query, in its sort order. */
+export const queryRecords = (
+  records: QRRecord[],
+  query: RecordQuery,
+  locale: string | null = null
+) => {
+  const from = query.from ? new Date(query.from).getTime() : -Infinity;
+  const to = query.to ? new Date(query.to).getTime() : Infinity;
+  const time = (record: QRRecord) => new Date(record.timestamp).getTime();
+  const byName = (a: QRRecord, b: QRRecord) =>
+    a.name.localeCompare(b.name, locale ?? undefined, {
+      sensitivity: 'base',
+    });
+
+  const matched = records.filter(
+    record =>
+      matchesSearch(record, query.search) &&
+      (query.tag === null || hasTag(record, query.tag)) &&
+      time(record) >= from &&
+      time(record) <= to
+  );
+  switch (query.sort) {
+    case 'newest':
+      return matched.sort((a, b) => time(b) - time(a));
+    case 'oldest':
+      return matched.sort((a, b) => time(a) - time(b));
+    case 'name':
+      return matched.sort((a, b) => byName(a, b) || time(b) - time(a));
+    case 'code':
+      return matched.sort((a, b) =>
+        a.qrcode.localeCompare(b.qrcode, undefined, { numeric: true })
+      );
+  }
+};
+
+/** UTC start of the current day as seen in the given zone. */
+export const startOfToday = (timeZone: string) => {
+  const { year, month, day } = getZonedParts(new Date(), timeZone);
+  return parseExportTime(`${month}/${day}/${year} 00:00`, timeZone);
+};
@@ -0,0 +1,533 @@
+import { AttendanceEntry } from '@/lib/attendance/types';
+import { auditWrites } from '@/lib/audit/log';
+import { AuditAction, AuditSource } from '@/lib/audit/types';
+import { getDeviceId } from '@/lib/devices';
+import {
+  ATTENDANCE_TABLE,
+  RECORDS_TABLE,
+  TOMBSTONES_TABLE,
+  TRASH_TABLE,
+  StorageAdapter,
+  WriteOp,
+  encodeKey,
+  getStorage,
+  keyOf,
+} from '@/lib/storage';
+import { outboxWrites } from '@/lib/sync/outbox';
+import { triggersFor, webhookWrites } from '@/lib/webhooks/queue';
+import {
+  QRRecord,
+  RecordChange,
+  RecordListener,
+  Tombstone,
+  TrashedRecord,
+} from './types';
+
+export type RecordUpdate = Partial<
+  Omit<QRRecord, 'eventId' | 'qrcode' | 'updatedAt'>
+>;
+
+/**
+ * Writes to other tables that must be committed in the same transaction as a
+ * record, given the record as it will be stored.
+ */
+export type RelatedWrites = (record: QRRecord) => WriteOp[];
+
+export class DuplicateRecordError extends Error {
+  constructor(public qrcode: string) {
+    super(`QR code "${qrcode}" is already registered`);
+    this.name = 'DuplicateRecordError';
+  }
+}
+
+export class RecordNotFoundError extends Error {
+  constructor(public qrcode: string) {
+    super(`No record found for QR code "${qrcode}"`);
+    this.name = 'RecordNotFoundError';
+  }
+}
+
+let writeQueue: Promise<unknown> = Promise.resolve();
+const listeners = new Set<RecordListener>();
+
+interface Mutation<T> {
+  writes: WriteOp[];
+  changes: RecordChange[];
+  result: T;
+}
+
+interface MutationOptions {
+  queueForSync?: boolean;
+  queueWebhooks?: boolean;
+  /** Where the changes came from, for the audit log. */
+  source?: AuditSource;
+  /** Logs every change with this action instead of the one it implies. */
+  auditAction?: AuditAction;
+}
+
+// Mutations are serialized so a check-then-write (like the duplicate check in
+// addRecord) can't interleave with another write to the same code. Every
+// change is audited, local changes are queued for sync, and edits made on
+// the Scanner and Records screens for webhooks, in the same transaction as
+// the writes.
+const mutate = <T>(
+  operation: (storage: StorageAdapter) => Promise<Mutation<T>>,
+  {
+    queueForSync = true,
+    queueWebhooks = false,
+    source = 'app',
+    auditAction,
+  }: MutationOptions = {}
+): Promise<T> => {
+  const run = writeQueue.then(async () => {
+    const storage = await getStorage();
+    const { writes, changes, result } = await operation(storage);
+    await storage.write([
+      ...writes,
+      ...(await auditWrites(changes, source, auditAction)),
+      ...(queueForSync ? outboxWrites(changes) : []),
+      ...(queueWebhooks
+        ? await webhookWrites(storage, triggersFor(changes))
+        : []),
+    ]);
+    changes.forEach(notify);
+    return result;
+  });
+  writeQueue = run.catch(() => undefined);
+  return run;
+};
+
+const notify = (change: RecordChange) => {
+  listeners.forEach(listener => {
+    try {
+      listener(change);
+    } catch (error) {
+      console.error('Records listener failed:', error);
+    }
+  });
+};
+
+const touch = (record: QRRecord): QRRecord => ({
+  ...record,
+  updatedAt: new Date().toISOString(),
+});
+
+/**
+ * Record changes made by applying `writes`, worked out before they are
+ * committed so they can be queued for sync in the same transaction.
+ */
+const diffRecordWrites = async (
+  storage: StorageAdapter,
+  writes: WriteOp[]
+): Promise<RecordChange[]> => {
+  if (!writes.some(write => write.table === RECORDS_TABLE.name)) return [];
+  const before = new Map(
+    (await storage.find<QRRecord>(RECORDS_TABLE.name)).map(record => [
+      keyOf(RECORDS_TABLE, record),
+      record,
+    ])
+  );
+  const after = new Map(before);
+  writes
+    .filter(write => write.table === RECORDS_TABLE.name)
+    .forEach(write => {
+      if (write.type === 'clear') {
+        after.clear();
+      } else if (write.type === 'delete') {
+        after.delete(encodeKey(write.key));
+      } else {
+        const record = write.value as QRRecord;
+        after.set(keyOf(RECORDS_TABLE, record), record);
+      }
+    });
+
+  const changes: RecordChange[] = [];
+  after.forEach((record, key) => {
+    const previous = before.get(key);
+    if (!previous) {
+      changes.push({ type: 'added', record });
+    } else if (JSON.stringify(previous) !== JSON.stringify(record)) {
+      changes.push({ type: 'updated', record, previous });
+    }
+  });
+  before.forEach((record, key) => {
+    if (!after.has(key)) changes.push({ type: 'deleted', record });
+  });
+  return changes;
+};
+
+/** Records registered for an event, newest first. */
+export const listRecords = async (eventId: string): Promise<QRRecord[]> => {
+  const storage = await getStorage();
+  return storage.find<QRRecord>(RECORDS_TABLE.name, {
+    where: { eventId },
+    orderBy: 'timestamp',
+    descending: true,
+  });
+};
+
+export const countRecords = async (eventId: string): Promise<number> => {
+  const storage = await getStorage();
+  return storage.count(RECORDS_TABLE.name, { eventId });
+};
+
+export const getRecord = async (
+  eventId: string,
+  qrcode: string
+): Promise<QRRecord | null> => {
+  const storage = await getStorage();
+  return storage.get<QRRecord>(RECORDS_TABLE.name, [eventId, qrcode]);
+};
+
+export const addRecord = (
+  record: QRRecord,
+  relatedWrites?: RelatedWrites
+): Promise<QRRecord> =>
+  mutate(
+    async storage => {
+      if (
+        await storage.get(RECORDS_TABLE.name, [record.eventId, record.qrcode])
+      ) {
+        throw new DuplicateRecordError(record.qrcode);
+      }
+      const added = touch({
+        ...record,
+        deviceId: record.deviceId ?? (await getDeviceId()),
+      });
+      return {
+        writes: [
+          { type: 'put', table: RECORDS_TABLE.name, value: added },
+          ...(relatedWrites?.(added) ?? []),
+        ],
+        changes: [{ type: 'added', record: added }],
+        result: added,
+      };
+    },
+    { queueWebhooks: true }
+  );
+
+export const updateRecord = (
+  eventId: string,
+  qrcode: string,
+  changes: RecordUpdate | ((previous: QRRecord) => RecordUpdate),
+  relatedWrites?: RelatedWrites
+): Promise<QRRecord> =>
+  mutate(
+    async storage => {
+      const previous = await storage.get<QRRecord>(RECORDS_TABLE.name, [
+        eventId,
+        qrcode,
+      ]);
+      if (!previous) {
+        throw new RecordNotFoundError(qrcode);
+      }
+      const updated = touch({
+        ...previous,
+        ...(typeof changes === 'function' ? changes(previous) : changes),
+        eventId,
+        qrcode,
+      });
+      return {
+        writes: [
+          { type: 'put', table: RECORDS_TABLE.name, value: updated },
+          ...(relatedWrites?.(updated) ?? []),
+        ],
+        changes: [{ type: 'updated', record: updated, previous }],
+        result: updated,
+      };
+    },
+    { queueWebhooks: true }
+  );
+
+export const deleteRecord = (eventId: string, qrcode: string): Promise<void> =>
+  mutate(
+    async storage => {
+      const removed = await storage.get<QRRecord>(RECORDS_TABLE.name, [
+        eventId,
+        qrcode,
+      ]);
+      if (!removed) {
+        throw new RecordNotFoundError(qrcode);
+      }
+      return {
+        writes: [
+          await trashWrite(storage, removed),
+          ...(await deleteRecordWrites(storage, eventId, qrcode)),
+        ],
+        changes: [{ type: 'deleted', record: removed }],
+        result: undefined,
+      };
+    },
+    { queueWebhooks: true }
+  );
+
+/**
+ * Moves several records of an event to the trash in one transaction.
+ * Resolves to the number of records deleted.
+ */
+export const deleteRecords = (
+  eventId: string,
+  qrcodes: string[]
+): Promise<number> =>
+  mutate(
+    async storage => {
+      const writes: WriteOp[] = [];
+      const changes: RecordChange[] = [];
+      for (const qrcode of qrcodes) {
+        const removed = await storage.get<QRRecord>(RECORDS_TABLE.name, [
+          eventId,
+          qrcode,
+        ]);
+        if (!removed) continue;
+        writes.push(
+          await trashWrite(storage, removed),
+          ...(await deleteRecordWrites(storage, eventId, qrcode))
+        );
+        changes.push({ type: 'deleted', record: removed });
+      }
+      return { writes, changes, result: changes.length };
+    },
+    { queueWebhooks: true }
+  );
+
+/**
+ * Brings records of an event back from the trash, with their attendance
+ * history. Codes registered again since they were deleted stay in the trash.
+ * Resolves to the number of records restored.
+ */
+export const restoreRecords = (
+  eventId: string,
+  qrcodes: string[]
+): Promise<number> =>
+  mutate(
+    async storage => {
+      const writes: WriteOp[] = [];
+      const changes: RecordChange[] = [];
+      for (const qrcode of qrcodes) {
+        const key = [eventId, qrcode];
+        const trashed = await storage.get<TrashedRecord>(TRASH_TABLE.name, key);
+        if (!trashed || (await storage.get(RECORDS_TABLE.name, key))) continue;
+        // A fresh updatedAt lets the restore win over the tombstone on
+        // devices the deletion already reached
+        const restored = touch(trashed.record);
+        writes.push(
+          { type: 'put', table: RECORDS_TABLE.name, value: restored },
+          { type: 'delete', table: TOMBSTONES_TABLE.name, key },
+          { type: 'delete', table: TRASH_TABLE.name, key },
+          ...trashed.attendance.map((entry): WriteOp => ({
+            type: 'put',
+            table: ATTENDANCE_TABLE.name,
+            value: entry,
+          }))
+        );
+        changes.push({ type: 'added', record: restored });
+      }
+      return { writes, changes, result: changes.length };
+    },
+    { queueWebhooks: true, auditAction: 'restored' }
+  );
+
+/**
+ * Applies a change to several records of an event in one transaction.
+ * Records the change leaves as they were aren't rewritten. Resolves to the
+ * number of records changed.
+ */
+export const updateRecords = (
+  eventId: string,
+  qrcodes: string[],
+  changes: (previous: QRRecord) => RecordUpdate
+): Promise<number> =>
+  mutate(
+    async storage => {
+      const writes: WriteOp[] = [];
+      const recordChanges: RecordChange[] = [];
+      for (const qrcode of qrcodes) {
+        const previous = await storage.get<QRRecord>(RECORDS_TABLE.name, [
+          eventId,
+          qrcode,
+        ]);
+        if (!previous) continue;
+        const update = changes(previous);
+        const unchanged = Object.entries(update).every(
+          ([field, value]) =>
+            JSON.stringify(previous[field as keyof QRRecord]) ===
+            JSON.stringify(value)
+        );
+        if (unchanged) continue;
+        const updated = touch({ ...previous, ...update, eventId, qrcode });
+        writes.push({ type: 'put', table: RECORDS_TABLE.name, value: updated });
+        recordChanges.push({ type: 'updated', record: updated, previous });
+      }
+      return {
+        writes,
+        changes: recordChanges,
+        result: recordChanges.length,
+      };
+    },
+    { queueWebhooks: true }
+  );
+
+/** Keeps a copy of a record and its attendance history in the trash. */
+const trashWrite = async (
+  storage: StorageAdapter,
+  record: QRRecord
+): Promise<WriteOp> => {
+  const trashed: TrashedRecord = {
+    eventId: record.eventId,
+    qrcode: record.qrcode,
+    deletedAt: new Date().toISOString(),
+    record,
+    attendance: await storage.find<AttendanceEntry>(ATTENDANCE_TABLE.name, {
+      where: { eventId: record.eventId, qrcode: record.qrcode },
+    }),
+  };
+  return { type: 'put', table: TRASH_TABLE.name, value: trashed };
+};
+
+/**
+ * Deletes a record together with its attendance history, leaving a tombstone
+ * so the deletion reaches other devices through bundles. `origin` carries
+ * over when and where a deletion received from elsewhere happened.
+ */
+export const deleteRecordWrites = async (
+  storage: StorageAdapter,
+  eventId: string,
+  qrcode: string,
+  origin?: Pick<Tombstone, 'deletedAt' | 'deviceId'>
+): Promise<WriteOp[]> => {
+  const tombstone: Tombstone = {
+    eventId,
+    qrcode,
+    deletedAt: origin?.deletedAt ?? new Date().toISOString(),
+    deviceId: origin?.deviceId ?? (await getDeviceId()),
+  };
+  const attendance = await storage.find<{ id: string }>(ATTENDANCE_TABLE.name, {
+    where: { eventId, qrcode },
+  });
+  return [
+    { type: 'delete', table: RECORDS_TABLE.name, key: [eventId, qrcode] },
+    { type: 'put', table: TOMBSTONES_TABLE.name, value: tombstone },
+    ...attendance.map((entry): WriteOp => ({
+      type: 'delete',
+      table: ATTENDANCE_TABLE.name,
+      key: entry.id,
+    })),
+  ];
+};
+
+/**
+ * Adds or replaces many records in a single transaction, e.g. for imports.
+ * Listeners see records that weren't stored yet as added, others as updated.
+ */
+export const saveRecords = (records: QRRecord[]): Promise<void> =>
+  mutate(
+    async storage => {
+      const deviceId = await getDeviceId();
+      const saved = records.map(record =>
+        touch({ ...record, deviceId: record.deviceId ?? deviceId })
+      );
+      const changes: RecordChange[] = [];
+      for (const record of saved) {
+        const previous = await storage.get<QRRecord>(RECORDS_TABLE.name, [
+          record.eventId,
+          record.qrcode,
+        ]);
+        changes.push(
+          previous
+            ? { type: 'updated', record, previous }
+            : { type: 'added', record }
+        );
+      }
+      return {
+        writes: saved.map((record): WriteOp => ({
+          type: 'put',
+          table: RECORDS_TABLE.name,
+          value: record,
+        })),
+        changes,
+        result: undefined,
+      };
+    },
+    { source: 'import' }
+  );
+
+/**
+ * Commits writes that may touch any table, such as a backup restore, and
+ * tells listeners how the records differ afterwards. Pass a function to
+ * work the writes out inside the write queue, against the latest state.
+ * `source` is recorded in the audit log for the records it changes.
+ */
+export const applyRecordWrites = (
+  writes: WriteOp[] | ((storage: StorageAdapter) => Promise<WriteOp[]>),
+  source: AuditSource = 'app'
+): Promise<void> =>
+  mutate(
+    async storage => {
+      const resolved =
+        typeof writes === 'function' ? await writes(storage) : writes;
+      return {
+        writes: resolved,
+        changes: await diffRecordWrites(storage, resolved),
+        result: undefined,
+      };
+    },
+    { source }
+  );
+
+/**
+ * Commits one step of a sync: records pulled from the server plus outbox
+ * bookkeeping. `build` runs in the write queue, so it sees the latest local
+ * state and can't interleave with edits. Nothing it writes is queued back
+ * to the server.
+ */
+export const commitSync = (
+  build: (storage: StorageAdapter) => Promise<{
+    upserts: QRRecord[];
+    deletions: { eventId: string; qrcode: string }[];
+    writes: WriteOp[];
+  }>
+): Promise<void> =>
+  mutate(
+    async storage => {
+      const { upserts, deletions, writes } = await build(storage);
+      const recordWrites: WriteOp[] = upserts.map(record => ({
+        type: 'put',
+        table: RECORDS_TABLE.name,
+        value: record,
+      }));
+      for (const { eventId, qrcode } of deletions) {
+        recordWrites.push(
+          ...(await deleteRecordWrites(storage, eventId, qrcode))
+        );
+      }
+      return {
+        writes: [...recordWrites, ...writes],
+        changes: await diffRecordWrites(storage, recordWrites),
+        result: undefined,
+      };
+    },
+    { queueForSync: false, source: 'sync' }
+  );
+
+/**
+ * Commits writes to queues that record changes also write to, such as
+ * webhook deliveries, in order with those changes. Nothing is synced.
+ */
+export const commitQueueWrites = (
+  build: (storage: StorageAdapter) => Promise<WriteOp[]>
+): Promise<void> =>
+  mutate(
+    async storage => ({
+      writes: await build(storage),
+      changes: [],
+      result: undefined,
+    }),
+    { queueForSync: false }
+  );
+
+export const subscribeToRecords = (listener: RecordListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,28 @@
+import { QRRecord } from './types';
+
+/** Trims a typed tag and collapses inner whitespace; empty means no tag. */
+export const normalizeTag = (tag: string) => tag.trim().replace(/\s+/g, ' ');
+
+const sameTag = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { sensitivity: 'base' }) === 0;
+
+export const hasTag = (record: QRRecord, tag: string) =>
+  (record.tags ?? []).some(existing => sameTag(existing, tag));
+
+/** Tags with `tag` added, unless a tag differing only in case is there. */
+export const withTag = (tags: string[] = [], tag: string) =>
+  tags.some(existing => sameTag(existing, tag)) ? tags : [...tags, tag];
+
+export const withoutTag = (tags: string[] = [], tag: string) =>
+  tags.filter(existing => !sameTag(existing, tag));
+
+/** Every tag used by the records, alphabetically. */
+export const collectTags = (records: QRRecord[]) => {
+  const tags: string[] = [];
+  records.forEach(record =>
+    record.tags?.forEach(tag => {
+      if (!tags.some(existing => sameTag(existing, tag))) tags.push(tag);
+    })
+  );
+  return tags.sort((a, b) => a.localeCompare(b));
+};
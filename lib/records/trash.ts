@@ -0,0 +1,96 @@
+import { TRASH_TABLE, WriteOp, getStorage } from '@/lib/storage';
+import { applyRecordWrites } from './repository';
+import { TrashListener, TrashedRecord } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const listeners = new Set<TrashListener>();
+
+const notify = () => {
+  listeners.forEach(listener => {
+    try {
+      listener();
+    } catch (error) {
+      console.error('Trash listener failed:', error);
+    }
+  });
+};
+
+/** Deleted records of an event, most recently deleted first. */
+export const listTrash = async (eventId: string): Promise<TrashedRecord[]> => {
+  const storage = await getStorage();
+  return storage.find<TrashedRecord>(TRASH_TABLE.name, {
+    where: { eventId },
+    orderBy: 'deletedAt',
+    descending: true,
+  });
+};
+
+export const countTrash = async (eventId: string): Promise<number> => {
+  const storage = await getStorage();
+  return storage.count(TRASH_TABLE.name, { eventId });
+};
+
+/**
+ * Removes records from the trash for good, or every record of the event
+ * when no codes are given. Resolves to the number of records purged.
+ */
+export const purgeTrash = async (
+  eventId: string,
+  qrcodes?: string[]
+): Promise<number> => {
+  let purged = 0;
+  await applyRecordWrites(async storage => {
+    const trashed = await storage.find<TrashedRecord>(TRASH_TABLE.name, {
+      where: { eventId },
+    });
+    const writes = trashed
+      .filter(entry => !qrcodes || qrcodes.includes(entry.qrcode))
+      .map((entry): WriteOp => ({
+        type: 'delete',
+        table: TRASH_TABLE.name,
+        key: [entry.eventId, entry.qrcode],
+      }));
+    purged = writes.length;
+    return writes;
+  });
+  if (purged > 0) notify();
+  return purged;
+};
+
+/**
+ * Purges records that have been in the trash for more than `retentionDays`,
+ * across all events. A null retention keeps them until purged by hand.
+ */
+export const purgeExpiredTrash = async (
+  retentionDays: number | null
+): Promise<number> => {
+  if (retentionDays === null) return 0;
+  const cutoff = new Date(Date.now() - retentionDays * DAY_MS).toISOString();
+  let purged = 0;
+  await applyRecordWrites(async storage => {
+    const trashed = await storage.find<TrashedRecord>(TRASH_TABLE.name);
+    const writes = trashed
+      .filter(entry => entry.deletedAt < cutoff)
+      .map((entry): WriteOp => ({
+        type: 'delete',
+        table: TRASH_TABLE.name,
+        key: [entry.eventId, entry.qrcode],
+      }));
+    purged = writes.length;
+    return writes;
+  });
+  if (purged > 0) notify();
+  return purged;
+};
+
+/**
+ * Called when the trash is purged. Deletions and restores are reported to
+ * record listeners instead.
+ */
+export const subscribeToTrash = (listener: TrashListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,84 @@
+import { AttendanceEntry } from '@/lib/attendance/types';
+import { CaptureMethod, Symbology } from '@/lib/barcodes/types';
+import { FieldValues } from '@/lib/forms/types';
+
+export interface QRRecord {
+  /** Event the person registered for; codes are unique within an event. */
+  eventId: string;
+  qrcode: string;
+  name: string;
+  /** UTC instant of registration, as an ISO 8601 string. */
+  timestamp: string;
+  /** IANA time zone the device was in when the record was captured. */
+  timezone: string;
+  /** Attendance mode: whether the person's latest scan was a check-in. */
+  onSite?: boolean;
+  /** Attendance mode: time of the latest check-in or check-out. */
+  lastSeenAt?: string | null;
+  /**
+   * UTC time of the latest change, set by the repository. When syncing, the
+   * side with the newer value wins.
+   */
+  updatedAt?: string;
+  /**
+   * Device that registered the code. After merging bundles from other
+   * devices, the one that saw it first.
+   */
+  deviceId?: string;
+  /** Later registrations of the same code on other devices. */
+  duplicateScans?: DuplicateScan[];
+  /** Free-form labels such as "VIP" or "Staff", assigned in bulk. */
+  tags?: string[];
+  /** Answers to the event's custom form fields, keyed by field id. */
+  fields?: FieldValues;
+  /**
+   * The scanned code as read, when it held more than the id used as
+   * `qrcode`, e.g. a vCard or a JSON ticket.
+   */
+  payload?: string;
+  /**
+   * Symbology the code was read from. Records from before other barcodes
+   * could be scanned have none; they were all QR codes.
+   */
+  barcodeType?: Symbology;
+  /**
+   * How the code was captured. Records from before this was noted have none;
+   * they all came from the camera.
+   */
+  capturedBy?: CaptureMethod;
+}
+
+/** A registration of the same code on another device. */
+export interface DuplicateScan {
+  deviceId: string;
+  timestamp: string;
+}
+
+/** Left behind by a deletion so it can be passed on to other devices. */
+export interface Tombstone {
+  eventId: string;
+  qrcode: string;
+  deletedAt: string;
+  /** Device the record was deleted on. */
+  deviceId: string;
+}
+
+/** A record deleted on this device, with what's needed to bring it back. */
+export interface TrashedRecord {
+  eventId: string;
+  qrcode: string;
+  deletedAt: string;
+  /** The record as it was when deleted. */
+  record: QRRecord;
+  /** Attendance history deleted along with the record. */
+  attendance: AttendanceEntry[];
+}
+
+export type TrashListener = () => void;
+
+export type RecordChange =
+  | { type: 'added'; record: QRRecord }
+  | { type: 'updated'; record: QRRecord; previous: QRRecord }
+  | { type: 'deleted'; record: QRRecord };
+
+export type RecordListener = (change: RecordChange) => void;
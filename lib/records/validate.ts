@@ -0,0 +1,26 @@
+import { QRRecord, Tombstone } from './types';
+
+/**
+ * Whether a record from outside this device, such as a sync server, a
+ * bundle or a backup, has the fields every record needs.
+ */
+export const isRecord = (value: unknown): value is QRRecord => {
+  const record = value as Partial<QRRecord> | null;
+  return (
+    !!record &&
+    typeof record.eventId === 'string' &&
+    typeof record.qrcode === 'string' &&
+    typeof record.name === 'string' &&
+    typeof record.timestamp === 'string'
+  );
+};
+
+export const isTombstone = (value: unknown): value is Tombstone => {
+  const tombstone = value as Partial<Tombstone> | null;
+  return (
+    !!tombstone &&
+    typeof tombstone.eventId === 'string' &&
+    typeof tombstone.qrcode === 'string' &&
+    typeof tombstone.deletedAt === 'string'
+  );
+};
@@ -0,0 +1,58 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_TIME_ZONE } from '@/lib/time';
+import { AppSettings, SettingsListener } from './types';
+
+const SETTINGS_KEY = '@qr_settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  displayTimeZone: DEFAULT_TIME_ZONE,
+  locale: null,
+  activeEventId: null,
+  attendanceMode: false,
+  continuousScan: false,
+  scanCooldownSeconds: 5,
+  barcodeTypes: ['qr'],
+  symbologyDuplicates: 'value',
+  keyboardWedge: false,
+  autoBackup: false,
+  syncServerUrl: null,
+  syncToken: null,
+  deviceName: null,
+  trashRetentionDays: 30,
+  payloadPatterns: [],
+  ticketVerification: false,
+  ticketKeys: [],
+};
+
+let cache: AppSettings | null = null;
+const listeners = new Set<SettingsListener>();
+
+export const getSettings = async (): Promise<AppSettings> => {
+  if (cache) return cache;
+  try {
+    const stored = await AsyncStorage.getItem(SETTINGS_KEY);
+    // Merge over the defaults so settings added by newer builds get a value
+    cache = { ...DEFAULT_SETTINGS, ...(stored ? JSON.parse(stored) : {}) };
+  } catch (error) {
+    console.error('Error loading settings:', error);
+    cache = { ...DEFAULT_SETTINGS };
+  }
+  return cache!;
+};
+
+export const updateSettings = async (
+  changes: Partial<AppSettings>
+): Promise<AppSettings> => {
+  const updated = { ...(await getSettings()), ...changes };
+  await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(updated));
+  cache = updated;
+  listeners.forEach(listener => listener(updated));
+  return updated;
+};
+
+export const subscribeToSettings = (listener: SettingsListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
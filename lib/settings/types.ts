@@ -0,0 +1,55 @@
+import { Symbology, SymbologyDuplicateRule } from '@/lib/barcodes/types';
+import { PayloadPattern } from '@/lib/payloads/types';
+import { TicketKey } from '@/lib/tickets/types';
+
+export interface AppSettings {
+  /** IANA time zone used to display and export record times. */
+  displayTimeZone: string;
+  /** BCP 47 locale for on-screen dates, or null for the device locale. */
+  locale: string | null;
+  /** Event new registrations are added to. */
+  activeEventId: string | null;
+  /**
+   * When on, scanning an already-registered code checks the person in or out
+   * instead of rejecting it as a duplicate.
+   */
+  attendanceMode: boolean;
+  /**
+   * Register new codes as soon as they are scanned, without tapping
+   * Register, and ignore repeat scans of a code for `scanCooldownSeconds`.
+   */
+  continuousScan: boolean;
+  scanCooldownSeconds: number;
+  /** Barcode formats the scanner reads; QR codes are always read. */
+  barcodeTypes: Symbology[];
+  /** Whether the same value in two symbologies is one registration. */
+  symbologyDuplicates: SymbologyDuplicateRule;
+  /**
+   * Listen for a handheld scanner that types codes like a keyboard, ending
+   * each with Enter.
+   */
+  keyboardWedge: boolean;
+  /** Keep rotating daily backups in the app's documents directory. */
+  autoBackup: boolean;
+  /** Base URL of the sync server, or null when sync is off. */
+  syncServerUrl: string | null;
+  /** Sent as a bearer token with every sync request. */
+  syncToken: string | null;
+  /** Shown to other devices in exchanged bundles, e.g. "North Door". */
+  deviceName: string | null;
+  /**
+   * Days deleted records stay in the trash before they are purged, or null
+   * to keep them until the trash is emptied.
+   */
+  trashRetentionDays: number | null;
+  /** House formats tried before the built-in ones when reading scanned codes. */
+  payloadPatterns: PayloadPattern[];
+  /**
+   * When on, only codes signed with one of `ticketKeys` can be registered;
+   * anything else is rejected and logged.
+   */
+  ticketVerification: boolean;
+  ticketKeys: TicketKey[];
+}
+
+export type SettingsListener = (settings: AppSettings) => void;
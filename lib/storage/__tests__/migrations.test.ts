@@ -0,0 +1,47 @@
+import { correctDoubleShift } from '../migrations';
+
+// Minutes behind UTC, as Date#getTimezoneOffset reports them
+const deviceOffset = (offset: (date: Date) => number) =>
+  jest.spyOn(Date.prototype, 'getTimezoneOffset').mockImplementation(function (
+    this: Date
+  ) {
+    return offset(this);
+  });
+
+describe('correctDoubleShift', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('leaves times saved on a device in EAT alone', () => {
+    deviceOffset(() => -180);
+    expect(correctDoubleShift('2024-01-15T11:00:00.000Z')).toBe(
+      '2024-01-15T11:00:00.000Z'
+    );
+  });
+
+  it('takes out the extra three hours saved on a UTC device', () => {
+    deviceOffset(() => 0);
+    expect(correctDoubleShift('2024-01-15T11:00:00.000Z')).toBe(
+      '2024-01-15T08:00:00.000Z'
+    );
+  });
+
+  it("uses the device's offset at the time, across daylight saving", () => {
+    // London: GMT in winter, BST in summer
+    deviceOffset(date =>
+      date.getUTCMonth() >= 3 && date.getUTCMonth() < 9 ? -60 : 0
+    );
+    expect(correctDoubleShift('2024-01-15T11:00:00.000Z')).toBe(
+      '2024-01-15T08:00:00.000Z'
+    );
+    // BST is an hour closer to EAT, so summer times were two hours ahead
+    expect(correctDoubleShift('2024-07-15T10:00:00.000Z')).toBe(
+      '2024-07-15T08:00:00.000Z'
+    );
+  });
+
+  it('leaves unreadable times as they are', () => {
+    expect(correctDoubleShift('not a date')).toBe('not a date');
+  });
+});
@@ -0,0 +1,157 @@
+import * as SQLite from 'expo-sqlite';
+import { encodeKey, indexValue, keyOf } from './keys';
+import {
+  FindOptions,
+  Scalar,
+  StorageAdapter,
+  TableSchema,
+  WriteOp,
+} from './types';
+
+const DATABASE_NAME = 'qr-registration.db';
+
+const quote = (identifier: string) => `"${identifier.replace(/"/g, '""')}"`;
+
+/**
+ * Each table stores the full row as JSON in `data`, keyed by an encoded
+ * primary key, with indexed fields mirrored into real columns.
+ */
+export function createStorageAdapter(): StorageAdapter {
+  let database: SQLite.SQLiteDatabase | null = null;
+  const schemas = new Map<string, TableSchema>();
+
+  const db = () => {
+    if (!database) throw new Error('Storage has not been opened');
+    return database;
+  };
+
+  const schemaFor = (table: string) => {
+    const schema = schemas.get(table);
+    if (!schema) throw new Error(`Unknown table "${table}"`);
+    return schema;
+  };
+
+  const whereClause = (
+    schema: TableSchema,
+    where: Record<string, Scalar> = {}
+  ) => {
+    const clauses: string[] = [];
+    const params: Scalar[] = [];
+    Object.entries(where).forEach(([field, value]) => {
+      if (!schema.indexes.includes(field)) {
+        throw new Error(`"${field}" is not indexed on "${schema.name}"`);
+      }
+      if (value === null) {
+        clauses.push(`${quote(field)} IS NULL`);
+      } else {
+        clauses.push(`${quote(field)} = ?`);
+        params.push(typeof value === 'boolean' ? (value ? 1 : 0) : value);
+      }
+    });
+    return {
+      sql: clauses.length ? ` WHERE ${clauses.join(' AND ')}` : '',
+      params: params as SQLite.SQLiteBindValue[],
+    };
+  };
+
+  const createTable = async (schema: TableSchema) => {
+    const name = quote(schema.name);
+    await db().execAsync(
+      `CREATE TABLE IF NOT EXISTS ${name} (pk TEXT PRIMARY KEY NOT NULL, data TEXT NOT NULL);`
+    );
+
+    const columns = await db().getAllAsync<{ name: string }>(
+      `PRAGMA table_info(${name})`
+    );
+    const existing = new Set(columns.map(column => column.name));
+
+    for (const field of schema.indexes) {
+      if (!existing.has(field)) {
+        // Index added by a newer build: add the column and backfill it from
+        // the stored JSON so existing rows are immediately queryable
+        await db().execAsync(`ALTER TABLE ${name} ADD COLUMN ${quote(field)};`);
+        await db().runAsync(
+          `UPDATE ${name} SET ${quote(field)} = json_extract(data, ?)`,
+          `$.${field}`
+        );
+      }
+      await db().execAsync(
+        `CREATE INDEX IF NOT EXISTS ${quote(`${schema.name}_${field}`)} ON ${name} (${quote(field)});`
+      );
+    }
+  };
+
+  return {
+    async open(tables) {
+      database = await SQLite.openDatabaseAsync(DATABASE_NAME);
+      await database.execAsync('PRAGMA journal_mode = WAL;');
+      for (const schema of tables) {
+        schemas.set(schema.name, schema);
+        await createTable(schema);
+      }
+    },
+
+    async get<T>(table: string, key: Scalar | Scalar[]) {
+      schemaFor(table);
+      const row = await db().getFirstAsync<{ data: string }>(
+        `SELECT data FROM ${quote(table)} WHERE pk = ?`,
+        encodeKey(key)
+      );
+      return row ? (JSON.parse(row.data) as T) : null;
+    },
+
+    async find<T>(table: string, options: FindOptions = {}) {
+      const schema = schemaFor(table);
+      const { sql, params } = whereClause(schema, options.where);
+      let query = `SELECT data FROM ${quote(table)}${sql}`;
+      if (options.orderBy) {
+        query += ` ORDER BY ${quote(options.orderBy)} ${options.descending ? 'DESC' : 'ASC'}`;
+      }
+      if (options.limit !== undefined) {
+        query += ` LIMIT ${Math.floor(options.limit)}`;
+      }
+      const rows = await db().getAllAsync<{ data: string }>(query, params);
+      return rows.map(row => JSON.parse(row.data) as T);
+    },
+
+    async count(table, where) {
+      const schema = schemaFor(table);
+      const { sql, params } = whereClause(schema, where);
+      const row = await db().getFirstAsync<{ total: number }>(
+        `SELECT COUNT(*) AS total FROM ${quote(table)}${sql}`,
+        params
+      );
+      return row?.total ?? 0;
+    },
+
+    async write(ops: WriteOp[]) {
+      if (ops.length === 0) return;
+      await db().withExclusiveTransactionAsync(async txn => {
+        for (const op of ops) {
+          const schema = schemaFor(op.table);
+          if (op.type === 'clear') {
+            await txn.runAsync(`DELETE FROM ${quote(op.table)}`);
+            continue;
+          }
+          if (op.type === 'delete') {
+            await txn.runAsync(
+              `DELETE FROM ${quote(op.table)} WHERE pk = ?`,
+              encodeKey(op.key)
+            );
+            continue;
+          }
+          const columns = ['pk', 'data', ...schema.indexes];
+          const values = [
+            keyOf(schema, op.value),
+            JSON.stringify(op.value),
+            ...schema.indexes.map(field => indexValue(op.value, field)),
+          ] as SQLite.SQLiteBindValue[];
+          await txn.runAsync(
+            `INSERT OR REPLACE INTO ${quote(op.table)} (${columns.map(quote).join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+            values
+          );
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,174 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { openDatabase, requestResult, transactionDone } from './indexedDB';
+import { encodeKey, indexValue, keyOf } from './keys';
+import { FindOptions, Scalar, StorageAdapter, TableSchema } from './types';
+
+const DATABASE_NAME = 'qr-registration';
+
+// Web builds before IndexedDB kept each table as a JSON map in localStorage
+const LEGACY_TABLE_KEY_PREFIX = '@qr_table:';
+
+type Rows = Record<string, object>;
+
+const compare = (a: Scalar, b: Scalar) => {
+  if (a === b) return 0;
+  if (a === null) return -1;
+  if (b === null) return 1;
+  return a < b ? -1 : 1;
+};
+
+/**
+ * Web builds keep one IndexedDB object store per table, with rows keyed by
+ * their encoded primary key. Everything is loaded into memory when storage
+ * is opened and written through on every change.
+ */
+export function createStorageAdapter(): StorageAdapter {
+  let database: IDBDatabase | null = null;
+  const tables = new Map<string, Rows>();
+  const schemas = new Map<string, TableSchema>();
+
+  const db = () => {
+    if (!database) throw new Error('Storage has not been opened');
+    return database;
+  };
+
+  const rowsFor = (table: string) => {
+    const rows = tables.get(table);
+    if (!rows) throw new Error(`Unknown table "${table}"`);
+    return rows;
+  };
+
+  const matches = (row: object, where: Record<string, Scalar> = {}) =>
+    Object.entries(where).every(
+      ([field, value]) =>
+        indexValue(row, field) ===
+        (typeof value === 'boolean' ? (value ? 1 : 0) : value)
+    );
+
+  /** Opens the database, adding a store for every table it doesn't have. */
+  const openWithStores = async (schemaList: TableSchema[]) => {
+    const current = await openDatabase(DATABASE_NAME);
+    const missing = schemaList.filter(
+      schema => !current.objectStoreNames.contains(schema.name)
+    );
+    if (missing.length === 0) return current;
+
+    const version = current.version + 1;
+    current.close();
+    return openDatabase(DATABASE_NAME, version, upgraded =>
+      missing.forEach(schema => upgraded.createObjectStore(schema.name))
+    );
+  };
+
+  const loadTables = async (schemaList: TableSchema[]) => {
+    const transaction = db().transaction(
+      schemaList.map(schema => schema.name),
+      'readonly'
+    );
+    await Promise.all(
+      schemaList.map(async schema => {
+        const store = transaction.objectStore(schema.name);
+        const [keys, values] = await Promise.all([
+          requestResult(store.getAllKeys()),
+          requestResult(store.getAll()),
+        ]);
+        const rows: Rows = {};
+        keys.forEach((key, index) => {
+          rows[String(key)] = values[index];
+        });
+        tables.set(schema.name, rows);
+      })
+    );
+  };
+
+  /** Moves tables saved by localStorage builds into their empty stores. */
+  const importLegacyTables = async (schemaList: TableSchema[]) => {
+    const legacyKeys = schemaList.map(
+      schema => LEGACY_TABLE_KEY_PREFIX + schema.name
+    );
+    const entries = await AsyncStorage.multiGet(legacyKeys);
+    const imported = new Map<string, Rows>();
+    schemaList.forEach((schema, index) => {
+      const stored = entries[index][1];
+      if (stored && Object.keys(rowsFor(schema.name)).length === 0) {
+        imported.set(schema.name, JSON.parse(stored));
+      }
+    });
+    if (imported.size === 0) return;
+
+    const transaction = db().transaction([...imported.keys()], 'readwrite');
+    imported.forEach((rows, table) => {
+      const store = transaction.objectStore(table);
+      Object.entries(rows).forEach(([key, row]) => store.put(row, key));
+    });
+    await transactionDone(transaction);
+    imported.forEach((rows, table) => tables.set(table, rows));
+    await AsyncStorage.multiRemove(legacyKeys);
+  };
+
+  return {
+    async open(schemaList) {
+      database = await openWithStores(schemaList);
+      schemaList.forEach(schema => schemas.set(schema.name, schema));
+      await loadTables(schemaList);
+      await importLegacyTables(schemaList);
+    },
+
+    async get<T>(table: string, key: Scalar | Scalar[]) {
+      return (rowsFor(table)[encodeKey(key)] as T | undefined) ?? null;
+    },
+
+    async find<T>(table: string, options: FindOptions = {}) {
+      let rows = Object.values(rowsFor(table)).filter(row =>
+        matches(row, options.where)
+      );
+      const { orderBy } = options;
+      if (orderBy) {
+        const direction = options.descending ? -1 : 1;
+        rows = rows.sort(
+          (a, b) =>
+            direction * compare(indexValue(a, orderBy), indexValue(b, orderBy))
+        );
+      }
+      if (options.limit !== undefined) {
+        rows = rows.slice(0, options.limit);
+      }
+      return rows as T[];
+    },
+
+    async count(table, where) {
+      return Object.values(rowsFor(table)).filter(row => matches(row, where))
+        .length;
+    },
+
+    async write(ops) {
+      if (ops.length === 0) return;
+      // Check every table first; a request that throws midway would leave
+      // the transaction to commit the ones queued before it
+      const names = [...new Set(ops.map(op => op.table))];
+      names.forEach(rowsFor);
+      const transaction = db().transaction(names, 'readwrite');
+      // Stage changes on copies so a failed write leaves memory untouched
+      const staged = new Map<string, Rows>();
+      for (const op of ops) {
+        let rows = staged.get(op.table) ?? { ...rowsFor(op.table) };
+        const store = transaction.objectStore(op.table);
+        if (op.type === 'clear') {
+          rows = {};
+          store.clear();
+        } else if (op.type === 'delete') {
+          const key = encodeKey(op.key);
+          delete rows[key];
+          store.delete(key);
+        } else {
+          const key = keyOf(schemas.get(op.table)!, op.value);
+          rows[key] = op.value;
+          store.put(op.value, key);
+        }
+        staged.set(op.table, rows);
+      }
+      await transactionDone(transaction);
+      staged.forEach((rows, table) => tables.set(table, rows));
+    },
+  };
+}
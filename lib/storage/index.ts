@@ -0,0 +1,36 @@
+import { createStorageAdapter } from './createAdapter';
+import { runMigrations } from './migrations';
+import { TABLES } from './schema';
+import { StorageAdapter } from './types';
+
+export * from './types';
+export * from './schema';
+export { encodeKey, keyOf } from './keys';
+export {
+  CURRENT_SCHEMA_VERSION,
+  DEFAULT_EVENT_ID,
+  DEVICE_ID_KEY,
+} from './migrations';
+
+let storagePromise: Promise<StorageAdapter> | null = null;
+
+const openStorage = async () => {
+  const storage = createStorageAdapter();
+  await storage.open(TABLES);
+  await runMigrations(storage);
+  return storage;
+};
+
+/**
+ * Opens the database on first use and brings it up to the current schema.
+ * A failed open is retried on the next call.
+ */
+export const getStorage = () => {
+  if (!storagePromise) {
+    storagePromise = openStorage().catch(error => {
+      storagePromise = null;
+      throw error;
+    });
+  }
+  return storagePromise;
+};
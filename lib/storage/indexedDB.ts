@@ -0,0 +1,55 @@
+/** Promise wrappers for the IndexedDB request and transaction callbacks. */
+
+export const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () =>
+      reject(transaction.error ?? new Error('Transaction was aborted'));
+  });
+
+/**
+ * Opens a database, running `upgrade` if `version` is newer than the stored
+ * one. Without a version the current one is opened, or version 1 if the
+ * database doesn't exist yet.
+ */
+export const openDatabase = (
+  name: string,
+  version?: number,
+  upgrade?: (database: IDBDatabase) => void
+) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => upgrade?.(request.result);
+    request.onsuccess = () => {
+      const database = request.result;
+      // Let another tab running a newer build upgrade the database
+      database.onversionchange = () => database.close();
+      resolve(database);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () =>
+      reject(new Error(`Database "${name}" is open in another tab`));
+  });
+
+/** Whether a database exists, without creating it as a side effect. */
+export const databaseExists = async (name: string) => {
+  if (typeof indexedDB === 'undefined') return false;
+  if (indexedDB.databases) {
+    const databases = await indexedDB.databases();
+    return databases.some(database => database.name === name);
+  }
+  // Older browsers can't list databases; opening creates an empty one at
+  // version 1, which is told apart by having no stores
+  const database = await openDatabase(name);
+  const exists = database.objectStoreNames.length > 0;
+  database.close();
+  if (!exists) await requestResult(indexedDB.deleteDatabase(name));
+  return exists;
+};
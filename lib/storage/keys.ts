@@ -0,0 +1,19 @@
+import { Scalar, TableSchema } from './types';
+
+const KEY_SEPARATOR = '\u001f';
+
+export const encodeKey = (key: Scalar | Scalar[]) =>
+  (Array.isArray(key) ? key : [key]).map(String).join(KEY_SEPARATOR);
+
+export const keyOf = (schema: TableSchema, value: object) =>
+  encodeKey(
+    schema.key.map(field => (value as Record<string, Scalar>)[field] ?? null)
+  );
+
+export const indexValue = (value: object, field: string): Scalar => {
+  const raw = (value as Record<string, unknown>)[field];
+  if (raw === undefined || raw === null) return null;
+  if (typeof raw === 'boolean') return raw ? 1 : 0;
+  if (typeof raw === 'string' || typeof raw === 'number') return raw;
+  return JSON.stringify(raw);
+};
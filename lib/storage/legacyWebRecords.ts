@@ -0,0 +1,5 @@
+/**
+ * Records saved by the standalone web manager (`qr-manager.html`). Only web
+ * builds can reach its IndexedDB database, so there are none here.
+ */
+export const readLegacyWebRecords = async (): Promise<unknown[]> => [];
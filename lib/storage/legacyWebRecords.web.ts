@@ -0,0 +1,25 @@
+import { databaseExists, openDatabase, requestResult } from './indexedDB';
+
+const LEGACY_DATABASE_NAME = 'qrRegistrationDB';
+const LEGACY_STORE_NAME = 'records';
+
+/**
+ * Records saved by the standalone web manager (`qr-manager.html`), which
+ * kept them in its own IndexedDB database keyed by QR code. The database is
+ * only read, never changed.
+ */
+export const readLegacyWebRecords = async (): Promise<unknown[]> => {
+  if (!(await databaseExists(LEGACY_DATABASE_NAME))) return [];
+  const database = await openDatabase(LEGACY_DATABASE_NAME);
+  try {
+    if (!database.objectStoreNames.contains(LEGACY_STORE_NAME)) return [];
+    return await requestResult(
+      database
+        .transaction(LEGACY_STORE_NAME, 'readonly')
+        .objectStore(LEGACY_STORE_NAME)
+        .getAll()
+    );
+  } finally {
+    database.close();
+  }
+};
@@ -0,0 +1,279 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createId } from '@/lib/ids';
+import { getDeviceTimeZone } from '@/lib/time';
+import { EVENTS_TABLE, META_TABLE, RECORDS_TABLE } from './schema';
+import { readLegacyWebRecords } from './legacyWebRecords';
+import { StorageAdapter, WriteOp } from './types';
+
+/**
+ * Version of the stored data written by this build. Bump it and append a
+ * migration whenever a table or field is added, renamed or reinterpreted.
+ */
+export const CURRENT_SCHEMA_VERSION = 7;
+
+/**
+ * Devices that have never run a migration either have no data or still keep
+ * everything in the AsyncStorage list used by the first releases.
+ */
+const LEGACY_SCHEMA_VERSION = 1;
+
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+const LEGACY_RECORDS_KEY = '@qr_records';
+const LEGACY_SCHEMA_VERSION_KEY = '@qr_records_schema_version';
+
+/** Meta entry holding this installation's id, created by migration v6. */
+export const DEVICE_ID_KEY = 'deviceId';
+
+/** Event that records from before multi-event support are moved into. */
+export const DEFAULT_EVENT_ID = 'default';
+
+const EAT_OFFSET_MINUTES = 180;
+const EAT_TIME_ZONE = 'Africa/Nairobi';
+
+/**
+ * Builds before v3 saved `now + device offset + 3h` as if it were UTC, so on
+ * any device outside EAT the stored instant is off by the difference between
+ * the device's zone and EAT. Undo that using the device's offset at the time.
+ */
+export const correctDoubleShift = (timestamp: string) => {
+  const stored = new Date(timestamp);
+  if (isNaN(stored.getTime())) return timestamp;
+  const shiftMinutes = stored.getTimezoneOffset() + EAT_OFFSET_MINUTES;
+  if (shiftMinutes === 0) return timestamp;
+  return new Date(stored.getTime() - shiftMinutes * 60000).toISOString();
+};
+
+interface MetaEntry {
+  key: string;
+  value: string;
+}
+
+interface Migration {
+  /** Version the data is at after this migration has run. */
+  version: number;
+  description: string;
+  /**
+   * Returns the writes that bring the data to `version`. They are applied in
+   * the same transaction as the version bump.
+   */
+  up: (storage: StorageAdapter) => Promise<WriteOp[]>;
+  /** Optional cleanup once the migration has been committed. */
+  after?: () => Promise<void>;
+}
+
+// Never edit a migration that has shipped; add a new one instead.
+const migrations: Migration[] = [
+  {
+    version: 2,
+    description: 'Import the AsyncStorage record list into the records table',
+    up: async () => {
+      const stored = await AsyncStorage.getItem(LEGACY_RECORDS_KEY);
+      const parsed: unknown = stored ? JSON.parse(stored) : [];
+      if (!Array.isArray(parsed)) {
+        throw new Error('Stored records are not a list');
+      }
+      return parsed
+        .filter(record => record && typeof record.qrcode === 'string')
+        .map((record): WriteOp => ({
+          type: 'put',
+          table: RECORDS_TABLE.name,
+          value: {
+            qrcode: record.qrcode,
+            name: record.name ?? '',
+            timestamp: record.timestamp ?? new Date(0).toISOString(),
+          },
+        }));
+    },
+    after: () =>
+      AsyncStorage.multiRemove([LEGACY_RECORDS_KEY, LEGACY_SCHEMA_VERSION_KEY]),
+  },
+  {
+    version: 3,
+    description:
+      'Correct double-shifted EAT timestamps and record the capture time zone',
+    up: async storage => {
+      const records = await storage.find<Record<string, unknown>>(
+        RECORDS_TABLE.name
+      );
+      const deviceTimeZone = getDeviceTimeZone();
+      // Only records without a capture time zone predate this fix
+      return records
+        .filter(record => typeof record.timezone !== 'string')
+        .map((record): WriteOp => ({
+          type: 'put',
+          table: RECORDS_TABLE.name,
+          value: {
+            ...record,
+            timestamp: correctDoubleShift(String(record.timestamp)),
+            timezone: deviceTimeZone,
+          },
+        }));
+    },
+  },
+  {
+    version: 4,
+    description: 'Move existing records into a default event',
+    up: async storage => {
+      const records = await storage.find<Record<string, unknown>>(
+        RECORDS_TABLE.name
+      );
+      const firstTimestamp = records
+        .map(record => String(record.timestamp))
+        .sort()[0];
+      // Records are re-keyed by (eventId, qrcode), so rewrite the whole table
+      return [
+        {
+          type: 'put',
+          table: EVENTS_TABLE.name,
+          value: {
+            id: DEFAULT_EVENT_ID,
+            name: 'Default Event',
+            createdAt: firstTimestamp ?? new Date().toISOString(),
+            archived: false,
+            archivedAt: null,
+          },
+        },
+        { type: 'clear', table: RECORDS_TABLE.name },
+        ...records.map((record): WriteOp => ({
+          type: 'put',
+          table: RECORDS_TABLE.name,
+          value: { ...record, eventId: DEFAULT_EVENT_ID },
+        })),
+      ];
+    },
+  },
+  {
+    version: 5,
+    description: 'Stamp records with a last-changed time for sync',
+    up: async storage => {
+      const records = await storage.find<Record<string, unknown>>(
+        RECORDS_TABLE.name
+      );
+      return records
+        .filter(record => typeof record.updatedAt !== 'string')
+        .map((record): WriteOp => ({
+          type: 'put',
+          table: RECORDS_TABLE.name,
+          value: { ...record, updatedAt: record.timestamp },
+        }));
+    },
+  },
+  {
+    version: 6,
+    description: 'Give the device an id and stamp it on existing records',
+    up: async storage => {
+      const deviceId = createId('dev');
+      const records = await storage.find<Record<string, unknown>>(
+        RECORDS_TABLE.name
+      );
+      return [
+        {
+          type: 'put',
+          table: META_TABLE.name,
+          value: { key: DEVICE_ID_KEY, value: deviceId },
+        },
+        ...records
+          .filter(record => typeof record.deviceId !== 'string')
+          .map((record): WriteOp => ({
+            type: 'put',
+            table: RECORDS_TABLE.name,
+            value: { ...record, deviceId },
+          })),
+      ];
+    },
+  },
+  {
+    version: 7,
+    description: 'Import records saved by the standalone web manager',
+    up: async storage => {
+      const legacy = (await readLegacyWebRecords()).filter(
+        (record): record is Record<string, unknown> =>
+          !!record &&
+          typeof (record as Record<string, unknown>).qrcode === 'string'
+      );
+      if (legacy.length === 0) return [];
+
+      const deviceId = await storage.get<MetaEntry>(
+        META_TABLE.name,
+        DEVICE_ID_KEY
+      );
+      const writes: WriteOp[] = [];
+      if (!(await storage.get(EVENTS_TABLE.name, DEFAULT_EVENT_ID))) {
+        writes.push({
+          type: 'put',
+          table: EVENTS_TABLE.name,
+          value: {
+            id: DEFAULT_EVENT_ID,
+            name: 'Default Event',
+            createdAt: new Date().toISOString(),
+            archived: false,
+            archivedAt: null,
+          },
+        });
+      }
+      for (const record of legacy) {
+        const qrcode = String(record.qrcode);
+        // Codes already registered in the app keep the app's copy
+        if (await storage.get(RECORDS_TABLE.name, [DEFAULT_EVENT_ID, qrcode])) {
+          continue;
+        }
+        // The web manager stored true UTC instants and always worked in EAT
+        const timestamp =
+          typeof record.timestamp === 'string'
+            ? record.timestamp
+            : new Date(0).toISOString();
+        writes.push({
+          type: 'put',
+          table: RECORDS_TABLE.name,
+          value: {
+            eventId: DEFAULT_EVENT_ID,
+            qrcode,
+            name: typeof record.name === 'string' ? record.name : '',
+            timestamp,
+            timezone: EAT_TIME_ZONE,
+            updatedAt: timestamp,
+            deviceId: deviceId?.value,
+          },
+        });
+      }
+      return writes;
+    },
+  },
+];
+
+export const runMigrations = async (storage: StorageAdapter) => {
+  const stored = await storage.get<MetaEntry>(
+    META_TABLE.name,
+    SCHEMA_VERSION_KEY
+  );
+  let version = stored ? parseInt(stored.value, 10) : LEGACY_SCHEMA_VERSION;
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Stored data uses schema v${version}, but this app only supports up to v${CURRENT_SCHEMA_VERSION}`
+    );
+  }
+
+  const pending = migrations
+    .filter(migration => migration.version > version)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    const ops = await migration.up(storage);
+    await storage.write([
+      ...ops,
+      {
+        type: 'put',
+        table: META_TABLE.name,
+        value: { key: SCHEMA_VERSION_KEY, value: String(migration.version) },
+      },
+    ]);
+    version = migration.version;
+
+    try {
+      await migration.after?.();
+    } catch (error) {
+      console.error(`Cleanup after migration v${version} failed:`, error);
+    }
+  }
+};
@@ -0,0 +1,111 @@
+import { TableSchema } from './types';
+
+export const META_TABLE: TableSchema = {
+  name: 'meta',
+  key: ['key'],
+  indexes: [],
+};
+
+export const EVENTS_TABLE: TableSchema = {
+  name: 'events',
+  key: ['id'],
+  indexes: ['archived', 'createdAt'],
+};
+
+export const RECORDS_TABLE: TableSchema = {
+  name: 'records',
+  key: ['eventId', 'qrcode'],
+  indexes: ['eventId', 'name', 'timestamp', 'onSite'],
+};
+
+export const ATTENDANCE_TABLE: TableSchema = {
+  name: 'attendance',
+  key: ['id'],
+  indexes: ['eventId', 'qrcode', 'timestamp'],
+};
+
+export const GUESTS_TABLE: TableSchema = {
+  name: 'guests',
+  key: ['eventId', 'qrcode'],
+  indexes: ['eventId', 'name'],
+};
+
+/** Local record changes waiting to be pushed, at most one per record. */
+export const OUTBOX_TABLE: TableSchema = {
+  name: 'outbox',
+  key: ['eventId', 'qrcode'],
+  indexes: ['eventId', 'nextAttemptAt'],
+};
+
+/** Records deleted on this device or by a merge, for passing on to others. */
+export const TOMBSTONES_TABLE: TableSchema = {
+  name: 'tombstones',
+  key: ['eventId', 'qrcode'],
+  indexes: ['deletedAt'],
+};
+
+/** Records deleted on this device, kept until restored or purged. */
+export const TRASH_TABLE: TableSchema = {
+  name: 'trash',
+  key: ['eventId', 'qrcode'],
+  indexes: ['eventId', 'deletedAt'],
+};
+
+/** Every change made to a record, for settling disputes. */
+export const AUDIT_TABLE: TableSchema = {
+  name: 'audit_log',
+  key: ['id'],
+  indexes: ['eventId', 'qrcode', 'timestamp'],
+};
+
+/** Other devices this one has exchanged bundles with. */
+export const DEVICES_TABLE: TableSchema = {
+  name: 'devices',
+  key: ['id'],
+  indexes: [],
+};
+
+/** Endpoints notified about registrations, edits and deletions. */
+export const WEBHOOKS_TABLE: TableSchema = {
+  name: 'webhooks',
+  key: ['id'],
+  indexes: ['createdAt'],
+};
+
+/** Queued and completed webhook calls, kept as a delivery log. */
+export const WEBHOOK_DELIVERIES_TABLE: TableSchema = {
+  name: 'webhook_deliveries',
+  key: ['id'],
+  indexes: ['endpointId', 'status', 'nextAttemptAt', 'createdAt'],
+};
+
+/** Badges printed for walk-ins, linking their codes to names. */
+export const BADGES_TABLE: TableSchema = {
+  name: 'badges',
+  key: ['eventId', 'qrcode'],
+  indexes: ['eventId', 'name'],
+};
+
+/** Scans turned away by ticket verification, kept apart from records. */
+export const REJECTED_SCANS_TABLE: TableSchema = {
+  name: 'rejected_scans',
+  key: ['id'],
+  indexes: ['eventId', 'timestamp'],
+};
+
+export const TABLES: TableSchema[] = [
+  META_TABLE,
+  EVENTS_TABLE,
+  RECORDS_TABLE,
+  ATTENDANCE_TABLE,
+  GUESTS_TABLE,
+  OUTBOX_TABLE,
+  TOMBSTONES_TABLE,
+  TRASH_TABLE,
+  AUDIT_TABLE,
+  DEVICES_TABLE,
+  WEBHOOKS_TABLE,
+  WEBHOOK_DELIVERIES_TABLE,
+  REJECTED_SCANS_TABLE,
+  BADGES_TABLE,
+];
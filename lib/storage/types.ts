@@ -0,0 +1,34 @@
+export type Scalar = string | number | boolean | null;
+
+export interface TableSchema {
+  name: string;
+  /** Fields that together identify a row. */
+  key: string[];
+  /**
+   * Fields copied into their own indexed columns so they can be used for
+   * lookups and ordering without reading every row.
+   */
+  indexes: string[];
+}
+
+export interface FindOptions {
+  /** Equality filters; every field must be the table key or an index. */
+  where?: Record<string, Scalar>;
+  orderBy?: string;
+  descending?: boolean;
+  limit?: number;
+}
+
+export type WriteOp =
+  | { type: 'put'; table: string; value: object }
+  | { type: 'delete'; table: string; key: Scalar | Scalar[] }
+  | { type: 'clear'; table: string };
+
+export interface StorageAdapter {
+  open(tables: TableSchema[]): Promise<void>;
+  get<T>(table: string, key: Scalar | Scalar[]): Promise<T | null>;
+  find<T>(table: string, options?: FindOptions): Promise<T[]>;
+  count(table: string, where?: Record<string, Scalar>): Promise<number>;
+  /** Applies every operation, or none of them. */
+  write(ops: WriteOp[]): Promise<void>;
+}
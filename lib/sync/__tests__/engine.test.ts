@@ -0,0 +1,166 @@
+import { QRRecord } from '@/lib/records';
+import {
+  EVENTS_TABLE,
+  OUTBOX_TABLE,
+  RECORDS_TABLE,
+  Scalar,
+  StorageAdapter,
+  encodeKey,
+} from '@/lib/storage';
+import { mergePulled } from '../engine';
+import { OutboxEntry } from '../types';
+
+/** Read-only storage holding the given rows; mergePulled only reads. */
+const storageWith = (rows: Record<string, [Scalar[] | Scalar, object][]>) =>
+  ({
+    get: async (table: string, key: Scalar | Scalar[]) =>
+      (rows[table] ?? []).find(
+        ([rowKey]) => encodeKey(rowKey) === encodeKey(key)
+      )?.[1] ?? null,
+  }) as unknown as StorageAdapter;
+
+const record = (changes: Partial<QRRecord>): QRRecord => ({
+  eventId: 'evt_1',
+  qrcode: 'ABC123',
+  name: 'Jane Doe',
+  timestamp: '2025-03-01T08:00:00.000Z',
+  timezone: 'Africa/Nairobi',
+  ...changes,
+});
+
+const pending = (changedAt: string): OutboxEntry => ({
+  eventId: 'evt_1',
+  qrcode: 'ABC123',
+  op: 'upsert',
+  record: record({ name: 'Local Edit', updatedAt: changedAt }),
+  changedAt,
+  revision: 'rev_1',
+  attempts: 0,
+  nextAttemptAt: changedAt,
+  lastError: null,
+});
+
+const KNOWN_EVENT: [Scalar, object] = ['evt_1', { id: 'evt_1' }];
+const KEY = ['evt_1', 'ABC123'];
+const DROP_PENDING = {
+  type: 'delete',
+  table: OUTBOX_TABLE.name,
+  key: KEY,
+};
+
+describe('mergePulled', () => {
+  it('keeps a local change newer than the remote one', async () => {
+    const storage = storageWith({
+      [EVENTS_TABLE.name]: [KNOWN_EVENT],
+      [OUTBOX_TABLE.name]: [[KEY, pending('2025-03-01T10:00:00.000Z')]],
+    });
+    const remote = record({
+      name: 'Remote',
+      updatedAt: '2025-03-01T09:00:00.000Z',
+    });
+    const merged = await mergePulled(storage, {
+      records: [remote],
+      deleted: [],
+      cursor: 'c2',
+    });
+    expect(merged.upserts).toEqual([]);
+    expect(merged.writes).not.toContainEqual(DROP_PENDING);
+  });
+
+  it('takes a newer remote change and drops the local one', async () => {
+    const storage = storageWith({
+      [EVENTS_TABLE.name]: [KNOWN_EVENT],
+      [OUTBOX_TABLE.name]: [[KEY, pending('2025-03-01T09:00:00.000Z')]],
+    });
+    const remote = record({
+      name: 'Remote',
+      updatedAt: '2025-03-01T10:00:00.000Z',
+    });
+    const merged = await mergePulled(storage, {
+      records: [remote],
+      deleted: [],
+      cursor: 'c2',
+    });
+    expect(merged.upserts).toEqual([remote]);
+    expect(merged.writes).toContainEqual(DROP_PENDING);
+  });
+
+  it("keeps the server's copy on a tie", async () => {
+    const changedAt = '2025-03-01T09:00:00.000Z';
+    const storage = storageWith({
+      [EVENTS_TABLE.name]: [KNOWN_EVENT],
+      [OUTBOX_TABLE.name]: [[KEY, pending(changedAt)]],
+    });
+    const remote = record({ name: 'Remote', updatedAt: changedAt });
+    const merged = await mergePulled(storage, {
+      records: [remote],
+      deleted: [],
+      cursor: 'c2',
+    });
+    expect(merged.upserts).toEqual([remote]);
+  });
+
+  it('applies remote deletions unless changed here since', async () => {
+    const deletion = {
+      eventId: 'evt_1',
+      qrcode: 'ABC123',
+      deletedAt: '2025-03-01T09:30:00.000Z',
+    };
+    const stored: [Scalar[], object] = [KEY, record({})];
+
+    const clean = storageWith({ [RECORDS_TABLE.name]: [stored] });
+    expect(
+      (
+        await mergePulled(clean, {
+          records: [],
+          deleted: [deletion],
+          cursor: 'c2',
+        })
+      ).deletions
+    ).toEqual([{ eventId: 'evt_1', qrcode: 'ABC123' }]);
+
+    const edited = storageWith({
+      [RECORDS_TABLE.name]: [stored],
+      [OUTBOX_TABLE.name]: [[KEY, pending('2025-03-01T10:00:00.000Z')]],
+    });
+    expect(
+      (
+        await mergePulled(edited, {
+          records: [],
+          deleted: [deletion],
+          cursor: 'c2',
+        })
+      ).deletions
+    ).toEqual([]);
+  });
+
+  it('creates events it has not seen and skips malformed records', async () => {
+    const merged = await mergePulled(storageWith({}), {
+      records: [
+        record({ eventId: 'evt_2' }),
+        { eventId: 'evt_2', qrcode: 'X' } as QRRecord,
+      ],
+      deleted: [],
+      cursor: 'c2',
+    });
+    expect(merged.upserts).toHaveLength(1);
+    expect(merged.eventsCreated).toBe(true);
+    expect(merged.writes).toContainEqual(
+      expect.objectContaining({
+        table: EVENTS_TABLE.name,
+        value: expect.objectContaining({ id: 'evt_2' }),
+      })
+    );
+  });
+
+  it('moves the cursor on', async () => {
+    const merged = await mergePulled(storageWith({}), {
+      records: [],
+      deleted: [],
+      cursor: 'c2',
+    });
+    expect(merged.writes).toContainEqual(
+      expect.objectContaining({ value: { key: 'syncCursor', value: 'c2' } })
+    );
+  });
+});
@@ -0,0 +1,59 @@
+import { PullResponse, PushChange } from './types';
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+export interface SyncServerConfig {
+  serverUrl: string;
+  token: string | null;
+}
+
+export class SyncHttpError extends Error {
+  constructor(public status: number) {
+    super(`Sync server responded with HTTP ${status}`);
+    this.name = 'SyncHttpError';
+  }
+}
+
+const request = async <T>(
+  { serverUrl, token }: SyncServerConfig,
+  path: string,
+  init: RequestInit = {}
+): Promise<T> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(serverUrl + path, {
+      ...init,
+      signal: controller.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    });
+    if (!response.ok) throw new SyncHttpError(response.status);
+    return (await response.json()) as T;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+/**
+ * `POST /records/batch` — the server keeps whichever side changed last. A
+ * change it rejects is answered by its own copy on the next pull.
+ */
+export const pushChanges = (config: SyncServerConfig, changes: PushChange[]) =>
+  request<{ accepted: number }>(config, '/records/batch', {
+    method: 'POST',
+    body: JSON.stringify({ changes }),
+  });
+
+/** `GET /records?since=<cursor>` — everything changed after the cursor. */
+export const pullChanges = (config: SyncServerConfig, since: string | null) =>
+  request<PullResponse>(
+    config,
+    since ? `/records?since=${encodeURIComponent(since)}` : '/records'
+  );
+
+/** Trims the URL a person typed into the form the client expects. */
+export const normalizeServerUrl = (url: string) =>
+  url.trim().replace(/\/+$/, '');
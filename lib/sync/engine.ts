@@ -0,0 +1,392 @@
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import { QREvent, reloadEvents } from '@/lib/events';
+import {
+  QRRecord,
+  RecordChange,
+  commitSync,
+  isRecord,
+  subscribeToRecords,
+} from '@/lib/records';
+import {
+  getSettings,
+  subscribeToSettings,
+  updateSettings,
+} from '@/lib/settings';
+import {
+  EVENTS_TABLE,
+  META_TABLE,
+  OUTBOX_TABLE,
+  RECORDS_TABLE,
+  StorageAdapter,
+  WriteOp,
+  getStorage,
+} from '@/lib/storage';
+import {
+  SyncServerConfig,
+  normalizeServerUrl,
+  pullChanges,
+  pushChanges,
+} from './client';
+import { countOutbox, listOutbox, outboxWrites } from './outbox';
+import {
+  OutboxEntry,
+  PullResponse,
+  PushChange,
+  SyncState,
+  SyncStateListener,
+} from './types';
+
+const SYNC_CURSOR_KEY = 'syncCursor';
+const PUSH_BATCH_SIZE = 100;
+const SYNC_INTERVAL_MS = 60 * 1000;
+const CHANGE_DEBOUNCE_MS = 2000;
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 15 * 60 * 1000;
+
+let state: SyncState = {
+  status: 'disabled',
+  lastSyncedAt: null,
+  lastError: null,
+  pending: 0,
+};
+const listeners = new Set<SyncStateListener>();
+let running: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+// Set while pulled changes are committed, so the record changes they notify
+// don't schedule another sync
+let applyingPull = false;
+
+const setState = (changes: Partial<SyncState>) => {
+  state = { ...state, ...changes };
+  listeners.forEach(listener => {
+    try {
+      listener(state);
+    } catch (error) {
+      console.error('Sync listener failed:', error);
+    }
+  });
+};
+
+/** 5s, 10s, 20s… capped at 15 minutes. */
+const retryDelay = (attempts: number) =>
+  Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+
+const changedAt = (record: QRRecord) => record.updatedAt ?? record.timestamp;
+
+const toPushChange = (entry: OutboxEntry): PushChange =>
+  entry.op === 'upsert' && entry.record
+    ? { op: 'upsert', record: entry.record }
+    : {
+        op: 'delete',
+        eventId: entry.eventId,
+        qrcode: entry.qrcode,
+        deletedAt: entry.changedAt,
+      };
+
+/**
+ * Outbox writes for entries that are still at the revision that was sent;
+ * anything changed since then stays queued for the next push.
+ */
+const unchangedEntries = async (
+  storage: StorageAdapter,
+  entries: OutboxEntry[]
+) => {
+  const current: OutboxEntry[] = [];
+  for (const entry of entries) {
+    const stored = await storage.get<OutboxEntry>(OUTBOX_TABLE.name, [
+      entry.eventId,
+      entry.qrcode,
+    ]);
+    if (stored?.revision === entry.revision) current.push(stored);
+  }
+  return current;
+};
+
+const push = async (config: SyncServerConfig) => {
+  const now = new Date().toISOString();
+  const due = (await listOutbox()).filter(entry => entry.nextAttemptAt <= now);
+
+  for (let start = 0; start < due.length; start += PUSH_BATCH_SIZE) {
+    const batch = due.slice(start, start + PUSH_BATCH_SIZE);
+    try {
+      await pushChanges(config, batch.map(toPushChange));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await commitSync(async storage => ({
+        upserts: [],
+        deletions: [],
+        writes: (await unchangedEntries(storage, batch)).map(
+          (entry): WriteOp => {
+            const attempts = entry.attempts + 1;
+            return {
+              type: 'put',
+              table: OUTBOX_TABLE.name,
+              value: {
+                ...entry,
+                attempts,
+                lastError: message,
+                nextAttemptAt: new Date(
+                  Date.now() + retryDelay(attempts)
+                ).toISOString(),
+              },
+            };
+          }
+        ),
+      }));
+      throw error;
+    }
+
+    await commitSync(async storage => ({
+      upserts: [],
+      deletions: [],
+      writes: (await unchangedEntries(storage, batch)).map(
+        (entry): WriteOp => ({
+          type: 'delete',
+          table: OUTBOX_TABLE.name,
+          key: [entry.eventId, entry.qrcode],
+        })
+      ),
+    }));
+  }
+};
+
+/**
+ * Merges pulled changes by event and QR code. The side that changed last
+ * wins; on a tie the server's copy is kept. A local change that loses is
+ * dropped from the outbox.
+ */
+export const mergePulled = async (
+  storage: StorageAdapter,
+  pulled: PullResponse
+) => {
+  const upserts: QRRecord[] = [];
+  const deletions: { eventId: string; qrcode: string }[] = [];
+  const writes: WriteOp[] = [];
+  const knownEvents = new Set<string>();
+  let eventsCreated = false;
+
+  const pendingFor = (eventId: string, qrcode: string) =>
+    storage.get<OutboxEntry>(OUTBOX_TABLE.name, [eventId, qrcode]);
+  const dropPending = (eventId: string, qrcode: string) =>
+    writes.push({
+      type: 'delete',
+      table: OUTBOX_TABLE.name,
+      key: [eventId, qrcode],
+    });
+
+  for (const remote of pulled.records.filter(isRecord)) {
+    const pending = await pendingFor(remote.eventId, remote.qrcode);
+    if (pending && pending.changedAt > changedAt(remote)) continue;
+    if (pending) dropPending(remote.eventId, remote.qrcode);
+    upserts.push(remote);
+
+    // Records can arrive for events created on another device
+    if (
+      !knownEvents.has(remote.eventId) &&
+      !(await storage.get(EVENTS_TABLE.name, remote.eventId))
+    ) {
+      const event: QREvent = {
+        id: remote.eventId,
+        name: 'Synced Event',
+        createdAt: remote.timestamp,
+        archived: false,
+        archivedAt: null,
+      };
+      writes.push({ type: 'put', table: EVENTS_TABLE.name, value: event });
+      eventsCreated = true;
+    }
+    knownEvents.add(remote.eventId);
+  }
+
+  for (const deletion of pulled.deleted) {
+    const { eventId, qrcode, deletedAt } = deletion;
+    const local = await storage.get<QRRecord>(RECORDS_TABLE.name, [
+      eventId,
+      qrcode,
+    ]);
+    const pending = await pendingFor(eventId, qrcode);
+    if (pending && pending.changedAt > deletedAt) continue;
+    if (pending) dropPending(eventId, qrcode);
+    if (local) deletions.push({ eventId, qrcode });
+  }
+
+  writes.push({
+    type: 'put',
+    table: META_TABLE.name,
+    value: { key: SYNC_CURSOR_KEY, value: pulled.cursor },
+  });
+  return { upserts, deletions, writes, eventsCreated };
+};
+
+const pull = async (config: SyncServerConfig) => {
+  const storage = await getStorage();
+  const cursor = await storage.get<{ value: string }>(
+    META_TABLE.name,
+    SYNC_CURSOR_KEY
+  );
+  // Fetch outside the write queue so a slow server never blocks scanning
+  const pulled = await pullChanges(config, cursor?.value ?? null);
+  let eventsCreated = false;
+  await commitSync(async current => {
+    applyingPull = true;
+    const merged = await mergePulled(current, pulled);
+    eventsCreated = merged.eventsCreated;
+    return merged;
+  }).finally(() => {
+    applyingPull = false;
+  });
+  if (eventsCreated) reloadEvents();
+};
+
+const scheduleRetry = async () => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  const [next] = await listOutbox();
+  if (!next) return;
+  const delay = Math.max(
+    new Date(next.nextAttemptAt).getTime() - Date.now(),
+    1000
+  );
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    syncNow();
+  }, delay);
+};
+
+const runSync = async () => {
+  const { syncServerUrl, syncToken } = await getSettings();
+  if (!syncServerUrl) {
+    setState({ status: 'disabled', lastError: null, pending: 0 });
+    return;
+  }
+
+  const network = await NetInfo.fetch();
+  if (network.isConnected === false) {
+    setState({ status: 'offline', pending: await countOutbox() });
+    return;
+  }
+
+  setState({ status: 'syncing' });
+  const config = { serverUrl: syncServerUrl, token: syncToken };
+  try {
+    await push(config);
+    await pull(config);
+    setState({
+      status: 'idle',
+      lastSyncedAt: new Date().toISOString(),
+      lastError: null,
+    });
+  } catch (error) {
+    console.error('Sync failed:', error);
+    setState({
+      status: 'error',
+      lastError: error instanceof Error ? error.message : String(error),
+    });
+  } finally {
+    setState({ pending: await countOutbox() });
+    await scheduleRetry();
+  }
+};
+
+/** Pushes queued changes and pulls remote ones. Concurrent calls share a run. */
+export const syncNow = (): Promise<void> => {
+  if (!running) {
+    running = runSync()
+      .catch(error => console.error('Sync failed:', error))
+      .finally(() => {
+        running = null;
+      });
+  }
+  return running;
+};
+
+/**
+ * Points the app at a sync server, or turns sync off with a null URL. The
+ * whole local data set is queued so the new server receives it, and pulling
+ * starts over from the beginning.
+ */
+export const configureSync = async (
+  serverUrl: string | null,
+  token: string | null
+) => {
+  const url = serverUrl ? normalizeServerUrl(serverUrl) : null;
+  await updateSettings({
+    syncServerUrl: url || null,
+    syncToken: token?.trim() || null,
+  });
+
+  await commitSync(async storage => {
+    const records = await storage.find<QRRecord>(RECORDS_TABLE.name);
+    return {
+      upserts: [],
+      deletions: [],
+      writes: [
+        { type: 'delete', table: META_TABLE.name, key: SYNC_CURSOR_KEY },
+        { type: 'clear', table: OUTBOX_TABLE.name },
+        ...(url
+          ? outboxWrites(
+              records.map((record): RecordChange => ({ type: 'added', record }))
+            )
+          : []),
+      ],
+    };
+  });
+  await syncNow();
+};
+
+export const getSyncState = () => state;
+
+export const subscribeToSyncState = (listener: SyncStateListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Keeps syncing in the background: shortly after local changes, when the
+ * network comes back, when the app returns to the foreground and once a
+ * minute. Returns a function that stops it.
+ */
+export const startSync = () => {
+  let debounce: ReturnType<typeof setTimeout> | null = null;
+  let wasConnected = true;
+
+  syncNow();
+  const interval = setInterval(syncNow, SYNC_INTERVAL_MS);
+  const unsubscribeRecords = subscribeToRecords(() => {
+    if (applyingPull) return;
+    if (debounce) clearTimeout(debounce);
+    // A sync already under way may have pushed before this change was made
+    debounce = setTimeout(
+      () => (running ?? Promise.resolve()).then(syncNow),
+      CHANGE_DEBOUNCE_MS
+    );
+  });
+  const unsubscribeNetwork = NetInfo.addEventListener(network => {
+    const connected = network.isConnected !== false;
+    if (connected && !wasConnected) syncNow();
+    wasConnected = connected;
+  });
+  const appState = AppState.addEventListener('change', status => {
+    if (status === 'active') syncNow();
+  });
+  let serverUrl: string | null = null;
+  const unsubscribeSettings = subscribeToSettings(settings => {
+    if (settings.syncServerUrl === serverUrl) return;
+    serverUrl = settings.syncServerUrl;
+    syncNow();
+  });
+
+  return () => {
+    clearInterval(interval);
+    if (debounce) clearTimeout(debounce);
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    unsubscribeRecords();
+    unsubscribeNetwork();
+    appState.remove();
+    unsubscribeSettings();
+  };
+};
@@ -0,0 +1,4 @@
+export * from './types';
+export * from './client';
+export * from './outbox';
+export * from './engine';
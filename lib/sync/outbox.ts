@@ -0,0 +1,51 @@
+import { createId } from '@/lib/ids';
+import { QRRecord, RecordChange } from '@/lib/records';
+import { OUTBOX_TABLE, WriteOp, getStorage } from '@/lib/storage';
+import { OutboxEntry, RecordSyncStatus } from './types';
+
+const outboxEntry = (record: QRRecord, op: OutboxEntry['op']): OutboxEntry => {
+  const now = new Date().toISOString();
+  return {
+    eventId: record.eventId,
+    qrcode: record.qrcode,
+    op,
+    record: op === 'upsert' ? record : null,
+    changedAt: now,
+    revision: createId('rev'),
+    attempts: 0,
+    nextAttemptAt: now,
+    lastError: null,
+  };
+};
+
+/**
+ * Outbox writes for local record changes, committed in the same transaction
+ * as the changes themselves so nothing is lost if the app is killed.
+ */
+export const outboxWrites = (changes: RecordChange[]): WriteOp[] =>
+  changes.map(change => ({
+    type: 'put',
+    table: OUTBOX_TABLE.name,
+    value: outboxEntry(
+      change.record,
+      change.type === 'deleted' ? 'delete' : 'upsert'
+    ),
+  }));
+
+export const listOutbox = async (eventId?: string): Promise<OutboxEntry[]> => {
+  const storage = await getStorage();
+  return storage.find<OutboxEntry>(OUTBOX_TABLE.name, {
+    where: eventId ? { eventId } : undefined,
+    orderBy: 'nextAttemptAt',
+  });
+};
+
+export const countOutbox = async (): Promise<number> => {
+  const storage = await getStorage();
+  return storage.count(OUTBOX_TABLE.name);
+};
+
+export const syncStatusOf = (
+  entry: OutboxEntry | undefined
+): RecordSyncStatus =>
+  !entry ? 'synced' : entry.lastError ? 'failed' : 'pending';
@@ -0,0 +1,47 @@
+import { QRRecord } from '@/lib/records';
+
+export interface OutboxEntry {
+  eventId: string;
+  qrcode: string;
+  /** Changes to the same record are coalesced; only the latest is sent. */
+  op: 'upsert' | 'delete';
+  /** The record as it should be on the server; null for deletes. */
+  record: QRRecord | null;
+  changedAt: string;
+  /** Rewritten on every change, so a push only clears what it sent. */
+  revision: string;
+  attempts: number;
+  /** UTC time before which the entry isn't retried. */
+  nextAttemptAt: string;
+  lastError: string | null;
+}
+
+export type RecordSyncStatus = 'synced' | 'pending' | 'failed';
+
+export interface SyncState {
+  status: 'disabled' | 'idle' | 'syncing' | 'offline' | 'error';
+  lastSyncedAt: string | null;
+  lastError: string | null;
+  /** Records waiting to be pushed. */
+  pending: number;
+}
+
+export type SyncStateListener = (state: SyncState) => void;
+
+/** A record removed on some device, as reported by the server. */
+export interface RemoteDeletion {
+  eventId: string;
+  qrcode: string;
+  deletedAt: string;
+}
+
+export type PushChange =
+  | { op: 'upsert'; record: QRRecord }
+  | { op: 'delete'; eventId: string; qrcode: string; deletedAt: string };
+
+export interface PullResponse {
+  records: QRRecord[];
+  deleted: RemoteDeletion[];
+  /** Opaque position to pass as `since` on the next pull. */
+  cursor: string;
+}
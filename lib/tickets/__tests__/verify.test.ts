@@ -0,0 +1,108 @@
+import { ed25519 } from '@noble/curves/ed25519';
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { TicketKey } from '../types';
+import { TicketRejectedError, verifyTicket } from '../verify';
+
+const SECRET = 'box-office-shared-secret';
+const PRIVATE_KEY = ed25519.utils.randomPrivateKey();
+const NOW = Date.UTC(2025, 5, 1);
+
+const KEYS: TicketKey[] = [
+  { id: 'k1', name: 'box-office', type: 'hmac', key: SECRET },
+  {
+    id: 'k2',
+    name: 'issuer',
+    type: 'ed25519',
+    key: bytesToHex(ed25519.getPublicKey(PRIVATE_KEY)),
+  },
+];
+
+const encode = (bytes: Uint8Array | string) =>
+  Buffer.from(bytes).toString('base64url');
+
+const sign = (
+  header: object,
+  claims: object,
+  signer: (message: Uint8Array) => Uint8Array
+) => {
+  const signed = `${encode(JSON.stringify(header))}.${encode(JSON.stringify(claims))}`;
+  return `${signed}.${encode(signer(utf8ToBytes(signed)))}`;
+};
+
+const hs256 = (claims: object, secret = SECRET) =>
+  sign({ alg: 'HS256' }, claims, message =>
+    hmac(sha256, utf8ToBytes(secret), message)
+  );
+
+const eddsa = (claims: object, header: object = { alg: 'EdDSA' }) =>
+  sign(header, claims, message => ed25519.sign(message, PRIVATE_KEY));
+
+const rejection = (ticket: string, keys = KEYS) => {
+  try {
+    verifyTicket(ticket, keys, 'evt_1', NOW);
+  } catch (error) {
+    if (error instanceof TicketRejectedError) return error.reason;
+    throw error;
+  }
+  return null;
+};
+
+describe('verifyTicket', () => {
+  it('accepts HS256 tickets and reads the attendee from the claims', () => {
+    const parsed = verifyTicket(
+      hs256({ sub: 'T-1042', name: 'Jane Doe', evt: 'evt_1', seat: 'A4' }),
+      KEYS,
+      'evt_1',
+      NOW
+    );
+    expect(parsed).toMatchObject({
+      format: 'ticket',
+      id: 'T-1042',
+      name: 'Jane Doe',
+      details: { seat: 'A4' },
+    });
+  });
+
+  it('accepts Ed25519 tickets signed with a known key', () => {
+    const ticket = eddsa({ sub: 'T-7' }, { alg: 'EdDSA', kid: 'issuer' });
+    expect(verifyTicket(ticket, KEYS, 'evt_1', NOW).id).toBe('T-7');
+  });
+
+  it('turns away codes that are not signed tickets', () => {
+    expect(rejection('ABC123')).toBe('unsigned');
+    expect(rejection('a.b.c')).toBe('malformed');
+  });
+
+  it('turns away tickets with a forged or altered signature', () => {
+    expect(rejection(hs256({ sub: 'T-1' }, 'someone-elses-secret'))).toBe(
+      'bad-signature'
+    );
+    const [header, , signature] = hs256({ sub: 'T-1' }).split('.');
+    const altered = `${header}.${encode(JSON.stringify({ sub: 'T-2' }))}.${signature}`;
+    expect(rejection(altered)).toBe('bad-signature');
+  });
+
+  it('refuses unsigned "none" tickets and unknown keys', () => {
+    expect(
+      rejection(sign({ alg: 'none' }, { sub: 'T-1' }, () => new Uint8Array()))
+    ).toBe('unknown-key');
+    expect(
+      rejection(eddsa({ sub: 'T-1' }, { alg: 'EdDSA', kid: 'other' }))
+    ).toBe('unknown-key');
+    expect(rejection(hs256({ sub: 'T-1' }), [KEYS[1]])).toBe('unknown-key');
+  });
+
+  it('enforces the validity window and the event', () => {
+    const seconds = NOW / 1000;
+    expect(rejection(hs256({ sub: 'T-1', exp: seconds }))).toBe('expired');
+    expect(rejection(hs256({ sub: 'T-1', nbf: seconds + 60 }))).toBe(
+      'not-yet-valid'
+    );
+    expect(rejection(hs256({ sub: 'T-1', evt: 'evt_2' }))).toBe('wrong-event');
+    expect(
+      rejection(hs256({ sub: 'T-1', exp: seconds + 60, nbf: seconds }))
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,33 @@
+/** Decodes base64 or base64url, with or without padding. */
+export const base64ToBytes = (text: string): Uint8Array => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/').replace(/=+$/, '');
+  if (!/^[A-Za-z0-9+/]*$/.test(base64) || base64.length % 4 === 1) {
+    throw new Error('Invalid base64');
+  }
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), char => char.charCodeAt(0));
+};
+
+/** Decodes an Ed25519 public key given as hex or base64. */
+export const decodePublicKey = (key: string): Uint8Array => {
+  const trimmed = key.trim();
+  const bytes = /^[0-9a-f]{64}$/i.test(trimmed)
+    ? Uint8Array.from(trimmed.match(/../g)!, byte => parseInt(byte, 16))
+    : base64ToBytes(trimmed);
+  if (bytes.length !== 32) {
+    throw new Error('An Ed25519 public key is 32 bytes');
+  }
+  return bytes;
+};
+
+/**
+ * Decodes base64url-encoded UTF-8 text. Goes through percent-encoding as
+ * Hermes has no TextDecoder.
+ */
+export const base64ToText = (text: string): string =>
+  decodeURIComponent(
+    Array.from(
+      base64ToBytes(text),
+      byte => `%${byte.toString(16).padStart(2, '0')}`
+    ).join('')
+  );
@@ -0,0 +1,47 @@
+import { createId } from '@/lib/ids';
+import { decodePublicKey } from './encoding';
+import { TicketKey, TicketKeyInput, TicketKeyType } from './types';
+
+export const KEY_TYPE_LABELS: Record<TicketKeyType, string> = {
+  ed25519: 'Ed25519',
+  hmac: 'HMAC',
+};
+
+// Shorter shared secrets are too easy to guess offline
+const MIN_SECRET_LENGTH = 16;
+
+export class TicketKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TicketKeyError';
+  }
+}
+
+/**
+ * Tidies a key from the verification screen, throwing a TicketKeyError if it
+ * can't be used.
+ */
+export const checkTicketKey = (input: TicketKeyInput): TicketKeyInput => {
+  const name = input.name.trim();
+  const key = input.key.trim();
+  if (!name) throw new TicketKeyError('Give the key a name');
+  if (input.type === 'ed25519') {
+    try {
+      decodePublicKey(key);
+    } catch {
+      throw new TicketKeyError(
+        'Enter the 32-byte Ed25519 public key as hex or base64'
+      );
+    }
+  } else if (key.length < MIN_SECRET_LENGTH) {
+    throw new TicketKeyError(
+      `The shared secret must be at least ${MIN_SECRET_LENGTH} characters`
+    );
+  }
+  return { name, type: input.type, key };
+};
+
+export const createTicketKey = (input: TicketKeyInput): TicketKey => ({
+  ...checkTicketKey(input),
+  id: createId('key'),
+});
@@ -0,0 +1,73 @@
+import { getDeviceId } from '@/lib/devices';
+import { createId } from '@/lib/ids';
+import { REJECTED_SCANS_TABLE, getStorage } from '@/lib/storage';
+import { RejectedScan, RejectedScansListener } from './types';
+import { TicketRejectedError } from './verify';
+
+const listeners = new Set<RejectedScansListener>();
+
+const notify = () => {
+  listeners.forEach(listener => {
+    try {
+      listener();
+    } catch (error) {
+      console.error('Rejected scans listener failed:', error);
+    }
+  });
+};
+
+export const logRejectedScan = async (
+  eventId: string,
+  payload: string,
+  error: TicketRejectedError
+): Promise<RejectedScan> => {
+  const scan: RejectedScan = {
+    id: createId('rej'),
+    eventId,
+    payload,
+    reason: error.reason,
+    message: error.message,
+    timestamp: new Date().toISOString(),
+    deviceId: await getDeviceId(),
+  };
+  const storage = await getStorage();
+  await storage.write([
+    { type: 'put', table: REJECTED_SCANS_TABLE.name, value: scan },
+  ]);
+  notify();
+  return scan;
+};
+
+/** Rejected scans of an event, newest first. */
+export const listRejectedScans = async (
+  eventId: string
+): Promise<RejectedScan[]> => {
+  const storage = await getStorage();
+  return storage.find<RejectedScan>(REJECTED_SCANS_TABLE.name, {
+    where: { eventId },
+    orderBy: 'timestamp',
+    descending: true,
+  });
+};
+
+export const clearRejectedScans = async (eventId: string) => {
+  const storage = await getStorage();
+  const scans = await storage.find<RejectedScan>(REJECTED_SCANS_TABLE.name, {
+    where: { eventId },
+  });
+  await storage.write(
+    scans.map(scan => ({
+      type: 'delete' as const,
+      table: REJECTED_SCANS_TABLE.name,
+      key: scan.id,
+    }))
+  );
+  notify();
+};
+
+export const subscribeToRejectedScans = (listener: RejectedScansListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
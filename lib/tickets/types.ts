@@ -0,0 +1,40 @@
+export type TicketKeyType = 'ed25519' | 'hmac';
+
+/**
+ * A key tickets can be signed with. Ed25519 keys are public keys, so the
+ * device can check tickets but not issue them; HMAC keys are a secret shared
+ * with the ticketing system.
+ */
+export interface TicketKey {
+  id: string;
+  /** Matched against the `kid` in a ticket's header, when it has one. */
+  name: string;
+  type: TicketKeyType;
+  /** Ed25519 public key as hex or base64, or the HMAC secret. */
+  key: string;
+}
+
+export type TicketKeyInput = Omit<TicketKey, 'id'>;
+
+export type TicketRejectionReason =
+  | 'unsigned'
+  | 'malformed'
+  | 'unknown-key'
+  | 'bad-signature'
+  | 'expired'
+  | 'not-yet-valid'
+  | 'wrong-event';
+
+/** A scan turned away by ticket verification. */
+export interface RejectedScan {
+  id: string;
+  eventId: string;
+  /** The code as scanned. */
+  payload: string;
+  reason: TicketRejectionReason;
+  message: string;
+  timestamp: string;
+  deviceId: string;
+}
+
+export type RejectedScansListener = () => void;
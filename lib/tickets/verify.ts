@@ -0,0 +1,140 @@
+import { ed25519 } from '@noble/curves/ed25519';
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha256';
+import { utf8ToBytes } from '@noble/hashes/utils';
+import { ParsedPayload, payloadFromObject } from '@/lib/payloads';
+import { base64ToBytes, base64ToText, decodePublicKey } from './encoding';
+import { KEY_TYPE_LABELS } from './keys';
+import { TicketKey, TicketKeyType, TicketRejectionReason } from './types';
+
+const ALGORITHMS: Record<string, TicketKeyType> = {
+  EdDSA: 'ed25519',
+  Ed25519: 'ed25519',
+  HS256: 'hmac',
+};
+
+// Claims about the ticket itself rather than the attendee
+const TICKET_CLAIMS = ['exp', 'nbf', 'iat', 'iss', 'aud', 'evt', 'event'];
+
+export class TicketRejectedError extends Error {
+  constructor(
+    public reason: TicketRejectionReason,
+    message: string
+  ) {
+    super(message);
+    this.name = 'TicketRejectedError';
+  }
+}
+
+const decodeJSON = (part: string): Record<string, unknown> => {
+  const parsed = JSON.parse(base64ToText(part));
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Expected a JSON object');
+  }
+  return parsed;
+};
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  a.forEach((byte, index) => {
+    difference |= byte ^ b[index];
+  });
+  return difference === 0;
+};
+
+const signedBy = (
+  key: TicketKey,
+  message: Uint8Array,
+  signature: Uint8Array
+) => {
+  try {
+    return key.type === 'ed25519'
+      ? ed25519.verify(signature, message, decodePublicKey(key.key))
+      : sameBytes(hmac(sha256, utf8ToBytes(key.key), message), signature);
+  } catch {
+    // A malformed signature or stored key can't have signed anything
+    return false;
+  }
+};
+
+/**
+ * Checks a signed ticket: a JWS in compact form (`header.claims.signature`,
+ * each part base64url) signed with EdDSA (Ed25519) or HS256. Tickets may
+ * carry `exp` and `nbf` in seconds since the epoch, and `evt` with the id of
+ * the event they admit to; those are enforced when present. Throws a
+ * TicketRejectedError explaining why a ticket isn't valid, otherwise returns
+ * its claims read like a JSON ticket. Everything is checked on the device.
+ */
+export const verifyTicket = (
+  raw: string,
+  keys: TicketKey[],
+  eventId: string,
+  now = Date.now()
+): ParsedPayload => {
+  const parts = raw.trim().split('.');
+  if (parts.length !== 3) {
+    throw new TicketRejectedError('unsigned', 'Not a signed ticket');
+  }
+  const [headerPart, claimsPart, signaturePart] = parts;
+
+  let header: Record<string, unknown>;
+  let claims: Record<string, unknown>;
+  let signature: Uint8Array;
+  try {
+    header = decodeJSON(headerPart);
+    claims = decodeJSON(claimsPart);
+    signature = base64ToBytes(signaturePart);
+  } catch {
+    throw new TicketRejectedError('malformed', 'The ticket is damaged');
+  }
+
+  // "none" and other algorithms are refused outright
+  const type = ALGORITHMS[String(header.alg)];
+  if (!type) {
+    throw new TicketRejectedError(
+      'unknown-key',
+      `Unsupported signature algorithm "${header.alg}"`
+    );
+  }
+  const candidates = keys.filter(
+    key =>
+      key.type === type && (header.kid === undefined || key.name === header.kid)
+  );
+  if (candidates.length === 0) {
+    throw new TicketRejectedError(
+      'unknown-key',
+      header.kid === undefined
+        ? `No ${KEY_TYPE_LABELS[type]} key to check this ticket with`
+        : `Signed with unknown key "${header.kid}"`
+    );
+  }
+  const message = utf8ToBytes(`${headerPart}.${claimsPart}`);
+  if (!candidates.some(key => signedBy(key, message, signature))) {
+    throw new TicketRejectedError(
+      'bad-signature',
+      'Invalid signature: the ticket is forged or altered'
+    );
+  }
+
+  if (typeof claims.exp === 'number' && now >= claims.exp * 1000) {
+    throw new TicketRejectedError('expired', 'The ticket has expired');
+  }
+  if (typeof claims.nbf === 'number' && now < claims.nbf * 1000) {
+    throw new TicketRejectedError(
+      'not-yet-valid',
+      'The ticket is not valid yet'
+    );
+  }
+  const ticketEvent = claims.evt ?? claims.event;
+  if (ticketEvent !== undefined && ticketEvent !== eventId) {
+    throw new TicketRejectedError(
+      'wrong-event',
+      'The ticket is for a different event'
+    );
+  }
+
+  const attendee = { ...claims };
+  TICKET_CLAIMS.forEach(claim => delete attendee[claim]);
+  return payloadFromObject('ticket', attendee, raw);
+};
@@ -0,0 +1,182 @@
+export interface TimeZoneOption {
+  id: string;
+  /** Short label shown next to times and in export headers. */
+  label: string;
+  description: string;
+}
+
+export const DEFAULT_TIME_ZONE = 'Africa/Nairobi';
+
+export const TIME_ZONES: TimeZoneOption[] = [
+  {
+    id: 'Africa/Nairobi',
+    label: 'EAT',
+    description: 'East Africa Time (UTC+3)',
+  },
+  { id: 'UTC', label: 'UTC', description: 'Coordinated Universal Time' },
+  { id: 'Africa/Lagos', label: 'WAT', description: 'West Africa Time (UTC+1)' },
+  {
+    id: 'Africa/Johannesburg',
+    label: 'SAST',
+    description: 'South Africa (UTC+2)',
+  },
+  { id: 'Africa/Cairo', label: 'EET', description: 'Egypt (UTC+2/+3)' },
+  {
+    id: 'Asia/Riyadh',
+    label: 'AST',
+    description: 'Arabia Standard Time (UTC+3)',
+  },
+  { id: 'Asia/Dubai', label: 'GST', description: 'Gulf Standard Time (UTC+4)' },
+  { id: 'Europe/London', label: 'UK', description: 'London (UTC+0/+1)' },
+  { id: 'America/New_York', label: 'ET', description: 'US Eastern (UTC-5/-4)' },
+];
+
+export const getDeviceTimeZone = () => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getTimeZoneLabel = (timeZone: string) => {
+  const known = TIME_ZONES.find(zone => zone.id === timeZone);
+  if (known) return known.label;
+  try {
+    const part = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      timeZoneName: 'short',
+    })
+      .formatToParts(new Date())
+      .find(({ type }) => type === 'timeZoneName');
+    return part?.value ?? timeZone;
+  } catch {
+    return timeZone;
+  }
+};
+
+/** Wall-clock parts of an instant as seen in the given time zone. */
+export const getZonedParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find(part => part.type === type)?.value ?? '00';
+
+  return {
+    year: value('year'),
+    month: value('month'),
+    day: value('day'),
+    hour: value('hour'),
+    minute: value('minute'),
+    second: value('second'),
+  };
+};
+
+/**
+ * Human-readable time in the viewer's locale, e.g. "Oct 19, 2026, 2:05 PM EAT".
+ * `locale` of null uses the device locale.
+ */
+export const formatDisplayTime = (
+  timestamp: string,
+  timeZone: string,
+  locale: string | null = null
+) => {
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) return 'Invalid date';
+
+  try {
+    const formatted = new Intl.DateTimeFormat(locale ?? undefined, {
+      timeZone,
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    }).format(date);
+    return `${formatted} ${getTimeZoneLabel(timeZone)}`;
+  } catch {
+    return 'Invalid date';
+  }
+};
+
+/**
+ * Locale-independent time for exports, e.g. "10/19/2026 14:05:00 EAT", so
+ * files stay parseable regardless of who exported them.
+ */
+export const formatExportTime = (timestamp: string, timeZone: string) => {
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) return 'N/A';
+
+  try {
+    const { year, month, day, hour, minute, second } = getZonedParts(
+      date,
+      timeZone
+    );
+    return `${month}/${day}/${year} ${hour}:${minute}:${second} ${getTimeZoneLabel(timeZone)}`;
+  } catch {
+    return 'N/A';
+  }
+};
+
+/** Offset of the zone from UTC at the given instant, in milliseconds. */
+const getZoneOffset = (date: Date, timeZone: string) => {
+  const { year, month, day, hour, minute, second } = getZonedParts(
+    date,
+    timeZone
+  );
+  const asUTC = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  return asUTC - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+export const findTimeZoneByLabel = (label: string) =>
+  TIME_ZONES.find(zone => zone.label.toUpperCase() === label.toUpperCase())
+    ?.id ?? null;
+
+/**
+ * Reads a time written by formatExportTime ("10/19/2026 14:05:00 EAT") back
+ * into a UTC ISO string. A trailing zone label overrides `timeZone`. ISO 8601
+ * strings are accepted as-is. Returns null if the value can't be understood.
+ */
+export const parseExportTime = (value: string, timeZone: string) => {
+  const trimmed = value.trim();
+  const match = trimmed.match(
+    /^(\d{1,2})\/(\d{1,2})\/(\d{4})\s+(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\s+([A-Za-z]+))?$/
+  );
+
+  if (!match) {
+    const iso = /^\d{4}-\d{2}-\d{2}T/.test(trimmed) ? new Date(trimmed) : null;
+    return iso && !isNaN(iso.getTime()) ? iso.toISOString() : null;
+  }
+
+  const [, month, day, year, hour, minute, second = '0', label] = match;
+  const zone = (label && findTimeZoneByLabel(label)) || timeZone;
+  const wallClock = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  if (isNaN(wallClock)) return null;
+
+  try {
+    // Correct the wall-clock guess by the zone's offset, then once more in
+    // case the first guess landed on the other side of a DST change
+    let instant = wallClock - getZoneOffset(new Date(wallClock), zone);
+    instant = wallClock - getZoneOffset(new Date(instant), zone);
+    return new Date(instant).toISOString();
+  } catch {
+    return null;
+  }
+};
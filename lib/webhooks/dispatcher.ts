@@ -0,0 +1,289 @@
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import { QRRecord, commitQueueWrites, subscribeToRecords } from '@/lib/records';
+import {
+  StorageAdapter,
+  WEBHOOK_DELIVERIES_TABLE,
+  WriteOp,
+  getStorage,
+} from '@/lib/storage';
+import { getWebhook, notifyWebhookListeners } from './endpoints';
+import { webhookWrites } from './queue';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, signWebhook } from './signing';
+import { WebhookDelivery, WebhookEndpoint } from './types';
+
+const REQUEST_TIMEOUT_MS = 10000;
+const MAX_ATTEMPTS = 8;
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+const MAX_LOGGED_DELIVERIES = 200;
+
+let running: Promise<void> | null = null;
+// Set when deliveries are queued during a run, which may have missed them
+let runAgain = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** 30s, 1m, 2m… capped at an hour. */
+const retryDelay = (attempts: number) =>
+  Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+
+class WebhookHttpError extends Error {
+  constructor(public status: number) {
+    super(`Endpoint responded with HTTP ${status}`);
+    this.name = 'WebhookHttpError';
+  }
+}
+
+const send = async (endpoint: WebhookEndpoint, delivery: WebhookDelivery) => {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      body,
+      signal: controller.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': delivery.id,
+        [TIMESTAMP_HEADER]: timestamp,
+        ...(endpoint.secret
+          ? {
+              [SIGNATURE_HEADER]: `sha256=${signWebhook(endpoint.secret, timestamp, body)}`,
+            }
+          : {}),
+      },
+    });
+    if (!response.ok) throw new WebhookHttpError(response.status);
+    return response.status;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+/** Saves the outcome of an attempt unless the delivery changed meanwhile. */
+const recordAttempt = (
+  delivery: WebhookDelivery,
+  outcome: Partial<WebhookDelivery>
+) =>
+  commitQueueWrites(async storage => {
+    const stored = await storage.get<WebhookDelivery>(
+      WEBHOOK_DELIVERIES_TABLE.name,
+      delivery.id
+    );
+    if (stored?.status !== 'pending') return [];
+    return [
+      {
+        type: 'put',
+        table: WEBHOOK_DELIVERIES_TABLE.name,
+        value: { ...stored, ...outcome },
+      },
+    ];
+  });
+
+const attempt = async (delivery: WebhookDelivery) => {
+  const now = new Date().toISOString();
+  const endpoint = await getWebhook(delivery.endpointId);
+  if (!endpoint || !endpoint.enabled) {
+    await recordAttempt(delivery, {
+      status: 'failed',
+      completedAt: now,
+      lastError: endpoint ? 'Endpoint is disabled' : 'Endpoint was removed',
+    });
+    return;
+  }
+
+  const attempts = delivery.attempts + 1;
+  try {
+    const responseStatus = await send(endpoint, delivery);
+    await recordAttempt(delivery, {
+      status: 'delivered',
+      attempts,
+      completedAt: new Date().toISOString(),
+      responseStatus,
+      lastError: null,
+    });
+  } catch (error) {
+    const gaveUp = attempts >= MAX_ATTEMPTS;
+    await recordAttempt(delivery, {
+      status: gaveUp ? 'failed' : 'pending',
+      attempts,
+      completedAt: gaveUp ? new Date().toISOString() : null,
+      nextAttemptAt: new Date(Date.now() + retryDelay(attempts)).toISOString(),
+      responseStatus: error instanceof WebhookHttpError ? error.status : null,
+      lastError: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+const pendingDeliveries = async (storage: StorageAdapter) =>
+  storage.find<WebhookDelivery>(WEBHOOK_DELIVERIES_TABLE.name, {
+    where: { status: 'pending' },
+    orderBy: 'nextAttemptAt',
+  });
+
+/** Drops the oldest completed deliveries once the log grows too long. */
+const pruneLog = () =>
+  commitQueueWrites(async storage => {
+    const completed = (
+      await storage.find<WebhookDelivery>(WEBHOOK_DELIVERIES_TABLE.name, {
+        orderBy: 'createdAt',
+        descending: true,
+      })
+    ).filter(delivery => delivery.status !== 'pending');
+    return completed.slice(MAX_LOGGED_DELIVERIES).map((delivery): WriteOp => ({
+      type: 'delete',
+      table: WEBHOOK_DELIVERIES_TABLE.name,
+      key: delivery.id,
+    }));
+  });
+
+const scheduleRetry = async () => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  const [next] = await pendingDeliveries(await getStorage());
+  if (!next) return;
+  const delay = Math.max(
+    new Date(next.nextAttemptAt).getTime() - Date.now(),
+    1000
+  );
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    deliverWebhooks();
+  }, delay);
+};
+
+const runDeliveries = async () => {
+  const network = await NetInfo.fetch();
+  // Offline periods don't count as failed attempts; the queue waits
+  if (network.isConnected === false) return;
+
+  const now = new Date().toISOString();
+  const due = (await pendingDeliveries(await getStorage())).filter(
+    delivery => delivery.nextAttemptAt <= now
+  );
+  for (const delivery of due) {
+    await attempt(delivery);
+    notifyWebhookListeners();
+  }
+  if (due.length > 0) {
+    await pruneLog();
+    notifyWebhookListeners();
+  }
+  await scheduleRetry();
+};
+
+/** Sends deliveries that are due. Concurrent calls share a run. */
+export const deliverWebhooks = (): Promise<void> => {
+  if (running) {
+    runAgain = true;
+    return running;
+  }
+  running = runDeliveries()
+    .catch(error => console.error('Webhook delivery failed:', error))
+    .finally(() => {
+      running = null;
+      if (runAgain) {
+        runAgain = false;
+        deliverWebhooks();
+      }
+    });
+  return running;
+};
+
+/**
+ * Queues webhooks for a scan of a code that was already registered. Safe to
+ * call without awaiting; failures are only logged.
+ */
+export const queueDuplicateWebhook = async (record: QRRecord) => {
+  try {
+    await commitQueueWrites(storage =>
+      webhookWrites(storage, [{ event: 'duplicate', record }])
+    );
+    notifyWebhookListeners();
+    deliverWebhooks();
+  } catch (error) {
+    console.error('Error queuing duplicate webhook:', error);
+  }
+};
+
+/** Deliveries newest first, for the delivery log. */
+export const listWebhookDeliveries = async (): Promise<WebhookDelivery[]> => {
+  const storage = await getStorage();
+  return storage.find<WebhookDelivery>(WEBHOOK_DELIVERIES_TABLE.name, {
+    orderBy: 'createdAt',
+    descending: true,
+  });
+};
+
+/** Puts a failed delivery back in the queue with a fresh set of attempts. */
+export const retryWebhookDelivery = async (id: string) => {
+  await commitQueueWrites(async storage => {
+    const delivery = await storage.get<WebhookDelivery>(
+      WEBHOOK_DELIVERIES_TABLE.name,
+      id
+    );
+    if (!delivery || delivery.status !== 'failed') return [];
+    return [
+      {
+        type: 'put',
+        table: WEBHOOK_DELIVERIES_TABLE.name,
+        value: {
+          ...delivery,
+          status: 'pending',
+          attempts: 0,
+          nextAttemptAt: new Date().toISOString(),
+          completedAt: null,
+        },
+      },
+    ];
+  });
+  notifyWebhookListeners();
+  await deliverWebhooks();
+};
+
+/** Empties the delivery log, keeping deliveries that are still queued. */
+export const clearWebhookLog = async () => {
+  await commitQueueWrites(async storage =>
+    (await storage.find<WebhookDelivery>(WEBHOOK_DELIVERIES_TABLE.name))
+      .filter(delivery => delivery.status !== 'pending')
+      .map((delivery): WriteOp => ({
+        type: 'delete',
+        table: WEBHOOK_DELIVERIES_TABLE.name,
+        key: delivery.id,
+      }))
+  );
+  notifyWebhookListeners();
+};
+
+/**
+ * Sends queued webhooks in the background: right after record changes, when
+ * the network comes back and when the app returns to the foreground. Returns
+ * a function that stops it.
+ */
+export const startWebhooks = () => {
+  let wasConnected = true;
+
+  deliverWebhooks();
+  const unsubscribeRecords = subscribeToRecords(() => {
+    deliverWebhooks();
+  });
+  const unsubscribeNetwork = NetInfo.addEventListener(network => {
+    const connected = network.isConnected !== false;
+    if (connected && !wasConnected) deliverWebhooks();
+    wasConnected = connected;
+  });
+  const appState = AppState.addEventListener('change', status => {
+    if (status === 'active') deliverWebhooks();
+  });
+
+  return () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    unsubscribeRecords();
+    unsubscribeNetwork();
+    appState.remove();
+  };
+};
@@ -0,0 +1,91 @@
+import { createId } from '@/lib/ids';
+import { WEBHOOKS_TABLE, getStorage } from '@/lib/storage';
+import {
+  WebhookEndpoint,
+  WebhookEndpointInput,
+  WebhooksListener,
+} from './types';
+
+export class WebhookNotFoundError extends Error {
+  constructor(public endpointId: string) {
+    super(`No webhook found with id "${endpointId}"`);
+    this.name = 'WebhookNotFoundError';
+  }
+}
+
+const listeners = new Set<WebhooksListener>();
+
+export const notifyWebhookListeners = () => {
+  listeners.forEach(listener => {
+    try {
+      listener();
+    } catch (error) {
+      console.error('Webhooks listener failed:', error);
+    }
+  });
+};
+
+const save = async (endpoint: WebhookEndpoint) => {
+  const storage = await getStorage();
+  await storage.write([
+    { type: 'put', table: WEBHOOKS_TABLE.name, value: endpoint },
+  ]);
+  notifyWebhookListeners();
+  return endpoint;
+};
+
+/** All endpoints, oldest first. */
+export const listWebhooks = async (): Promise<WebhookEndpoint[]> => {
+  const storage = await getStorage();
+  return storage.find<WebhookEndpoint>(WEBHOOKS_TABLE.name, {
+    orderBy: 'createdAt',
+  });
+};
+
+export const getWebhook = async (
+  id: string
+): Promise<WebhookEndpoint | null> => {
+  const storage = await getStorage();
+  return storage.get<WebhookEndpoint>(WEBHOOKS_TABLE.name, id);
+};
+
+export const createWebhook = (input: WebhookEndpointInput) =>
+  save({
+    ...input,
+    url: input.url.trim(),
+    id: createId('whk'),
+    createdAt: new Date().toISOString(),
+  });
+
+export const updateWebhook = async (
+  id: string,
+  changes: Partial<WebhookEndpointInput>
+) => {
+  const endpoint = await getWebhook(id);
+  if (!endpoint) throw new WebhookNotFoundError(id);
+  return save({
+    ...endpoint,
+    ...changes,
+    url: (changes.url ?? endpoint.url).trim(),
+    // Saving the secret, even as none, settles it
+    secretRequired:
+      changes.secret === undefined ? endpoint.secretRequired : false,
+  });
+};
+
+/** Removes an endpoint. Its queued deliveries fail on their next attempt. */
+export const deleteWebhook = async (id: string) => {
+  const storage = await getStorage();
+  await storage.write([
+    { type: 'delete', table: WEBHOOKS_TABLE.name, key: id },
+  ]);
+  notifyWebhookListeners();
+};
+
+/** Endpoint changes and delivery progress. */
+export const subscribeToWebhooks = (listener: WebhooksListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,4 @@
+export * from './types';
+export * from './endpoints';
+export * from './signing';
+export * from './dispatcher';
@@ -0,0 +1,87 @@
+import { getDeviceId } from '@/lib/devices';
+import { createId } from '@/lib/ids';
+import { QRRecord, RecordChange } from '@/lib/records';
+import {
+  StorageAdapter,
+  WEBHOOKS_TABLE,
+  WEBHOOK_DELIVERIES_TABLE,
+  WriteOp,
+} from '@/lib/storage';
+import {
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEvent,
+  WebhookPayload,
+} from './types';
+
+export interface WebhookTrigger {
+  event: WebhookEvent;
+  record: QRRecord;
+  previous?: QRRecord;
+}
+
+const EVENT_FOR_CHANGE: Record<RecordChange['type'], WebhookEvent> = {
+  added: 'registered',
+  updated: 'edited',
+  deleted: 'deleted',
+};
+
+export const triggersFor = (changes: RecordChange[]): WebhookTrigger[] =>
+  changes.map(change => ({
+    event: EVENT_FOR_CHANGE[change.type],
+    record: change.record,
+    previous: change.type === 'updated' ? change.previous : undefined,
+  }));
+
+/**
+ * Deliveries to queue for each enabled endpoint that listens for the
+ * triggered events. Written in the same transaction as the change that
+ * caused them, so a change is never stored without its webhooks.
+ */
+export const webhookWrites = async (
+  storage: StorageAdapter,
+  triggers: WebhookTrigger[]
+): Promise<WriteOp[]> => {
+  if (triggers.length === 0) return [];
+  const endpoints = (
+    await storage.find<WebhookEndpoint>(WEBHOOKS_TABLE.name)
+  ).filter(endpoint => endpoint.enabled);
+  if (endpoints.length === 0) return [];
+
+  const deviceId = await getDeviceId();
+  const now = new Date().toISOString();
+  const writes: WriteOp[] = [];
+  for (const { event, record, previous } of triggers) {
+    for (const endpoint of endpoints) {
+      if (!endpoint.events.includes(event)) continue;
+      const id = createId('whd');
+      const payload: WebhookPayload = {
+        id,
+        event,
+        occurredAt: now,
+        deviceId,
+        record,
+        ...(previous ? { previous } : {}),
+      };
+      const delivery: WebhookDelivery = {
+        id,
+        endpointId: endpoint.id,
+        event,
+        payload,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: now,
+        completedAt: null,
+        responseStatus: null,
+        lastError: null,
+      };
+      writes.push({
+        type: 'put',
+        table: WEBHOOK_DELIVERIES_TABLE.name,
+        value: delivery,
+      });
+    }
+  }
+  return writes;
+};
@@ -0,0 +1,20 @@
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { getRandomBytes } from 'expo-crypto';
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+/**
+ * Hex HMAC-SHA256 of `<timestamp>.<body>`. Receivers recompute it with the
+ * shared secret and compare it with the signature header (without the
+ * "sha256=" prefix), and can reject old timestamps to stop replays.
+ */
+export const signWebhook = (secret: string, timestamp: string, body: string) =>
+  bytesToHex(
+    hmac(sha256, utf8ToBytes(secret), utf8ToBytes(`${timestamp}.${body}`))
+  );
+
+/** Random 32-byte secret, hex encoded. */
+export const createWebhookSecret = () => bytesToHex(getRandomBytes(32));
@@ -0,0 +1,58 @@
+import { QRRecord } from '@/lib/records';
+
+export type WebhookEvent = 'registered' | 'duplicate' | 'edited' | 'deleted';
+
+export interface WebhookEndpoint {
+  id: string;
+  name: string;
+  url: string;
+  /** Signs every request with HMAC-SHA256 when set. */
+  secret: string | null;
+  /**
+   * Set on an endpoint restored from a backup without the secret it was
+   * signed with. It stays off until a secret is entered, so the receiver
+   * never gets unsigned requests it doesn't expect.
+   */
+  secretRequired?: boolean;
+  /** Events this endpoint is called for. */
+  events: WebhookEvent[];
+  enabled: boolean;
+  createdAt: string;
+}
+
+export type WebhookEndpointInput = Omit<WebhookEndpoint, 'id' | 'createdAt'>;
+
+/** JSON body sent to endpoints. */
+export interface WebhookPayload {
+  /** Same as the delivery id; stays the same across retries. */
+  id: string;
+  event: WebhookEvent;
+  /** UTC time the change happened on the device. */
+  occurredAt: string;
+  deviceId: string;
+  record: QRRecord;
+  /** For edits, the record as it was before. */
+  previous?: QRRecord;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  event: WebhookEvent;
+  payload: WebhookPayload;
+  /** Failed deliveries were given up on and are only retried by hand. */
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** UTC time before which a pending delivery isn't retried. */
+  nextAttemptAt: string;
+  createdAt: string;
+  /** UTC time the delivery succeeded or was given up on. */
+  completedAt: string | null;
+  /** HTTP status of the latest attempt, if the endpoint answered. */
+  responseStatus: number | null;
+  lastError: string | null;
+}
+
+export type WebhooksListener = () => void;
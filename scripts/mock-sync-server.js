@@ -0,0 +1,126 @@
+/**
+ * In-memory stand-in for the sync backend, for trying sync without real
+ * infrastructure:
+ *
+ *   npm run sync:mock                 # http://0.0.0.0:4000, no token
+ *   PORT=5000 SYNC_TOKEN=secret npm run sync:mock
+ *
+ * Point the app at http://<this machine's LAN IP>:4000. Data is lost when
+ * the server stops.
+ */
+const http = require('http');
+
+const PORT = Number(process.env.PORT) || 4000;
+const TOKEN = process.env.SYNC_TOKEN || null;
+
+// Latest state per record, keyed by "eventId/qrcode", tagged with the
+// sequence number of the change that produced it
+const records = new Map();
+let sequence = 0;
+
+const keyOf = (eventId, qrcode) => `${eventId}/${qrcode}`;
+
+const changedAt = entry =>
+  entry.deleted
+    ? entry.deletedAt
+    : entry.record.updatedAt || entry.record.timestamp;
+
+/**
+ * Last writer wins; on a tie the server keeps what it has. A rejected change
+ * moves the winner to the end of the change feed, so the device that sent it
+ * pulls the winner back down.
+ */
+const apply = incoming => {
+  const key = keyOf(incoming.eventId, incoming.qrcode);
+  const current = records.get(key);
+  if (current && changedAt(current) >= changedAt(incoming)) {
+    current.sequence = ++sequence;
+    return false;
+  }
+  records.set(key, { ...incoming, sequence: ++sequence });
+  return true;
+};
+
+const send = (response, status, body) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+};
+
+const readBody = request =>
+  new Promise((resolve, reject) => {
+    let data = '';
+    request.on('data', chunk => (data += chunk));
+    request.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    request.on('error', reject);
+  });
+
+const server = http.createServer(async (request, response) => {
+  const url = new URL(request.url, `http://${request.headers.host}`);
+  console.log(`${request.method} ${url.pathname}${url.search}`);
+
+  if (TOKEN && request.headers.authorization !== `Bearer ${TOKEN}`) {
+    return send(response, 401, { error: 'Unauthorized' });
+  }
+
+  if (request.method === 'GET' && url.pathname === '/records') {
+    const since = Number(url.searchParams.get('since')) || 0;
+    const changed = [...records.values()].filter(
+      entry => entry.sequence > since
+    );
+    return send(response, 200, {
+      records: changed.filter(entry => !entry.deleted).map(e => e.record),
+      deleted: changed
+        .filter(entry => entry.deleted)
+        .map(({ eventId, qrcode, deletedAt }) => ({
+          eventId,
+          qrcode,
+          deletedAt,
+        })),
+      cursor: String(sequence),
+    });
+  }
+
+  if (request.method === 'POST' && url.pathname === '/records/batch') {
+    let body;
+    try {
+      body = await readBody(request);
+    } catch {
+      return send(response, 400, { error: 'Invalid JSON' });
+    }
+    if (!Array.isArray(body.changes)) {
+      return send(response, 400, { error: 'Expected { changes: [] }' });
+    }
+
+    let accepted = 0;
+    for (const change of body.changes) {
+      const applied =
+        change.op === 'upsert'
+          ? apply({
+              eventId: change.record.eventId,
+              qrcode: change.record.qrcode,
+              record: change.record,
+            })
+          : apply({
+              eventId: change.eventId,
+              qrcode: change.qrcode,
+              deleted: true,
+              deletedAt: change.deletedAt,
+            });
+      if (applied) accepted++;
+    }
+    return send(response, 200, { accepted });
+  }
+
+  send(response, 404, { error: 'Not found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock sync server listening on http://0.0.0.0:${PORT}`);
+  if (TOKEN) console.log('Requests must send "Authorization: Bearer <token>"');
+});